@@ -0,0 +1,117 @@
+import { describe, test, expect, vi } from "vitest";
+
+import { buildAccessReport, formatAccessReport, isReportableType } from "./access-report.js";
+import type { SpiceDbClient, RelationshipTuple } from "./spicedb.js";
+
+type Lookup = { subjectId: string; conditional: boolean };
+
+function mockSpiceDb(subjects: Record<string, Lookup[]>, tuples: RelationshipTuple[]) {
+  const lookupSubjects = vi.fn().mockImplementation(
+    async (req: { permission: string; subjectType: string }) => subjects[`${req.permission}:${req.subjectType}`] ?? [],
+  );
+  const readRelationships = vi.fn().mockImplementation(async (req: { resourceId?: string }) =>
+    tuples.filter((t) => t.resourceId === req.resourceId),
+  );
+  return { spicedb: { lookupSubjects, readRelationships } as unknown as SpiceDbClient, lookupSubjects };
+}
+
+const yes = (subjectId: string): Lookup => ({ subjectId, conditional: false });
+
+describe("buildAccessReport", () => {
+  test("merges group permissions per subject and tags direct roles", async () => {
+    const { spicedb, lookupSubjects } = mockSpiceDb(
+      {
+        "access:person": [yes("mark"), yes("alex"), yes("eve")],
+        "access:agent": [yes("pi")],
+        "contribute:person": [yes("mark"), { subjectId: "alex", conditional: true }],
+        "contribute:agent": [yes("pi")],
+        "manage:person": [yes("mark")],
+      },
+      [
+        { resourceType: "group", resourceId: "project", relation: "owner", subjectType: "person", subjectId: "mark" },
+        { resourceType: "group", resourceId: "project", relation: "contributor", subjectType: "person", subjectId: "alex", caveat: { name: "write_channel", context: { allowed_channels: ["slack"] } } },
+        { resourceType: "group", resourceId: "project", relation: "viewer", subjectType: "person", subjectId: "alex" },
+        { resourceType: "group", resourceId: "project", relation: "contributor", subjectType: "agent", subjectId: "pi" },
+      ],
+    );
+
+    const report = await buildAccessReport(spicedb, { type: "group", id: "project" }, "tok-1");
+
+    expect(lookupSubjects).toHaveBeenCalledTimes(6);
+    expect(lookupSubjects).toHaveBeenCalledWith({
+      resourceType: "group",
+      resourceId: "project",
+      permission: "contribute",
+      subjectType: "agent",
+      consistency: { mode: "at_least_as_fresh", token: "tok-1" },
+    });
+    expect(report).toEqual({
+      resource: "group:project",
+      permissions: ["access", "contribute", "manage"],
+      subjects: [
+        { subject: "person:mark", via: ["owner"], permissions: { access: "yes", contribute: "yes", manage: "yes" } },
+        { subject: "agent:pi", via: ["contributor"], permissions: { access: "yes", contribute: "yes" } },
+        { subject: "person:alex", via: ["contributor, writes only from slack"], permissions: { access: "yes", contribute: "conditional" } },
+        { subject: "person:eve", via: [], permissions: { access: "yes" } },
+      ],
+    });
+  });
+
+  test("reports fragment permissions with the fragment's direct relations", async () => {
+    const { spicedb } = mockSpiceDb(
+      {
+        "view:person": [yes("dad"), yes("mom")],
+        "share:person": [yes("dad")],
+        "delete:person": [yes("dad")],
+      },
+      [
+        { resourceType: "memory_fragment", resourceId: "ep-1", relation: "shared_by", subjectType: "person", subjectId: "dad" },
+        { resourceType: "memory_fragment", resourceId: "ep-1", relation: "viewer", subjectType: "person", subjectId: "mom" },
+      ],
+    );
+
+    const report = await buildAccessReport(spicedb, { type: "memory_fragment", id: "ep-1" });
+
+    expect(report.subjects).toEqual([
+      { subject: "person:dad", via: ["shared_by"], permissions: { view: "yes", share: "yes", delete: "yes" } },
+      { subject: "person:mom", via: ["viewer"], permissions: { view: "yes" } },
+    ]);
+  });
+});
+
+describe("formatAccessReport", () => {
+  test("prints an aligned table with inherited and conditional markers", () => {
+    const lines = formatAccessReport({
+      resource: "group:project",
+      permissions: ["access", "contribute", "manage"],
+      subjects: [
+        { subject: "person:alex", via: ["contributor"], permissions: { access: "yes", contribute: "conditional" } },
+        { subject: "agent:pi", via: [], permissions: { access: "yes" } },
+      ],
+    });
+
+    expect(lines).toEqual([
+      "Access to group:project:",
+      "",
+      "SUBJECT      ACCESS  CONTRIBUTE  MANAGE  VIA",
+      "person:alex  yes     cond.       -       contributor",
+      "agent:pi     yes     -           -       (inherited)",
+      "",
+      "cond. = only with matching caveat context (e.g. from an allowed channel)",
+    ]);
+  });
+
+  test("says so when nobody has access", () => {
+    expect(formatAccessReport({ resource: "group:x", permissions: ["access"], subjects: [] })).toEqual([
+      "No person or agent has any of access on group:x.",
+    ]);
+  });
+});
+
+describe("isReportableType", () => {
+  test("accepts groups and memory fragments only", () => {
+    expect(isReportableType("group")).toBe(true);
+    expect(isReportableType("memory_fragment")).toBe(true);
+    expect(isReportableType("person")).toBe(false);
+  });
+});
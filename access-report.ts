@@ -0,0 +1,156 @@
+/**
+ * Access Reports
+ *
+ * lookupResources answers "what can this agent see"; compliance reviews ask
+ * the reverse: who can see, write or delete this group or memory. A report
+ * runs lookupSubjects for each permission of the resource, for persons and
+ * agents, so membership through roles, child groups, delegation, sharing
+ * and involvement is all expanded by SpiceDB. Each subject is also tagged
+ * with how it is directly related to the resource, if at all.
+ *
+ * Used by `graphiti-mem access-report`.
+ */
+
+import type { SpiceDbClient } from "./spicedb.js";
+import { readFragmentRelationships } from "./authorization.js";
+import { describeGrant, listGroupMembers } from "./groups.js";
+import type { ObjectRef } from "./explain.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReportableType = "group" | "memory_fragment";
+
+/** Permissions reported per resource type: read, write/share, and control. */
+export const REPORT_PERMISSIONS: Record<ReportableType, readonly string[]> = {
+  group: ["access", "contribute", "manage"],
+  memory_fragment: ["view", "share", "delete"],
+};
+
+const SUBJECT_TYPES = ["person", "agent"] as const;
+
+export type AccessReportEntry = {
+  /** "person:mark" */
+  subject: string;
+  /**
+   * Direct relations to the resource: a group role with its conditions
+   * ("contributor, writes only from slack") or fragment relations
+   * ("shared_by", "involves", "viewer"). Empty when access is inherited.
+   */
+  via: string[];
+  /** Permission → "yes", or "conditional" when it depends on caveat context (e.g. the channel) */
+  permissions: Record<string, "yes" | "conditional">;
+};
+
+export type AccessReport = {
+  /** "group:main" */
+  resource: string;
+  permissions: readonly string[];
+  subjects: AccessReportEntry[];
+};
+
+export function isReportableType(type: string): type is ReportableType {
+  return type in REPORT_PERMISSIONS;
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/** Direct relations of each subject ("type:id") to the resource. */
+async function directRelations(
+  spicedb: SpiceDbClient,
+  resource: ObjectRef & { type: ReportableType },
+  zedToken?: string,
+): Promise<Map<string, string[]>> {
+  const via = new Map<string, string[]>();
+  const add = (subject: string, relation: string) => via.set(subject, [...(via.get(subject) ?? []), relation]);
+
+  if (resource.type === "group") {
+    for (const m of await listGroupMembers(spicedb, resource.id, zedToken)) {
+      add(`${m.subject.type}:${m.subject.id}`, describeGrant(m));
+    }
+    return via;
+  }
+  const { sharedBy, involves, viewers } = await readFragmentRelationships(spicedb, resource.id, zedToken);
+  if (sharedBy) add(`${sharedBy.type}:${sharedBy.id}`, "shared_by");
+  for (const s of involves) add(`${s.type}:${s.id}`, "involves");
+  for (const s of viewers) add(`${s.type}:${s.id}`, "viewer");
+  return via;
+}
+
+/**
+ * Every person and agent holding any reported permission on a group or
+ * memory_fragment, strongest access first.
+ */
+export async function buildAccessReport(
+  spicedb: SpiceDbClient,
+  resource: ObjectRef & { type: ReportableType },
+  zedToken?: string,
+): Promise<AccessReport> {
+  const permissions = REPORT_PERMISSIONS[resource.type];
+  const consistency = zedToken ? { mode: "at_least_as_fresh" as const, token: zedToken } : undefined;
+
+  const lookups = await Promise.all(
+    permissions.flatMap((permission) =>
+      SUBJECT_TYPES.map(async (subjectType) => ({
+        permission,
+        subjectType,
+        results: await spicedb.lookupSubjects({
+          resourceType: resource.type,
+          resourceId: resource.id,
+          permission,
+          subjectType,
+          consistency,
+        }),
+      })),
+    ),
+  );
+  const via = await directRelations(spicedb, resource, zedToken);
+
+  const entries = new Map<string, AccessReportEntry>();
+  for (const { permission, subjectType, results } of lookups) {
+    for (const { subjectId, conditional } of results) {
+      const subject = `${subjectType}:${subjectId}`;
+      const entry = entries.get(subject) ?? { subject, via: via.get(subject) ?? [], permissions: {} };
+      entry.permissions[permission] = conditional ? "conditional" : "yes";
+      entries.set(subject, entry);
+    }
+  }
+
+  // Most permissions first (control before write before read), then by name
+  const rank = (e: AccessReportEntry) =>
+    permissions.reduce((sum, p, i) => sum + (e.permissions[p] ? 2 ** i : 0), 0);
+  return {
+    resource: `${resource.type}:${resource.id}`,
+    permissions,
+    subjects: [...entries.values()].sort((a, b) => rank(b) - rank(a) || a.subject.localeCompare(b.subject)),
+  };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/** The report as an aligned text table ("yes", "cond." or "-" per permission). */
+export function formatAccessReport(report: AccessReport): string[] {
+  if (report.subjects.length === 0) {
+    return [`No person or agent has any of ${report.permissions.join(", ")} on ${report.resource}.`];
+  }
+  const header = ["SUBJECT", ...report.permissions.map((p) => p.toUpperCase()), "VIA"];
+  const rows = report.subjects.map((e) => [
+    e.subject,
+    ...report.permissions.map((p) => (e.permissions[p] === "yes" ? "yes" : e.permissions[p] ? "cond." : "-")),
+    e.via.length > 0 ? e.via.join(", ") : "(inherited)",
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join("  ").trimEnd();
+  return [
+    `Access to ${report.resource}:`,
+    "",
+    line(header),
+    ...rows.map(line),
+    ...(rows.some((r) => r.includes("cond.")) ? ["", "cond. = only with matching caveat context (e.g. from an allowed channel)"] : []),
+  ];
+}
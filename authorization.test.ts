@@ -2,11 +2,24 @@ import { describe, test, expect, vi } from "vitest";
 import {
   lookupAuthorizedGroups,
   lookupViewableFragments,
+  lookupFragmentSourceGroups,
   writeFragmentRelationships,
   deleteFragmentRelationships,
   canDeleteFragment,
+  canViewFragment,
+  canAccessGroup,
   canWriteToGroup,
+  canManageGroup,
   ensureGroupMembership,
+  enrollGroupMember,
+  setGroupRole,
+  migrateLegacyMembers,
+  readFragmentRelationships,
+  attachChildGroup,
+  detachChildGroup,
+  listParentGroups,
+  setAgentOwner,
+  syncAgentDelegation,
 } from "./authorization.js";
 import type { SpiceDbClient } from "./spicedb.js";
 
@@ -20,6 +33,7 @@ function mockSpiceDb(overrides?: Partial<SpiceDbClient>): SpiceDbClient {
     bulkImportRelationships: vi.fn().mockResolvedValue(0),
     checkPermission: vi.fn().mockResolvedValue(true),
     lookupResources: vi.fn().mockResolvedValue([]),
+    readRelationships: vi.fn().mockResolvedValue([]),
     ...overrides,
   } as unknown as SpiceDbClient;
 }
@@ -75,6 +89,62 @@ describe("lookupViewableFragments", () => {
   });
 });
 
+describe("lookupFragmentSourceGroups", () => {
+  test("returns source groups of fragments the subject is involved in, shared or was shared", async () => {
+    const readRelationships = vi.fn().mockImplementation((params: Record<string, unknown>) => {
+      if (params.relation === "involves") {
+        return Promise.resolve([
+          { resourceType: "memory_fragment", resourceId: "frag-1", relation: "involves", subjectType: "person", subjectId: "mom" },
+        ]);
+      }
+      if (params.relation === "shared_by") {
+        return Promise.resolve([
+          { resourceType: "memory_fragment", resourceId: "frag-1", relation: "shared_by", subjectType: "person", subjectId: "mom" },
+          { resourceType: "memory_fragment", resourceId: "frag-2", relation: "shared_by", subjectType: "person", subjectId: "mom" },
+        ]);
+      }
+      if (params.relation === "viewer") {
+        return Promise.resolve([
+          { resourceType: "memory_fragment", resourceId: "frag-3", relation: "viewer", subjectType: "person", subjectId: "mom" },
+        ]);
+      }
+      return Promise.resolve([
+        { resourceType: "memory_fragment", resourceId: "frag-1", relation: "source_group", subjectType: "group", subjectId: "work" },
+        { resourceType: "memory_fragment", resourceId: "frag-2", relation: "source_group", subjectType: "group", subjectId: "family" },
+        { resourceType: "memory_fragment", resourceId: "frag-3", relation: "source_group", subjectType: "group", subjectId: "dad-private" },
+        { resourceType: "memory_fragment", resourceId: "frag-9", relation: "source_group", subjectType: "group", subjectId: "unrelated" },
+      ]);
+    });
+    const spicedb = mockSpiceDb({ readRelationships });
+
+    const groups = await lookupFragmentSourceGroups(spicedb, { type: "person", id: "mom" }, "tok-1");
+
+    expect(groups.sort()).toEqual(["dad-private", "family", "work"]);
+    expect(readRelationships).toHaveBeenCalledWith({
+      resourceType: "memory_fragment",
+      relation: "involves",
+      subjectType: "person",
+      subjectId: "mom",
+      consistency: { mode: "at_least_as_fresh", token: "tok-1" },
+    });
+    // A single source_group read, joined against the linked fragments
+    const sourceReads = readRelationships.mock.calls.filter((c) => c[0].relation === "source_group");
+    expect(sourceReads).toEqual([
+      [{ resourceType: "memory_fragment", relation: "source_group", consistency: { mode: "at_least_as_fresh", token: "tok-1" } }],
+    ]);
+  });
+
+  test("returns empty array when subject is linked to no fragments", async () => {
+    const readRelationships = vi.fn().mockResolvedValue([]);
+    const spicedb = mockSpiceDb({ readRelationships });
+
+    const groups = await lookupFragmentSourceGroups(spicedb, { type: "agent", id: "pi" });
+
+    expect(groups).toEqual([]);
+    expect(readRelationships).toHaveBeenCalledTimes(3);
+  });
+});
+
 describe("writeFragmentRelationships", () => {
   test("writes source_group and shared_by relationships", async () => {
     const writeRelationships = vi.fn().mockResolvedValue("write-tok-1");
@@ -212,6 +282,53 @@ describe("canDeleteFragment", () => {
   });
 });
 
+describe("readFragmentRelationships", () => {
+  test("splits a fragment's tuples into source group, sharer, involved subjects and viewers", async () => {
+    const readRelationships = vi.fn().mockResolvedValue([
+      { resourceType: "memory_fragment", resourceId: "ep-1", relation: "source_group", subjectType: "group", subjectId: "session-abc" },
+      { resourceType: "memory_fragment", resourceId: "ep-1", relation: "shared_by", subjectType: "agent", subjectId: "pi" },
+      { resourceType: "memory_fragment", resourceId: "ep-1", relation: "involves", subjectType: "person", subjectId: "mark" },
+      { resourceType: "memory_fragment", resourceId: "ep-1", relation: "viewer", subjectType: "agent", subjectId: "mira" },
+    ]);
+    const spicedb = mockSpiceDb({ readRelationships });
+
+    const linkage = await readFragmentRelationships(spicedb, "ep-1", "tok-1");
+
+    expect(readRelationships).toHaveBeenCalledWith({
+      resourceType: "memory_fragment",
+      resourceId: "ep-1",
+      consistency: { mode: "at_least_as_fresh", token: "tok-1" },
+    });
+    expect(linkage).toEqual({
+      groupId: "session-abc",
+      sharedBy: { type: "agent", id: "pi" },
+      involves: [{ type: "person", id: "mark" }],
+      viewers: [{ type: "agent", id: "mira" }],
+    });
+  });
+
+  test("returns no group for an unknown fragment", async () => {
+    const linkage = await readFragmentRelationships(mockSpiceDb(), "ep-missing");
+    expect(linkage).toEqual({ groupId: undefined, sharedBy: undefined, involves: [], viewers: [] });
+  });
+});
+
+describe("canViewFragment / canAccessGroup", () => {
+  test("check memory_fragment#view and group#access", async () => {
+    const checkPermission = vi.fn().mockResolvedValue(true);
+    const spicedb = mockSpiceDb({ checkPermission });
+    const subject = { type: "agent" as const, id: "pi" };
+
+    expect(await canViewFragment(spicedb, subject, "ep-1")).toBe(true);
+    expect(await canAccessGroup(spicedb, subject, "session-abc")).toBe(true);
+
+    expect(checkPermission.mock.calls.map((c) => [c[0].resourceType, c[0].resourceId, c[0].permission])).toEqual([
+      ["memory_fragment", "ep-1", "view"],
+      ["group", "session-abc", "access"],
+    ]);
+  });
+});
+
 describe("canWriteToGroup", () => {
   test("returns true when subject has contribute permission", async () => {
     const checkPermission = vi.fn().mockResolvedValue(true);
@@ -253,10 +370,19 @@ describe("canWriteToGroup", () => {
       consistency: { mode: "at_least_as_fresh", token: "tok-write" },
     });
   });
+
+  test("passes the write's channel as caveat context", async () => {
+    const checkPermission = vi.fn().mockResolvedValue(true);
+    const spicedb = mockSpiceDb({ checkPermission });
+
+    await canWriteToGroup(spicedb, { type: "person", id: "contractor" }, "project", undefined, { channel: "slack" });
+
+    expect(checkPermission.mock.calls[0][0].context).toEqual({ channel: "slack" });
+  });
 });
 
 describe("ensureGroupMembership", () => {
-  test("writes group member relationship and returns token", async () => {
+  test("writes a contributor relationship by default and returns token", async () => {
     const writeRelationships = vi.fn().mockResolvedValue("membership-tok");
     const spicedb = mockSpiceDb({ writeRelationships });
 
@@ -266,11 +392,281 @@ describe("ensureGroupMembership", () => {
       {
         resourceType: "group",
         resourceId: "family",
-        relation: "member",
+        relation: "contributor",
         subjectType: "person",
         subjectId: "mom",
       },
     ]);
     expect(token).toBe("membership-tok");
   });
+
+  test("writes the given role", async () => {
+    const writeRelationships = vi.fn().mockResolvedValue("membership-tok");
+    const spicedb = mockSpiceDb({ writeRelationships });
+
+    await ensureGroupMembership(spicedb, "family", { type: "person", id: "mom" }, "viewer");
+
+    expect(writeRelationships.mock.calls[0][0][0].relation).toBe("viewer");
+  });
+
+  test("writes an expiring grant", async () => {
+    const writeRelationships = vi.fn().mockResolvedValue("membership-tok");
+    const spicedb = mockSpiceDb({ writeRelationships });
+    const expiresAt = new Date("2026-11-02T00:00:00Z");
+
+    await ensureGroupMembership(spicedb, "project", { type: "person", id: "contractor" }, "contributor", { expiresAt });
+
+    expect(writeRelationships.mock.calls[0][0][0].expiresAt).toEqual(expiresAt);
+    await expect(
+      ensureGroupMembership(spicedb, "project", { type: "person", id: "contractor" }, "owner", { expiresAt }),
+    ).rejects.toThrow("can't expire");
+  });
+});
+
+describe("enrollGroupMember", () => {
+  test("writes the role when the subject holds none", async () => {
+    const writeRelationships = vi.fn().mockResolvedValue("membership-tok");
+    const readRelationships = vi.fn().mockResolvedValue([]);
+    const spicedb = mockSpiceDb({ writeRelationships, readRelationships });
+
+    const token = await enrollGroupMember(spicedb, "main", { type: "agent", id: "pi" });
+
+    expect(readRelationships).toHaveBeenCalledWith({
+      resourceType: "group",
+      resourceId: "main",
+      subjectType: "agent",
+      subjectId: "pi",
+      consistency: { mode: "full" },
+    });
+    expect(writeRelationships.mock.calls[0][0][0]).toMatchObject({ relation: "contributor", subjectId: "pi" });
+    expect(token).toBe("membership-tok");
+  });
+
+  test("leaves an existing grant alone", async () => {
+    const writeRelationships = vi.fn();
+    const readRelationships = vi.fn().mockResolvedValue([
+      {
+        resourceType: "group",
+        resourceId: "main",
+        relation: "contributor",
+        subjectType: "person",
+        subjectId: "contractor",
+        expiresAt: new Date("2026-11-02T00:00:00Z"),
+      },
+    ]);
+    const spicedb = mockSpiceDb({ writeRelationships, readRelationships });
+
+    const token = await enrollGroupMember(spicedb, "main", { type: "person", id: "contractor" });
+
+    expect(token).toBeUndefined();
+    expect(writeRelationships).not.toHaveBeenCalled();
+  });
+});
+
+describe("setGroupRole", () => {
+  test("writes the role, then removes the subject's other role and legacy tuples", async () => {
+    const tuple = (relation: string) => ({
+      resourceType: "group",
+      resourceId: "family",
+      relation,
+      subjectType: "person",
+      subjectId: "mom",
+    });
+    const writeRelationships = vi.fn().mockResolvedValue("role-tok");
+    const readRelationships = vi.fn().mockResolvedValue([tuple("viewer"), tuple("member"), tuple("admin")]);
+    const deleteRelationships = vi.fn().mockResolvedValue(undefined);
+    const spicedb = mockSpiceDb({ writeRelationships, readRelationships, deleteRelationships });
+
+    const token = await setGroupRole(spicedb, "family", { type: "person", id: "mom" }, "viewer");
+
+    expect(token).toBe("role-tok");
+    expect(readRelationships).toHaveBeenCalledWith({
+      resourceType: "group",
+      resourceId: "family",
+      subjectType: "person",
+      subjectId: "mom",
+      consistency: { mode: "at_least_as_fresh", token: "role-tok" },
+    });
+    expect(deleteRelationships).toHaveBeenCalledWith([tuple("member"), tuple("admin")]);
+  });
+
+  test("grants a channel-restricted contributor a caveated contributor tuple and a plain viewer tuple", async () => {
+    const writeRelationships = vi.fn().mockResolvedValue("role-tok");
+    const readRelationships = vi.fn().mockResolvedValue([
+      { resourceType: "group", resourceId: "project", relation: "viewer", subjectType: "person", subjectId: "contractor" },
+      { resourceType: "group", resourceId: "project", relation: "contributor", subjectType: "person", subjectId: "contractor" },
+    ]);
+    const deleteRelationships = vi.fn();
+    const spicedb = mockSpiceDb({ writeRelationships, readRelationships, deleteRelationships });
+
+    await setGroupRole(spicedb, "project", { type: "person", id: "contractor" }, "contributor", { channels: ["slack"] });
+
+    expect(writeRelationships.mock.calls[0][0]).toEqual([
+      expect.objectContaining({
+        relation: "contributor",
+        caveat: { name: "write_channel", context: { allowed_channels: ["slack"] } },
+      }),
+      expect.objectContaining({ relation: "viewer" }),
+    ]);
+    expect(writeRelationships.mock.calls[0][0][1].caveat).toBeUndefined();
+    expect(deleteRelationships).not.toHaveBeenCalled();
+    await expect(
+      setGroupRole(spicedb, "project", { type: "person", id: "contractor" }, "viewer", { channels: ["slack"] }),
+    ).rejects.toThrow("only apply to the contributor role");
+  });
+});
+
+describe("migrateLegacyMembers", () => {
+  const legacy = [
+    { resourceType: "group", resourceId: "family", relation: "member", subjectType: "person", subjectId: "mom" },
+    { resourceType: "group", resourceId: "session-abc", relation: "member", subjectType: "agent", subjectId: "pi" },
+  ];
+  const roleFor = (groupId: string) => (groupId.startsWith("session-") ? "owner" : "contributor") as const;
+
+  test("writes role tuples before deleting the legacy ones", async () => {
+    const writeRelationships = vi.fn().mockResolvedValue("tok");
+    const deleteRelationships = vi.fn().mockResolvedValue(undefined);
+    const readRelationships = vi.fn().mockResolvedValue(legacy);
+    const spicedb = mockSpiceDb({ writeRelationships, deleteRelationships, readRelationships });
+
+    const migrations = await migrateLegacyMembers(spicedb, roleFor);
+
+    expect(readRelationships).toHaveBeenCalledWith({ resourceType: "group", relation: "member" });
+    expect(migrations.map((m) => m.role)).toEqual(["contributor", "owner"]);
+    expect(writeRelationships.mock.calls[0][0].map((t: { relation: string }) => t.relation)).toEqual(["contributor", "owner"]);
+    expect(deleteRelationships).toHaveBeenCalledWith(legacy);
+    expect(writeRelationships.mock.invocationCallOrder[0]).toBeLessThan(deleteRelationships.mock.invocationCallOrder[0]);
+  });
+
+  test("changes nothing on a dry run", async () => {
+    const writeRelationships = vi.fn();
+    const deleteRelationships = vi.fn();
+    const spicedb = mockSpiceDb({ writeRelationships, deleteRelationships, readRelationships: vi.fn().mockResolvedValue(legacy) });
+
+    expect(await migrateLegacyMembers(spicedb, roleFor, { dryRun: true })).toHaveLength(2);
+    expect(writeRelationships).not.toHaveBeenCalled();
+    expect(deleteRelationships).not.toHaveBeenCalled();
+  });
+});
+
+describe("canManageGroup", () => {
+  test("checks the manage permission", async () => {
+    const checkPermission = vi.fn().mockResolvedValue(false);
+    const spicedb = mockSpiceDb({ checkPermission });
+
+    expect(await canManageGroup(spicedb, { type: "agent", id: "pi" }, "family")).toBe(false);
+    expect(checkPermission.mock.calls[0][0]).toMatchObject({ resourceType: "group", permission: "manage" });
+  });
+});
+
+describe("nested groups", () => {
+  // company ← team-a ← team-a-backend
+  const childTuples = [
+    { resourceType: "group", resourceId: "company", relation: "child", subjectType: "group", subjectId: "team-a" },
+    { resourceType: "group", resourceId: "team-a", relation: "child", subjectType: "group", subjectId: "team-a-backend" },
+  ];
+  const readRelationships = () =>
+    vi.fn().mockImplementation(async (req: { resourceId?: string; subjectId?: string }) =>
+      childTuples.filter((t) =>
+        req.resourceId ? t.resourceId === req.resourceId : t.subjectId === req.subjectId,
+      ),
+    );
+
+  test("attachChildGroup writes a child tuple on the parent", async () => {
+    const writeRelationships = vi.fn().mockResolvedValue("tok-attach");
+    const spicedb = mockSpiceDb({ writeRelationships, readRelationships: readRelationships() });
+
+    expect(await attachChildGroup(spicedb, "company", "team-b")).toBe("tok-attach");
+    expect(writeRelationships).toHaveBeenCalledWith([
+      { resourceType: "group", resourceId: "company", relation: "child", subjectType: "group", subjectId: "team-b" },
+    ]);
+  });
+
+  test("attachChildGroup refuses to create a cycle", async () => {
+    const writeRelationships = vi.fn();
+    const spicedb = mockSpiceDb({ writeRelationships, readRelationships: readRelationships() });
+
+    await expect(attachChildGroup(spicedb, "team-a-backend", "company")).rejects.toThrow("already below it");
+    await expect(attachChildGroup(spicedb, "team-a", "team-a")).rejects.toThrow("to itself");
+    expect(writeRelationships).not.toHaveBeenCalled();
+  });
+
+  test("detachChildGroup deletes the child tuple", async () => {
+    const deleteRelationships = vi.fn().mockResolvedValue(undefined);
+    const spicedb = mockSpiceDb({ deleteRelationships });
+
+    await detachChildGroup(spicedb, "company", "team-a");
+
+    expect(deleteRelationships).toHaveBeenCalledWith([childTuples[0]]);
+  });
+
+  test("listParentGroups reads child tuples by subject", async () => {
+    const spicedb = mockSpiceDb({ readRelationships: readRelationships() });
+
+    expect(await listParentGroups(spicedb, "team-a")).toEqual(["company"]);
+  });
+});
+
+describe("agent ownership", () => {
+  test("setAgentOwner writes agent#owner", async () => {
+    const writeRelationships = vi.fn().mockResolvedValue("tok-owner");
+    const spicedb = mockSpiceDb({ writeRelationships });
+
+    expect(await setAgentOwner(spicedb, "pi", "mark")).toBe("tok-owner");
+    expect(writeRelationships).toHaveBeenCalledWith([
+      { resourceType: "agent", resourceId: "pi", relation: "owner", subjectType: "person", subjectId: "mark" },
+    ]);
+  });
+
+  test("syncAgentDelegation makes opted-in agents delegates of their owners and removes the rest", async () => {
+    const owners = [
+      { resourceType: "agent", resourceId: "pi", relation: "owner", subjectType: "person", subjectId: "mark" },
+      { resourceType: "agent", resourceId: "bot", relation: "owner", subjectType: "person", subjectId: "jane" },
+    ];
+    const delegates = [
+      { resourceType: "person", resourceId: "jane", relation: "delegate", subjectType: "agent", subjectId: "bot" },
+    ];
+    const readRelationships = vi.fn().mockImplementation(async (req: { resourceType: string }) =>
+      req.resourceType === "agent" ? owners : delegates,
+    );
+    const writeRelationships = vi.fn().mockResolvedValue("tok-sync");
+    const deleteRelationships = vi.fn().mockResolvedValue(undefined);
+    const spicedb = mockSpiceDb({ readRelationships, writeRelationships, deleteRelationships });
+
+    const result = await syncAgentDelegation(spicedb, ["pi"], ["pi", "bot"]);
+
+    expect(writeRelationships).toHaveBeenCalledWith([
+      { resourceType: "person", resourceId: "mark", relation: "delegate", subjectType: "agent", subjectId: "pi" },
+    ]);
+    expect(deleteRelationships).toHaveBeenCalledWith(delegates);
+    expect(result).toMatchObject({ token: "tok-sync" });
+  });
+
+  test("syncAgentDelegation leaves delegate tuples of agents it doesn't manage", async () => {
+    const delegates = [
+      { resourceType: "person", resourceId: "jane", relation: "delegate", subjectType: "agent", subjectId: "bot" },
+      { resourceType: "person", resourceId: "kim", relation: "delegate", subjectType: "agent", subjectId: "pi" },
+    ];
+    const readRelationships = vi.fn().mockImplementation(async (req: { resourceType: string }) =>
+      req.resourceType === "agent" ? [] : delegates,
+    );
+    const deleteRelationships = vi.fn().mockResolvedValue(undefined);
+    const spicedb = mockSpiceDb({ readRelationships, writeRelationships: vi.fn(), deleteRelationships });
+
+    const result = await syncAgentDelegation(spicedb, [], ["pi"]);
+
+    expect(deleteRelationships).toHaveBeenCalledWith([delegates[1]]);
+    expect(result.removed).toEqual([delegates[1]]);
+  });
+
+  test("syncAgentDelegation writes nothing when already in sync", async () => {
+    const readRelationships = vi.fn().mockResolvedValue([]);
+    const writeRelationships = vi.fn();
+    const deleteRelationships = vi.fn();
+    const spicedb = mockSpiceDb({ readRelationships, writeRelationships, deleteRelationships });
+
+    expect(await syncAgentDelegation(spicedb, [])).toEqual({ added: [], removed: [], token: undefined });
+    expect(writeRelationships).not.toHaveBeenCalled();
+    expect(deleteRelationships).not.toHaveBeenCalled();
+  });
 });
@@ -5,6 +5,11 @@
  * - Looking up which group_ids a subject can access
  * - Writing fragment authorization relationships when memories are stored
  * - Checking delete permissions
+ * - Sharing single fragments with further subjects
+ * - Group roles (owner / admin / contributor / viewer)
+ * - Nested groups (a child group's members can read its parent)
+ * - Agent ownership (opted-in agents act within their owner's groups)
+ * - Conditional grants (expiring roles, channel-restricted writes)
  */
 
 import type { SpiceDbClient, RelationshipTuple, ConsistencyMode } from "./spicedb.js";
@@ -18,6 +23,49 @@ export type Subject = {
   id: string;
 };
 
+/**
+ * Group roles, strongest first. Owners and admins can manage the group,
+ * contributors can write memories, viewers can only read them.
+ */
+export const GROUP_ROLES = ["owner", "admin", "contributor", "viewer"] as const;
+
+export type GroupRole = (typeof GROUP_ROLES)[number];
+
+/** Pre-role relation with contributor rights, kept until migrated. */
+export const LEGACY_MEMBER_RELATION = "member";
+
+/** Relations on `group` that make a subject part of it. */
+export const GROUP_MEMBERSHIP_RELATIONS: readonly string[] = [...GROUP_ROLES, LEGACY_MEMBER_RELATION];
+
+/** Schema caveat limiting a contributor's writes to a set of channels. */
+export const WRITE_CHANNEL_CAVEAT = "write_channel";
+
+/** Conditions attached to a role grant. */
+export type GrantConditions = {
+  /** The grant lapses at this time (SpiceDB relationship expiration) */
+  expiresAt?: Date;
+  /** Contributor only: writes count only from these channels */
+  channels?: string[];
+};
+
+/** Caller context for write checks, matched against channel-restricted grants. */
+export type WriteContext = {
+  channel?: string;
+};
+
+/** Relation on memory_fragment for subjects it was shared with after storing. */
+export const FRAGMENT_VIEWER_RELATION = "viewer";
+
+/** Relation on a parent group pointing at each attached child group. */
+export const CHILD_GROUP_RELATION = "child";
+
+/** Relation on a person naming owned agents that act within their groups. */
+export const AGENT_DELEGATE_RELATION = "delegate";
+
+export function isGroupRole(value: string): value is GroupRole {
+  return (GROUP_ROLES as readonly string[]).includes(value);
+}
+
 export type FragmentRelationships = {
   fragmentId: string;
   groupId: string;
@@ -29,10 +77,47 @@ export type FragmentRelationships = {
 // Helpers
 // ============================================================================
 
+/** Relationship updates per SpiceDB write during role migration. */
+const MIGRATION_BATCH_SIZE = 500;
+
 function tokenConsistency(zedToken?: string): ConsistencyMode | undefined {
   return zedToken ? { mode: "at_least_as_fresh", token: zedToken } : undefined;
 }
 
+/**
+ * The tuples granting `role` under `conditions`. A channel-restricted
+ * contributor gets a caveated contributor tuple plus a plain viewer tuple,
+ * so reading never depends on the channel.
+ */
+function roleGrantTuples(
+  groupId: string,
+  member: Subject,
+  role: GroupRole,
+  conditions: GrantConditions,
+): RelationshipTuple[] {
+  const tuple = (relation: GroupRole): RelationshipTuple => ({
+    resourceType: "group",
+    resourceId: groupId,
+    relation,
+    subjectType: member.type,
+    subjectId: member.id,
+    ...(conditions.expiresAt ? { expiresAt: conditions.expiresAt } : {}),
+  });
+  if (conditions.expiresAt && role === "owner") {
+    throw new Error("the owner role can't expire");
+  }
+  if (!conditions.channels?.length) {
+    return [tuple(role)];
+  }
+  if (role !== "contributor") {
+    throw new Error("channel restrictions only apply to the contributor role");
+  }
+  return [
+    { ...tuple("contributor"), caveat: { name: WRITE_CHANNEL_CAVEAT, context: { allowed_channels: conditions.channels } } },
+    tuple("viewer"),
+  ];
+}
+
 // ============================================================================
 // Authorization Operations
 // ============================================================================
@@ -73,6 +158,44 @@ export async function lookupViewableFragments(
   });
 }
 
+/**
+ * Look up the source groups of fragments a subject is directly linked to
+ * (via `involves`, `shared_by` or `viewer`). These grant `view` on individual fragments
+ * even when the subject is not a member of the fragment's group, so recall
+ * must search them too when fragment-level filtering is enforced.
+ */
+export async function lookupFragmentSourceGroups(
+  spicedb: SpiceDbClient,
+  subject: Subject,
+  zedToken?: string,
+): Promise<string[]> {
+  const consistency = tokenConsistency(zedToken);
+  const linked = await Promise.all(
+    ["involves", "shared_by", FRAGMENT_VIEWER_RELATION].map((relation) =>
+      spicedb.readRelationships({
+        resourceType: "memory_fragment",
+        relation,
+        subjectType: subject.type,
+        subjectId: subject.id,
+        consistency,
+      }),
+    ),
+  );
+  const fragmentIds = new Set(linked.flat().map((t) => t.resourceId));
+  if (fragmentIds.size === 0) {
+    return [];
+  }
+
+  // One read of every source_group tuple, joined here, rather than a read
+  // per linked fragment
+  const sources = await spicedb.readRelationships({
+    resourceType: "memory_fragment",
+    relation: "source_group",
+    consistency,
+  });
+  return [...new Set(sources.filter((t) => fragmentIds.has(t.resourceId)).map((t) => t.subjectId))];
+}
+
 /**
  * Write authorization relationships for a newly stored memory fragment.
  *
@@ -117,6 +240,51 @@ export async function writeFragmentRelationships(
   return spicedb.writeRelationships(tuples);
 }
 
+/**
+ * Let further subjects view a stored fragment (memory_fragment#viewer),
+ * optionally until `expiresAt`.
+ */
+export async function shareFragment(
+  spicedb: SpiceDbClient,
+  fragmentId: string,
+  subjects: Subject[],
+  options: { expiresAt?: Date } = {},
+): Promise<string | undefined> {
+  return spicedb.writeRelationships(
+    subjects.map((s) => ({
+      resourceType: "memory_fragment",
+      resourceId: fragmentId,
+      relation: FRAGMENT_VIEWER_RELATION,
+      subjectType: s.type,
+      subjectId: s.id,
+      ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
+    })),
+  );
+}
+
+/**
+ * Revoke subjects' individual view of a fragment: both the viewer tuples
+ * from sharing and the involves tuples from storing are removed. Access
+ * through the source group is unaffected. Returns the write's ZedToken.
+ */
+export async function unshareFragment(
+  spicedb: SpiceDbClient,
+  fragmentId: string,
+  subjects: Subject[],
+): Promise<string | undefined> {
+  return spicedb.deleteRelationships(
+    subjects.flatMap((s) =>
+      [FRAGMENT_VIEWER_RELATION, "involves"].map((relation) => ({
+        resourceType: "memory_fragment",
+        resourceId: fragmentId,
+        relation,
+        subjectType: s.type,
+        subjectId: s.id,
+      })),
+    ),
+  );
+}
+
 /**
  * Remove all authorization relationships for a memory fragment.
  * Uses filter-based deletion — no need to know the group, sharer, or involved parties.
@@ -131,6 +299,74 @@ export async function deleteFragmentRelationships(
   });
 }
 
+/**
+ * Read a fragment's stored linkage: source group, sharer and involved subjects.
+ * `groupId` is undefined if the fragment has no relationships.
+ */
+export async function readFragmentRelationships(
+  spicedb: SpiceDbClient,
+  fragmentId: string,
+  zedToken?: string,
+): Promise<{ groupId?: string; sharedBy?: Subject; involves: Subject[]; viewers: Subject[] }> {
+  const tuples = await spicedb.readRelationships({
+    resourceType: "memory_fragment",
+    resourceId: fragmentId,
+    consistency: tokenConsistency(zedToken),
+  });
+  const asSubject = (t: RelationshipTuple): Subject => ({
+    type: t.subjectType as Subject["type"],
+    id: t.subjectId,
+  });
+  const sharedBy = tuples.find((t) => t.relation === "shared_by");
+  return {
+    groupId: tuples.find((t) => t.relation === "source_group")?.subjectId,
+    sharedBy: sharedBy ? asSubject(sharedBy) : undefined,
+    involves: tuples.filter((t) => t.relation === "involves").map(asSubject),
+    viewers: tuples.filter((t) => t.relation === FRAGMENT_VIEWER_RELATION).map(asSubject),
+  };
+}
+
+/**
+ * Read the tuples of `relations` on the given fragments with one read per
+ * relation, filtered by resource type and joined here, instead of one read
+ * per fragment.
+ */
+export async function readFragmentRelations(
+  spicedb: SpiceDbClient,
+  fragmentIds: Iterable<string>,
+  relations: string[],
+  zedToken?: string,
+): Promise<RelationshipTuple[]> {
+  const wanted = new Set(fragmentIds);
+  if (wanted.size === 0) {
+    return [];
+  }
+  const consistency = tokenConsistency(zedToken);
+  const tuples = await Promise.all(
+    relations.map((relation) => spicedb.readRelationships({ resourceType: "memory_fragment", relation, consistency })),
+  );
+  return tuples.flat().filter((t) => wanted.has(t.resourceId));
+}
+
+/**
+ * Check if a subject can view a memory fragment.
+ */
+export async function canViewFragment(
+  spicedb: SpiceDbClient,
+  subject: Subject,
+  fragmentId: string,
+  zedToken?: string,
+): Promise<boolean> {
+  return spicedb.checkPermission({
+    resourceType: "memory_fragment",
+    resourceId: fragmentId,
+    permission: "view",
+    subjectType: subject.type,
+    subjectId: subject.id,
+    consistency: tokenConsistency(zedToken),
+  });
+}
+
 /**
  * Check if a subject has delete permission on a memory fragment.
  */
@@ -150,6 +386,45 @@ export async function canDeleteFragment(
   });
 }
 
+/**
+ * Check if a subject can share (or unshare) a memory fragment.
+ * Only the subject who stored it has share permission.
+ */
+export async function canShareFragment(
+  spicedb: SpiceDbClient,
+  subject: Subject,
+  fragmentId: string,
+  zedToken?: string,
+): Promise<boolean> {
+  return spicedb.checkPermission({
+    resourceType: "memory_fragment",
+    resourceId: fragmentId,
+    permission: "share",
+    subjectType: subject.type,
+    subjectId: subject.id,
+    consistency: tokenConsistency(zedToken),
+  });
+}
+
+/**
+ * Check if a subject can read a group's memories (the "access" permission).
+ */
+export async function canAccessGroup(
+  spicedb: SpiceDbClient,
+  subject: Subject,
+  groupId: string,
+  zedToken?: string,
+): Promise<boolean> {
+  return spicedb.checkPermission({
+    resourceType: "group",
+    resourceId: groupId,
+    permission: "access",
+    subjectType: subject.type,
+    subjectId: subject.id,
+    consistency: tokenConsistency(zedToken),
+  });
+}
+
 /**
  * Check if a subject has write (contribute) permission on a group.
  * Used to gate writes to non-session groups — prevents unauthorized memory injection.
@@ -159,6 +434,7 @@ export async function canWriteToGroup(
   subject: Subject,
   groupId: string,
   zedToken?: string,
+  context: WriteContext = {},
 ): Promise<boolean> {
   return spicedb.checkPermission({
     resourceType: "group",
@@ -167,25 +443,281 @@ export async function canWriteToGroup(
     subjectType: subject.type,
     subjectId: subject.id,
     consistency: tokenConsistency(zedToken),
+    // Without a channel, channel-restricted grants evaluate as conditional (denied)
+    ...(context.channel ? { context: { channel: context.channel } } : {}),
+  });
+}
+
+/**
+ * Check if a subject can manage a group (owner or admin).
+ */
+export async function canManageGroup(
+  spicedb: SpiceDbClient,
+  subject: Subject,
+  groupId: string,
+  zedToken?: string,
+): Promise<boolean> {
+  return spicedb.checkPermission({
+    resourceType: "group",
+    resourceId: groupId,
+    permission: "manage",
+    subjectType: subject.type,
+    subjectId: subject.id,
+    consistency: tokenConsistency(zedToken),
   });
 }
 
 /**
- * Ensure a subject is registered as a member of a group.
- * Idempotent (uses TOUCH operation).
+ * Ensure a subject holds a role in a group (default: contributor).
+ * Idempotent (uses TOUCH operation); other roles the subject holds are kept.
  */
 export async function ensureGroupMembership(
   spicedb: SpiceDbClient,
   groupId: string,
   member: Subject,
+  role: GroupRole = "contributor",
+  conditions: GrantConditions = {},
+): Promise<string | undefined> {
+  return spicedb.writeRelationships(roleGrantTuples(groupId, member, role, conditions));
+}
+
+/**
+ * Give a subject `role` in a group only if it holds no role there yet.
+ * Unlike ensureGroupMembership, an existing grant is left untouched — its
+ * channel caveat and expiration are kept, and an owner or admin doesn't
+ * gain a second role. Returns undefined when nothing was written.
+ */
+export async function enrollGroupMember(
+  spicedb: SpiceDbClient,
+  groupId: string,
+  member: Subject,
+  role: GroupRole = "contributor",
 ): Promise<string | undefined> {
+  const existing = await spicedb.readRelationships({
+    resourceType: "group",
+    resourceId: groupId,
+    subjectType: member.type,
+    subjectId: member.id,
+    consistency: { mode: "full" },
+  });
+  if (existing.some((t) => GROUP_MEMBERSHIP_RELATIONS.includes(t.relation))) {
+    return undefined;
+  }
+  return ensureGroupMembership(spicedb, groupId, member, role);
+}
+
+/**
+ * Give a subject exactly one role in a group: the role is written first,
+ * then any other role (or legacy member) tuples of the subject are removed.
+ * Rewriting a role without conditions makes an earlier conditional grant
+ * permanent.
+ */
+export async function setGroupRole(
+  spicedb: SpiceDbClient,
+  groupId: string,
+  member: Subject,
+  role: GroupRole,
+  conditions: GrantConditions = {},
+): Promise<string | undefined> {
+  const granted = roleGrantTuples(groupId, member, role, conditions);
+  const token = await spicedb.writeRelationships(granted);
+  const existing = await spicedb.readRelationships({
+    resourceType: "group",
+    resourceId: groupId,
+    subjectType: member.type,
+    subjectId: member.id,
+    consistency: tokenConsistency(token),
+  });
+  const kept = new Set(granted.map((t) => t.relation));
+  const stale = existing.filter(
+    (t) => !kept.has(t.relation) && GROUP_MEMBERSHIP_RELATIONS.includes(t.relation),
+  );
+  if (stale.length > 0) {
+    await spicedb.deleteRelationships(stale);
+  }
+  return token;
+}
+
+/**
+ * Rewrite legacy `group#member` tuples to role relations. `roleFor` picks
+ * the role per group; with `dryRun` nothing is written. Returns the tuples
+ * that were (or would be) migrated.
+ */
+export async function migrateLegacyMembers(
+  spicedb: SpiceDbClient,
+  roleFor: (groupId: string) => GroupRole,
+  options: { dryRun?: boolean } = {},
+): Promise<{ tuple: RelationshipTuple; role: GroupRole }[]> {
+  const legacy = await spicedb.readRelationships({
+    resourceType: "group",
+    relation: LEGACY_MEMBER_RELATION,
+  });
+  const migrations = legacy.map((tuple) => ({ tuple, role: roleFor(tuple.resourceId) }));
+  if (options.dryRun || migrations.length === 0) return migrations;
+
+  // Write the roles before deleting the legacy tuples so access never lapses.
+  // Batched to stay under SpiceDB's per-request update limit.
+  for (let i = 0; i < migrations.length; i += MIGRATION_BATCH_SIZE) {
+    const batch = migrations.slice(i, i + MIGRATION_BATCH_SIZE);
+    await spicedb.writeRelationships(batch.map(({ tuple, role }) => ({ ...tuple, relation: role })));
+    await spicedb.deleteRelationships(batch.map(({ tuple }) => tuple));
+  }
+  return migrations;
+}
+
+// ============================================================================
+// Nested Groups
+// ============================================================================
+
+/** Groups attached directly under `groupId`. */
+export async function listChildGroups(
+  spicedb: SpiceDbClient,
+  groupId: string,
+  zedToken?: string,
+): Promise<string[]> {
+  const tuples = await spicedb.readRelationships({
+    resourceType: "group",
+    resourceId: groupId,
+    relation: CHILD_GROUP_RELATION,
+    consistency: tokenConsistency(zedToken),
+  });
+  return tuples.map((t) => t.subjectId);
+}
+
+/** Groups that `groupId` is directly attached to. */
+export async function listParentGroups(
+  spicedb: SpiceDbClient,
+  groupId: string,
+  zedToken?: string,
+): Promise<string[]> {
+  const tuples = await spicedb.readRelationships({
+    resourceType: "group",
+    relation: CHILD_GROUP_RELATION,
+    subjectType: "group",
+    subjectId: groupId,
+    consistency: tokenConsistency(zedToken),
+  });
+  return tuples.map((t) => t.resourceId);
+}
+
+/**
+ * Attach `childId` under `parentId`: everyone with `access` to the child can
+ * then read the parent (and, transitively, its parents). Throws if the
+ * parent is already below the child, since SpiceDB fails permission checks
+ * on cyclic hierarchies.
+ */
+export async function attachChildGroup(
+  spicedb: SpiceDbClient,
+  parentId: string,
+  childId: string,
+): Promise<string | undefined> {
+  if (parentId === childId) {
+    throw new Error(`cannot attach group "${childId}" to itself`);
+  }
+  const seen = new Set<string>([childId]);
+  const queue = [childId];
+  while (queue.length > 0) {
+    for (const descendant of await listChildGroups(spicedb, queue.shift()!)) {
+      if (descendant === parentId) {
+        throw new Error(`cannot attach "${childId}" under "${parentId}": "${parentId}" is already below it`);
+      }
+      if (!seen.has(descendant)) {
+        seen.add(descendant);
+        queue.push(descendant);
+      }
+    }
+  }
+
   return spicedb.writeRelationships([
     {
       resourceType: "group",
-      resourceId: groupId,
-      relation: "member",
-      subjectType: member.type,
-      subjectId: member.id,
+      resourceId: parentId,
+      relation: CHILD_GROUP_RELATION,
+      subjectType: "group",
+      subjectId: childId,
     },
   ]);
 }
+
+export async function detachChildGroup(
+  spicedb: SpiceDbClient,
+  parentId: string,
+  childId: string,
+): Promise<void> {
+  await spicedb.deleteRelationships([
+    {
+      resourceType: "group",
+      resourceId: parentId,
+      relation: CHILD_GROUP_RELATION,
+      subjectType: "group",
+      subjectId: childId,
+    },
+  ]);
+}
+
+// ============================================================================
+// Agent Ownership
+// ============================================================================
+
+function agentOwnerTuple(agentId: string, personId: string): RelationshipTuple {
+  return { resourceType: "agent", resourceId: agentId, relation: "owner", subjectType: "person", subjectId: personId };
+}
+
+/** Record `personId` as an owner of `agentId` (agent#owner). */
+export async function setAgentOwner(
+  spicedb: SpiceDbClient,
+  agentId: string,
+  personId: string,
+): Promise<string | undefined> {
+  return spicedb.writeRelationships([agentOwnerTuple(agentId, personId)]);
+}
+
+export async function removeAgentOwner(
+  spicedb: SpiceDbClient,
+  agentId: string,
+  personId: string,
+): Promise<void> {
+  await spicedb.deleteRelationships([agentOwnerTuple(agentId, personId)]);
+}
+
+/**
+ * Make person#delegate match agent#owner for the agents in `actAsOwner`:
+ * each such agent becomes a delegate of its owners (and so reads and writes
+ * in their groups). Delegate tuples of owners that were removed, or of
+ * `managed` agents not in `actAsOwner`, are deleted — agents another
+ * gateway manages keep theirs. Returns the tuples written and deleted.
+ */
+export async function syncAgentDelegation(
+  spicedb: SpiceDbClient,
+  actAsOwner: readonly string[],
+  managed: readonly string[] = [],
+): Promise<{ added: RelationshipTuple[]; removed: RelationshipTuple[]; token?: string }> {
+  const optedIn = new Set(actAsOwner);
+  const ours = new Set([...managed, ...actAsOwner]);
+  const owners = await spicedb.readRelationships({ resourceType: "agent", relation: "owner" });
+  const desired = owners
+    .filter((t) => optedIn.has(t.resourceId) && t.subjectType === "person")
+    .map((t): RelationshipTuple => ({
+      resourceType: "person",
+      resourceId: t.subjectId,
+      relation: AGENT_DELEGATE_RELATION,
+      subjectType: "agent",
+      subjectId: t.resourceId,
+    }));
+  const existing = await spicedb.readRelationships({ resourceType: "person", relation: AGENT_DELEGATE_RELATION });
+
+  const key = (t: RelationshipTuple) => `${t.resourceId}#${t.subjectId}`;
+  const existingKeys = new Set(existing.map(key));
+  const desiredKeys = new Set(desired.map(key));
+  const added = desired.filter((t) => !existingKeys.has(key(t)));
+  const removed = existing.filter((t) => ours.has(t.subjectId) && !desiredKeys.has(key(t)));
+
+  let token: string | undefined;
+  if (added.length > 0) {
+    token = await spicedb.writeRelationships(added);
+  }
+  if (removed.length > 0) {
+    await spicedb.deleteRelationships(removed);
+  }
+  return { added, removed, token };
+}
@@ -0,0 +1,296 @@
+import { describe, test, expect, vi } from "vitest";
+
+import { exportBackup, findNonEmptyGroups, parseBackup, restoreBackup, serializeBackup, type Backup } from "./backup.js";
+import type { GraphitiClient, GraphitiEpisode } from "./graphiti.js";
+import type { RelationshipTuple, SpiceDbClient } from "./spicedb.js";
+import type { FragmentOutbox } from "./outbox.js";
+
+function episode(uuid: string, groupId: string, createdAt = "2026-01-01T00:00:00Z"): GraphitiEpisode {
+  return { uuid, name: `name-${uuid}`, content: `content of ${uuid}`, source_description: "test", group_id: groupId, created_at: createdAt };
+}
+
+const TUPLES: RelationshipTuple[] = [
+  { resourceType: "group", resourceId: "main", relation: "owner", subjectType: "person", subjectId: "mark" },
+  { resourceType: "group", resourceId: "family", relation: "member", subjectType: "person", subjectId: "mom", expiresAt: new Date("2027-01-01T00:00:00Z") },
+  { resourceType: "memory_fragment", resourceId: "ep-1", relation: "source_group", subjectType: "group", subjectId: "main" },
+  { resourceType: "memory_fragment", resourceId: "ep-1", relation: "shared_by", subjectType: "agent", subjectId: "pi" },
+  { resourceType: "memory_fragment", resourceId: "ep-2", relation: "source_group", subjectType: "group", subjectId: "family" },
+  { resourceType: "agent", resourceId: "pi", relation: "owner", subjectType: "person", subjectId: "mark" },
+];
+
+function mockSpiceDb(tuples: RelationshipTuple[] = TUPLES) {
+  const readRelationships = vi.fn().mockImplementation(async (req: { resourceType: string }) =>
+    tuples.filter((t) => t.resourceType === req.resourceType),
+  );
+  // Streaming import creates only: any existing tuple fails the whole call
+  const existing = new Set<string>();
+  const key = (t: RelationshipTuple) => `${t.resourceType}:${t.resourceId}#${t.relation}@${t.subjectType}:${t.subjectId}`;
+  const bulkImportRelationships = vi.fn().mockImplementation(async (t: RelationshipTuple[]) => {
+    if (t.some((x) => existing.has(key(x)))) throw new Error("6 ALREADY_EXISTS");
+    for (const x of t) existing.add(key(x));
+    return t.length;
+  });
+  const touchRelationships = vi.fn().mockImplementation(async (t: RelationshipTuple[]) => {
+    for (const x of t) existing.add(key(x));
+    return t.length;
+  });
+  return {
+    spicedb: { readRelationships, bulkImportRelationships, touchRelationships } as unknown as SpiceDbClient,
+    touchRelationships,
+    existing: (t: RelationshipTuple) => existing.add(key(t)),
+  };
+}
+
+function mockOutbox() {
+  const outbox = { add: vi.fn(), remove: vi.fn(), markFailed: vi.fn() };
+  return { outbox: outbox as unknown as FragmentOutbox, ...outbox };
+}
+
+describe("exportBackup", () => {
+  test("archives every group's episodes and relationships", async () => {
+    const { spicedb } = mockSpiceDb();
+    const getEpisodes = vi.fn().mockImplementation(async (groupId: string) =>
+      groupId === "main" ? [episode("ep-1", "main")] : [episode("ep-2", "family")],
+    );
+    const graphiti = { getEpisodes } as unknown as GraphitiClient;
+
+    const { backup, truncated, skipped } = await exportBackup(graphiti, spicedb, {
+      maxEpisodesPerGroup: 1,
+      now: new Date("2026-10-01T00:00:00Z"),
+    });
+
+    expect(backup.header).toEqual({
+      kind: "header",
+      format: "openclaw-memory-graphiti-backup",
+      version: 1,
+      createdAt: "2026-10-01T00:00:00.000Z",
+      groups: ["family", "main"],
+    });
+    expect(backup.episodes.map((e) => e.uuid)).toEqual(["ep-2", "ep-1"]);
+    expect(backup.relationships).toHaveLength(6);
+    expect(backup.relationships).toContainEqual(expect.objectContaining({ subjectId: "mom", expiresAt: "2027-01-01T00:00:00.000Z" }));
+    expect(truncated).toEqual(["family", "main"]);
+    expect(skipped).toEqual([]);
+  });
+
+  test("limits a group-filtered export to those groups' tuples", async () => {
+    const { spicedb } = mockSpiceDb();
+    const getEpisodes = vi.fn().mockResolvedValue([episode("ep-1", "main")]);
+    const graphiti = { getEpisodes } as unknown as GraphitiClient;
+
+    const { backup } = await exportBackup(graphiti, spicedb, { groups: ["main"], maxEpisodesPerGroup: 100 });
+
+    expect(getEpisodes).toHaveBeenCalledTimes(1);
+    expect(getEpisodes).toHaveBeenCalledWith("main", 100);
+    expect(backup.relationships.map((r) => `${r.resourceType}:${r.resourceId}#${r.relation}`)).toEqual([
+      "group:main#owner",
+      "memory_fragment:ep-1#source_group",
+      "memory_fragment:ep-1#shared_by",
+    ]);
+  });
+
+  test("skips groups whose episodes can't be read", async () => {
+    const { spicedb } = mockSpiceDb();
+    const getEpisodes = vi.fn().mockImplementation(async (groupId: string) => {
+      if (groupId === "family") throw new Error("boom");
+      return [];
+    });
+
+    const { backup, skipped } = await exportBackup({ getEpisodes } as unknown as GraphitiClient, spicedb, {
+      maxEpisodesPerGroup: 10,
+    });
+
+    expect(skipped).toEqual([{ groupId: "family", error: "Error: boom" }]);
+    expect(backup.header.groups).toEqual(["main"]);
+  });
+});
+
+describe("serializeBackup / parseBackup", () => {
+  const backup: Backup = {
+    header: { kind: "header", format: "openclaw-memory-graphiti-backup", version: 1, createdAt: "2026-10-01T00:00:00.000Z", groups: ["main"] },
+    episodes: [{ kind: "episode", ...episode("ep-1", "main") }],
+    relationships: [{ kind: "relationship", resourceType: "group", resourceId: "main", relation: "owner", subjectType: "person", subjectId: "mark" }],
+  };
+
+  test("round-trips through JSONL, header first", () => {
+    const text = serializeBackup(backup);
+
+    expect(text.trim().split("\n")).toHaveLength(3);
+    expect(JSON.parse(text.split("\n")[0]).kind).toBe("header");
+    expect(parseBackup(text)).toEqual(backup);
+  });
+
+  test("rejects foreign, newer and malformed archives", () => {
+    expect(() => parseBackup('{"kind":"episode"}\n')).toThrow("not a openclaw-memory-graphiti-backup archive");
+    expect(() => parseBackup(JSON.stringify({ ...backup.header, version: 2 }))).toThrow("newer than supported version 1");
+    expect(() => parseBackup(serializeBackup(backup) + "{oops\n")).toThrow("line 4 is not valid JSON");
+  });
+});
+
+describe("restoreBackup", () => {
+  function archive(): Backup {
+    return {
+      header: { kind: "header", format: "openclaw-memory-graphiti-backup", version: 1, createdAt: "", groups: ["main"] },
+      episodes: [
+        { kind: "episode", ...episode("ep-2", "main", "2026-02-01T00:00:00Z") },
+        { kind: "episode", ...episode("ep-1", "main", "2026-01-01T00:00:00Z") },
+      ],
+      relationships: [
+        { kind: "relationship", resourceType: "group", resourceId: "main", relation: "owner", subjectType: "person", subjectId: "mark" },
+        { kind: "relationship", resourceType: "memory_fragment", resourceId: "ep-1", relation: "source_group", subjectType: "group", subjectId: "main" },
+        { kind: "relationship", resourceType: "memory_fragment", resourceId: "ep-1", relation: "shared_by", subjectType: "agent", subjectId: "pi" },
+        { kind: "relationship", resourceType: "memory_fragment", resourceId: "ep-1", relation: "viewer", subjectType: "person", subjectId: "mom", expiresAt: "2027-01-01T00:00:00.000Z" },
+        { kind: "relationship", resourceType: "memory_fragment", resourceId: "ep-2", relation: "source_group", subjectType: "group", subjectId: "main" },
+        { kind: "relationship", resourceType: "memory_fragment", resourceId: "ep-9", relation: "source_group", subjectType: "group", subjectId: "main" },
+      ],
+    };
+  }
+
+  test("re-ingests oldest first and remaps fragment tuples onto the new UUIDs", async () => {
+    const { spicedb, touchRelationships } = mockSpiceDb();
+    const addEpisode = vi.fn().mockImplementation(async (p: { name: string }) => ({
+      episode_uuid: "tmp-1",
+      resolvedUuid: Promise.resolve(p.name.replace("name-ep", "new")),
+    }));
+    const { outbox, add, remove } = mockOutbox();
+
+    const report = await restoreBackup({ graphiti: { addEpisode } as unknown as GraphitiClient, spicedb, outbox }, archive());
+
+    expect(addEpisode.mock.calls.map((c) => c[0].name)).toEqual(["name-ep-1", "name-ep-2"]);
+    expect(addEpisode).toHaveBeenCalledWith({
+      name: "name-ep-1",
+      episode_body: "content of ep-1",
+      source_description: "test",
+      group_id: "main",
+    });
+    expect(touchRelationships).toHaveBeenCalledTimes(2);
+    expect(touchRelationships.mock.calls[0][0]).toEqual([
+      { resourceType: "group", resourceId: "main", relation: "owner", subjectType: "person", subjectId: "mark" },
+    ]);
+    const fragments = touchRelationships.mock.calls[1][0] as RelationshipTuple[];
+    expect(fragments.map((t) => `${t.resourceId}#${t.relation}`)).toEqual([
+      "new-1#source_group",
+      "new-1#shared_by",
+      "new-1#viewer",
+      "new-2#source_group",
+    ]);
+    expect(fragments[2].expiresAt).toEqual(new Date("2027-01-01T00:00:00.000Z"));
+
+    // Each episode's archived tuples go through the outbox while it resolves
+    expect(add).toHaveBeenCalledTimes(2);
+    expect(add).toHaveBeenCalledWith({
+      episodeName: "name-ep-1",
+      groupId: "main",
+      relationships: [
+        { relation: "source_group", subjectType: "group", subjectId: "main" },
+        { relation: "shared_by", subjectType: "agent", subjectId: "pi" },
+        { relation: "viewer", subjectType: "person", subjectId: "mom", expiresAt: "2027-01-01T00:00:00.000Z" },
+      ],
+    });
+    expect(remove).toHaveBeenCalledWith(expect.objectContaining({ groupId: "main", episodeName: "name-ep-1" }));
+    expect(remove).toHaveBeenCalledWith(expect.objectContaining({ groupId: "main", episodeName: "name-ep-2" }));
+
+    expect(report.restored).toHaveLength(2);
+    expect(report.failed).toEqual([]);
+    expect(report.relationships).toBe(5);
+    expect(report.deferredFragmentTuples).toBe(0);
+    expect(report.droppedFragmentTuples).toBe(1);
+  });
+
+  test("queues same-name episodes under their own content hash", async () => {
+    const { spicedb } = mockSpiceDb();
+    const addEpisode = vi.fn().mockImplementation(async (p: { episode_body: string }) => ({
+      episode_uuid: "tmp-1",
+      contentHash: `hash:${p.episode_body}`,
+      resolvedUuid: Promise.resolve(`new:${p.episode_body}`),
+    }));
+    const backup = archive();
+    backup.episodes = backup.episodes.map((e) => ({ ...e, name: "notes.md" }));
+    const { outbox, add, remove } = mockOutbox();
+
+    await restoreBackup({ graphiti: { addEpisode } as unknown as GraphitiClient, spicedb, outbox }, backup);
+
+    expect(add.mock.calls.map((c) => [c[0].episodeName, c[0].contentHash])).toEqual([
+      ["notes.md", "hash:content of ep-1"],
+      ["notes.md", "hash:content of ep-2"],
+    ]);
+    expect(remove.mock.calls.map((c) => c[0].contentHash)).toEqual(["hash:content of ep-1", "hash:content of ep-2"]);
+  });
+
+  test("re-ingests the original body with the configured extraction instructions", async () => {
+    const { spicedb } = mockSpiceDb();
+    const addEpisode = vi.fn().mockResolvedValue({ episode_uuid: "tmp-1", resolvedUuid: Promise.resolve("new-1") });
+    const backup = archive();
+    backup.episodes = [
+      { ...backup.episodes[1], content: "[Extraction Instructions]\nold rules\n[End Instructions]\n\nMark likes tea" },
+    ];
+
+    await restoreBackup({ graphiti: { addEpisode } as unknown as GraphitiClient, spicedb, outbox: mockOutbox().outbox }, backup, {
+      customInstructions: "new rules",
+    });
+
+    expect(addEpisode).toHaveBeenCalledWith(
+      expect.objectContaining({ episode_body: "Mark likes tea", custom_extraction_instructions: "new rules" }),
+    );
+  });
+
+  test("restores into a SpiceDB that already holds some of the tuples", async () => {
+    const { spicedb, existing } = mockSpiceDb();
+    // Written by the gateway on its first start, and also in the archive
+    existing({ resourceType: "group", resourceId: "main", relation: "owner", subjectType: "person", subjectId: "mark" });
+    const addEpisode = vi.fn().mockImplementation(async (p: { name: string }) => ({
+      episode_uuid: "tmp-1",
+      resolvedUuid: Promise.resolve(p.name.replace("name-ep", "new")),
+    }));
+    const { outbox } = mockOutbox();
+
+    const report = await restoreBackup({ graphiti: { addEpisode } as unknown as GraphitiClient, spicedb, outbox }, archive());
+
+    expect(report.restored).toHaveLength(2);
+    expect(report.relationships).toBe(5);
+  });
+
+  test("leaves unresolved episodes in the outbox with all their tuples", async () => {
+    const { spicedb, touchRelationships } = mockSpiceDb();
+    const addEpisode = vi.fn().mockImplementation(async (p: { name: string }) => {
+      if (p.name === "name-ep-2") throw new Error("graphiti down");
+      const resolvedUuid = Promise.reject(new Error("timed out"));
+      resolvedUuid.catch(() => {});
+      return { episode_uuid: "tmp-1", resolvedUuid };
+    });
+    const { outbox, remove, markFailed } = mockOutbox();
+
+    const report = await restoreBackup({ graphiti: { addEpisode } as unknown as GraphitiClient, spicedb, outbox }, archive());
+
+    expect(report.restored).toEqual([]);
+    expect(report.failed.map((f) => `${f.name}: ${f.error}`)).toEqual([
+      "name-ep-2: Error: graphiti down",
+      "name-ep-1: Error: timed out",
+    ]);
+    expect(markFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ groupId: "main", episodeName: "name-ep-1" }),
+      expect.any(Error),
+    );
+    expect(remove).not.toHaveBeenCalled();
+    expect(touchRelationships.mock.calls[1][0]).toEqual([]);
+    // ep-1's viewer share waits in the outbox; ep-2 never reached Graphiti
+    expect(report.deferredFragmentTuples).toBe(3);
+    expect(report.droppedFragmentTuples).toBe(2);
+  });
+});
+
+describe("findNonEmptyGroups", () => {
+  test("lists archive groups that already hold episodes", async () => {
+    const getEpisodes = vi.fn().mockImplementation(async (groupId: string) => (groupId === "main" ? [episode("x", "main")] : []));
+    const backup = parseBackup(
+      serializeBackup({
+        header: { kind: "header", format: "openclaw-memory-graphiti-backup", version: 1, createdAt: "", groups: [] },
+        episodes: [{ kind: "episode", ...episode("ep-1", "main") }, { kind: "episode", ...episode("ep-2", "family") }],
+        relationships: [],
+      }),
+    );
+
+    expect(await findNonEmptyGroups({ getEpisodes } as unknown as GraphitiClient, backup)).toEqual(["main"]);
+    expect(getEpisodes).toHaveBeenCalledWith("family", 1);
+  });
+});
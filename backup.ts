@@ -0,0 +1,303 @@
+/**
+ * Backup and Restore
+ *
+ * A tenant's memories live in two stores — episodes in Graphiti's graph
+ * database, authorization tuples in SpiceDB — with no coordinated export.
+ * A backup is one JSONL archive: a versioned header, every episode of each
+ * group (via get_episodes), and every group, memory_fragment and agent
+ * relationship. Restoring re-ingests the episodes, waits for Graphiti to
+ * report their new UUIDs, rewrites the fragment tuples onto them and
+ * writes all tuples. person#delegate is not archived; the service
+ * rebuilds it from agent#owner on start.
+ *
+ * Used by `graphiti-mem export` and `graphiti-mem restore`.
+ */
+
+import { stripExtractionInstructions, type GraphitiClient, type GraphitiEpisode } from "./graphiti.js";
+import type { RelationshipTuple, SpiceDbClient } from "./spicedb.js";
+import { toFragmentTuple, type FragmentOutbox, type OutboxRef, type PendingFragmentTuple } from "./outbox.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const BACKUP_FORMAT = "openclaw-memory-graphiti-backup";
+export const BACKUP_VERSION = 1;
+
+/** SpiceDB object types whose relationships are archived. */
+export const BACKUP_RESOURCE_TYPES = ["group", "memory_fragment", "agent"] as const;
+
+export type BackupHeader = {
+  kind: "header";
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  groups: string[];
+};
+
+export type BackupEpisode = { kind: "episode" } & GraphitiEpisode;
+
+/** A relationship tuple; `expiresAt` is an ISO timestamp. */
+export type BackupRelationship = { kind: "relationship" } & Omit<RelationshipTuple, "expiresAt"> & {
+  expiresAt?: string;
+};
+
+export type BackupRecord = BackupHeader | BackupEpisode | BackupRelationship;
+
+export type Backup = {
+  header: BackupHeader;
+  episodes: BackupEpisode[];
+  relationships: BackupRelationship[];
+};
+
+export type ExportReport = {
+  backup: Backup;
+  /** Groups that returned `maxEpisodesPerGroup` episodes and may hold more */
+  truncated: string[];
+  /** Groups whose episodes couldn't be read — not in the archive */
+  skipped: { groupId: string; error: string }[];
+};
+
+export type RestoreReport = {
+  /** Episodes re-ingested and linked to their new UUID */
+  restored: { name: string; groupId: string; oldUuid: string; newUuid: string }[];
+  /** Episodes Graphiti didn't accept, or whose new UUID didn't resolve */
+  failed: { name: string; groupId: string; oldUuid: string; error: string }[];
+  /** Relationships written, fragment tuples included */
+  relationships: number;
+  /** Fragment tuples left in the outbox for episodes still resolving */
+  deferredFragmentTuples: number;
+  /** Fragment tuples whose episode isn't in the archive or couldn't be re-ingested */
+  droppedFragmentTuples: number;
+};
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+function toBackupRelationship(t: RelationshipTuple): BackupRelationship {
+  const { expiresAt, ...rest } = t;
+  return { kind: "relationship", ...rest, ...(expiresAt ? { expiresAt: expiresAt.toISOString() } : {}) };
+}
+
+function toRelationshipTuple(r: BackupRelationship): RelationshipTuple {
+  const { kind: _kind, expiresAt, ...rest } = r;
+  return { ...rest, ...(expiresAt ? { expiresAt: new Date(expiresAt) } : {}) };
+}
+
+/** One JSON record per line, header first. */
+export function serializeBackup(backup: Backup): string {
+  const records: BackupRecord[] = [backup.header, ...backup.episodes, ...backup.relationships];
+  return records.map((r) => JSON.stringify(r)).join("\n") + "\n";
+}
+
+/**
+ * Parse an archive. Throws if the header is missing, from another format,
+ * or from a newer version; unknown record kinds are skipped.
+ */
+export function parseBackup(text: string): Backup {
+  const lines = text.split("\n").filter((l) => l.trim());
+  const records = lines.map((line, i) => {
+    try {
+      return JSON.parse(line) as BackupRecord;
+    } catch {
+      throw new Error(`line ${i + 1} is not valid JSON`);
+    }
+  });
+  const header = records[0];
+  if (header?.kind !== "header" || header.format !== BACKUP_FORMAT) {
+    throw new Error(`not a ${BACKUP_FORMAT} archive`);
+  }
+  if (typeof header.version !== "number" || header.version > BACKUP_VERSION) {
+    throw new Error(`archive version ${header.version} is newer than supported version ${BACKUP_VERSION}`);
+  }
+  return {
+    header,
+    episodes: records.filter((r): r is BackupEpisode => r.kind === "episode"),
+    relationships: records.filter((r): r is BackupRelationship => r.kind === "relationship"),
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Read a backup: all groups known to SpiceDB (or just `groups`), their
+ * episodes, and the relationships that belong to them. With `groups`,
+ * agent ownership is left out since it isn't tied to a group.
+ */
+export async function exportBackup(
+  graphiti: GraphitiClient,
+  spicedb: SpiceDbClient,
+  options: { groups?: string[]; maxEpisodesPerGroup: number; now?: Date },
+): Promise<ExportReport> {
+  const [groupTuples, fragmentTuples, agentTuples] = await Promise.all(
+    BACKUP_RESOURCE_TYPES.map((resourceType) => spicedb.readRelationships({ resourceType })),
+  );
+
+  const sourceGroup = new Map<string, string>();
+  for (const t of fragmentTuples) {
+    if (t.relation === "source_group") sourceGroup.set(t.resourceId, t.subjectId);
+  }
+  const groups = options.groups?.length
+    ? [...new Set(options.groups)]
+    : [...new Set([...groupTuples.map((t) => t.resourceId), ...sourceGroup.values()])].sort();
+  const inScope = new Set(groups);
+
+  const episodes: BackupEpisode[] = [];
+  const truncated: string[] = [];
+  const skipped: ExportReport["skipped"] = [];
+  for (const groupId of groups) {
+    try {
+      const groupEpisodes = await graphiti.getEpisodes(groupId, options.maxEpisodesPerGroup);
+      if (groupEpisodes.length >= options.maxEpisodesPerGroup) truncated.push(groupId);
+      episodes.push(...groupEpisodes.map((ep) => ({ kind: "episode" as const, ...ep, group_id: ep.group_id || groupId })));
+    } catch (err) {
+      skipped.push({ groupId, error: String(err) });
+    }
+  }
+
+  const tuples = [
+    ...groupTuples.filter((t) => inScope.has(t.resourceId)),
+    ...fragmentTuples.filter((t) => inScope.has(sourceGroup.get(t.resourceId) ?? "")),
+    ...(options.groups?.length ? [] : agentTuples),
+  ];
+
+  return {
+    backup: {
+      header: {
+        kind: "header",
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: (options.now ?? new Date()).toISOString(),
+        groups: groups.filter((g) => !skipped.some((s) => s.groupId === g)),
+      },
+      episodes,
+      relationships: tuples.map(toBackupRelationship),
+    },
+    truncated,
+    skipped,
+  };
+}
+
+// ============================================================================
+// Restore
+// ============================================================================
+
+/** Groups in the archive that already hold episodes in Graphiti. */
+export async function findNonEmptyGroups(graphiti: GraphitiClient, backup: Backup): Promise<string[]> {
+  const groups = [...new Set(backup.episodes.map((ep) => ep.group_id))];
+  const nonEmpty: string[] = [];
+  for (const groupId of groups) {
+    if ((await graphiti.getEpisodes(groupId, 1)).length > 0) nonEmpty.push(groupId);
+  }
+  return nonEmpty;
+}
+
+/**
+ * Restore an archive: group and agent relationships first, then the
+ * episodes (oldest first), then the fragment tuples remapped onto the new
+ * episode UUIDs. Each episode's archived fragment tuples — viewers,
+ * expirations and caveats included — are recorded in the outbox while its
+ * UUID resolves, so one that doesn't resolve before this returns is still
+ * linked exactly as archived by the gateway service later.
+ *
+ * Episodes are re-ingested with `customInstructions` in place of the
+ * instructions their archived content was stored with.
+ */
+export async function restoreBackup(
+  deps: { graphiti: GraphitiClient; spicedb: SpiceDbClient; outbox: FragmentOutbox },
+  backup: Backup,
+  options: { customInstructions?: string; onProgress?: (message: string) => void } = {},
+): Promise<RestoreReport> {
+  const { graphiti, spicedb, outbox } = deps;
+  const progress = options.onProgress ?? (() => {});
+  const report: RestoreReport = {
+    restored: [],
+    failed: [],
+    relationships: 0,
+    deferredFragmentTuples: 0,
+    droppedFragmentTuples: 0,
+  };
+
+  const tuples = backup.relationships.map(toRelationshipTuple);
+  const baseTuples = tuples.filter((t) => t.resourceType !== "memory_fragment");
+
+  // Groups first, so restored memories are never briefly unreadable. TOUCH
+  // rather than the streaming import: the target may already hold some of
+  // these tuples (the gateway's own memberships, or a --force restore), and
+  // ImportBulkRelationships rejects the whole stream if any exists.
+  report.relationships += await spicedb.touchRelationships(baseTuples);
+  progress(`Restored ${baseTuples.length} group and agent relationships`);
+
+  const fragmentTuples = new Map<string, PendingFragmentTuple[]>();
+  for (const r of backup.relationships) {
+    if (r.resourceType !== "memory_fragment") continue;
+    const { kind: _kind, resourceType: _type, resourceId, ...tuple } = r;
+    fragmentTuples.set(resourceId, [...(fragmentTuples.get(resourceId) ?? []), tuple]);
+  }
+
+  const episodes = [...backup.episodes].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const pending: { episode: BackupEpisode; resolvedUuid: Promise<string>; ref?: OutboxRef }[] = [];
+  for (const episode of episodes) {
+    let contentHash: string;
+    try {
+      const result = await graphiti.addEpisode({
+        name: episode.name,
+        episode_body: stripExtractionInstructions(episode.content),
+        source_description: episode.source_description,
+        group_id: episode.group_id,
+        custom_extraction_instructions: options.customInstructions,
+      });
+      pending.push({ episode, resolvedUuid: result.resolvedUuid });
+      contentHash = result.contentHash;
+    } catch (err) {
+      report.failed.push({ name: episode.name, groupId: episode.group_id, oldUuid: episode.uuid, error: String(err) });
+      continue;
+    }
+    const relationships = fragmentTuples.get(episode.uuid);
+    if (!relationships) continue;
+    try {
+      const ref = { episodeName: episode.name, groupId: episode.group_id, contentHash };
+      await outbox.add({ ...ref, relationships });
+      pending[pending.length - 1].ref = ref;
+    } catch (err) {
+      progress(`Warning: could not record outbox entry for ${episode.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  progress(`Re-ingested ${pending.length} of ${episodes.length} episodes; resolving new UUIDs...`);
+
+  const uuidMap = new Map<string, string>();
+  const deferred = new Set<string>();
+  const settled = await Promise.allSettled(pending.map((p) => p.resolvedUuid));
+  for (let i = 0; i < settled.length; i++) {
+    const { episode, ref } = pending[i];
+    const outcome = settled[i];
+    if (outcome.status === "fulfilled") {
+      uuidMap.set(episode.uuid, outcome.value);
+      report.restored.push({ name: episode.name, groupId: episode.group_id, oldUuid: episode.uuid, newUuid: outcome.value });
+    } else {
+      report.failed.push({ name: episode.name, groupId: episode.group_id, oldUuid: episode.uuid, error: String(outcome.reason) });
+      if (ref) {
+        deferred.add(episode.uuid);
+        await outbox.markFailed(ref, outcome.reason);
+      }
+    }
+  }
+
+  const remapped: RelationshipTuple[] = [];
+  for (const [oldUuid, relationships] of fragmentTuples) {
+    const newUuid = uuidMap.get(oldUuid);
+    if (newUuid) remapped.push(...relationships.map((t) => toFragmentTuple(newUuid, t)));
+    else if (deferred.has(oldUuid)) report.deferredFragmentTuples += relationships.length;
+    else report.droppedFragmentTuples += relationships.length;
+  }
+  report.relationships += await spicedb.touchRelationships(remapped);
+  for (const p of pending) {
+    if (p.ref && uuidMap.has(p.episode.uuid)) await outbox.remove(p.ref);
+  }
+  progress(`Restored ${remapped.length} memory fragment relationships`);
+
+  return report;
+}
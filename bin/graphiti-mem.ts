@@ -19,6 +19,7 @@ import { graphitiMemoryConfigSchema } from "../config.js";
 import { GraphitiClient } from "../graphiti.js";
 import { SpiceDbClient } from "../spicedb.js";
 import { registerCommands } from "../cli.js";
+import { FragmentOutbox } from "../outbox.js";
 
 // ============================================================================
 // Config loading
@@ -137,6 +138,7 @@ registerCommands(program, {
   cfg,
   currentSubject,
   getLastWriteToken: () => undefined,
+  outbox: new FragmentOutbox(),
 });
 
 await program.parseAsync(process.argv);
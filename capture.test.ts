@@ -0,0 +1,123 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  CaptureMarks,
+  capturableMessages,
+  formatCaptureBody,
+  selectCaptureMessages,
+  type CaptureMark,
+} from "./capture.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "capture-test-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const transcript = [
+  { role: "system", content: "You are a helpful assistant" },
+  { role: "user", content: "I prefer dark mode for all editors" },
+  { role: "assistant", content: "Got it, dark mode it is." },
+  { role: "user", content: "ok" },
+  { role: "user", content: "My sister Anna lives in Lisbon" },
+  { role: "assistant", content: [{ type: "text", text: "Noted, Anna lives in Lisbon." }] },
+];
+
+function markAt(index: number): CaptureMark {
+  const message = capturableMessages(transcript).find((m) => m.index === index)!;
+  return { index, hash: message.hash, updatedAt: new Date().toISOString() };
+}
+
+describe("capturableMessages", () => {
+  test("keeps user/assistant text with its original index", () => {
+    const messages = capturableMessages(transcript);
+    expect(messages.map((m) => m.index)).toEqual([1, 2, 4, 5]);
+    expect(messages[3]).toMatchObject({ role: "assistant", text: "Noted, Anna lives in Lisbon." });
+  });
+});
+
+describe("selectCaptureMessages", () => {
+  test("takes the last maxMessages when there is no mark", () => {
+    const { fresh, overlap } = selectCaptureMessages(transcript, undefined, { maxMessages: 3, overlap: 0 });
+    expect(fresh.map((m) => m.index)).toEqual([2, 4, 5]);
+    expect(overlap).toEqual([]);
+  });
+
+  test("only returns messages after the mark", () => {
+    const { fresh } = selectCaptureMessages(transcript, markAt(2), { maxMessages: 10, overlap: 0 });
+    expect(fresh.map((m) => m.index)).toEqual([4, 5]);
+  });
+
+  test("returns nothing when the mark is the last message", () => {
+    const { fresh } = selectCaptureMessages(transcript, markAt(5), { maxMessages: 10, overlap: 2 });
+    expect(fresh).toEqual([]);
+  });
+
+  test("finds the marked message by hash when earlier history was trimmed", () => {
+    const trimmed = transcript.slice(2);
+    const { fresh } = selectCaptureMessages(trimmed, markAt(2), { maxMessages: 10, overlap: 0 });
+    expect(fresh.map((m) => m.text)).toEqual(["My sister Anna lives in Lisbon", "Noted, Anna lives in Lisbon."]);
+  });
+
+  test("falls back to the last maxMessages when the marked message is gone", () => {
+    const mark = { index: 3, hash: "0000000000000000", updatedAt: new Date().toISOString() };
+    const { fresh } = selectCaptureMessages(transcript, mark, { maxMessages: 2, overlap: 0 });
+    expect(fresh.map((m) => m.index)).toEqual([4, 5]);
+  });
+
+  test("prepends overlap messages and labels them in the episode body", () => {
+    const selection = selectCaptureMessages(transcript, markAt(2), { maxMessages: 10, overlap: 1 });
+
+    expect(selection.overlap.map((m) => m.index)).toEqual([2]);
+    expect(formatCaptureBody(selection)).toBe(
+      [
+        "Earlier context (already captured):",
+        "Assistant: Got it, dark mode it is.",
+        "New messages:",
+        "User: My sister Anna lives in Lisbon",
+        "Assistant: Noted, Anna lives in Lisbon.",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("CaptureMarks", () => {
+  test("persists marks and reads them back in a new instance", async () => {
+    const path = join(dir, "nested", "capture-marks.json");
+    await new CaptureMarks(path).set("sess-1", { index: 4, hash: "abc" });
+
+    const reloaded = await new CaptureMarks(path).get("sess-1");
+    expect(reloaded).toMatchObject({ index: 4, hash: "abc" });
+    expect(JSON.parse(readFileSync(path, "utf-8"))["sess-1"].index).toBe(4);
+  });
+
+  test("drops malformed and stale marks on load", async () => {
+    const path = join(dir, "capture-marks.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        stale: { index: 1, hash: "a", updatedAt: "2020-01-01T00:00:00Z" },
+        broken: { hash: "b" },
+        fresh: { index: 2, hash: "c", updatedAt: new Date().toISOString() },
+      }),
+    );
+
+    const marks = new CaptureMarks(path);
+    expect(await marks.get("stale")).toBeUndefined();
+    expect(await marks.get("broken")).toBeUndefined();
+    expect(await marks.get("fresh")).toMatchObject({ index: 2 });
+  });
+
+  test("starts empty when the file is unreadable", async () => {
+    const path = join(dir, "capture-marks.json");
+    writeFileSync(path, "{not json");
+    expect(await new CaptureMarks(path).get("sess-1")).toBeUndefined();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Incremental Auto-Capture
+ *
+ * agent_end receives the whole session transcript on every turn. A
+ * per-session high-water mark records the last message already sent to
+ * Graphiti, so each capture only sends the turns after it. Marks are kept in
+ * <plugin state dir>/capture-marks.json so a gateway restart does not
+ * re-capture the session from the start. If a session's mark is missing
+ * (expired, or the file was lost) but its group already holds captured
+ * episodes, the mark restarts at the latest message instead of re-sending
+ * the last maxCaptureMessages.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+import { pluginStateDir } from "./outbox.js";
+import { extractMessageText } from "./recall-query.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CaptureMark = {
+  /** Index of the last captured message in the session's message list */
+  index: number;
+  /** Content hash of that message — finds it again if the list shifted */
+  hash: string;
+  updatedAt: string;
+};
+
+export type CaptureMessage = {
+  /** Position in the agent_end message list */
+  index: number;
+  role: "user" | "assistant";
+  text: string;
+  hash: string;
+};
+
+export type CaptureSelection = {
+  /** Already-captured messages repeated for context (captureOverlap) */
+  overlap: CaptureMessage[];
+  /** Messages after the high-water mark */
+  fresh: CaptureMessage[];
+};
+
+/** Messages shorter than this carry nothing worth extracting. */
+const MIN_CAPTURE_CHARS = 5;
+/** Marks of sessions idle for longer than this are dropped. */
+const MARK_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+/** Name prefix of auto-captured episodes. */
+export const CAPTURE_EPISODE_PREFIX = "auto_capture_";
+/** Latest episodes of a session group checked for an earlier capture. */
+export const CAPTURE_HISTORY_WINDOW = 50;
+
+export function defaultCaptureMarksPath(): string {
+  return join(pluginStateDir(), "capture-marks.json");
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/** User/assistant messages worth capturing, skipping injected context. */
+export function capturableMessages(messages: unknown[]): CaptureMessage[] {
+  const result: CaptureMessage[] = [];
+  messages.forEach((msg, index) => {
+    if (!msg || typeof msg !== "object") return;
+    const role = (msg as Record<string, unknown>).role;
+    if (role !== "user" && role !== "assistant") return;
+
+    const text = extractMessageText(msg);
+    if (text.length < MIN_CAPTURE_CHARS) return;
+    if (text.includes("<relevant-memories>")) return;
+
+    const hash = createHash("sha256").update(`${role}\n${text}`).digest("hex").slice(0, 16);
+    result.push({ index, role, text, hash });
+  });
+  return result;
+}
+
+/**
+ * Locate the marked message: at its recorded index if unchanged, else the
+ * last message with the same hash at or before that index (history may have
+ * been trimmed). Returns -1 if the message is gone, e.g. after compaction.
+ */
+function findMark(messages: CaptureMessage[], mark: CaptureMark): number {
+  const exact = messages.findIndex((m) => m.index === mark.index && m.hash === mark.hash);
+  if (exact >= 0) return exact;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].index <= mark.index && messages[i].hash === mark.hash) return i;
+  }
+  return -1;
+}
+
+/**
+ * Pick the messages to capture: everything after the high-water mark (at
+ * most `maxMessages`, most recent kept), preceded by up to `overlap`
+ * already-captured messages for context. Without a mark, or if the marked
+ * message can no longer be found, the last `maxMessages` are taken.
+ */
+export function selectCaptureMessages(
+  messages: unknown[],
+  mark: CaptureMark | undefined,
+  options: { maxMessages: number; overlap: number },
+): CaptureSelection {
+  const all = capturableMessages(messages);
+  const start = mark ? findMark(all, mark) + 1 : 0;
+
+  const fresh = all.slice(start).slice(-options.maxMessages);
+  if (fresh.length === 0) {
+    return { overlap: [], fresh };
+  }
+  const freshStart = all.indexOf(fresh[0]);
+  const overlap = options.overlap > 0 ? all.slice(Math.max(0, freshStart - options.overlap), freshStart) : [];
+  return { overlap, fresh };
+}
+
+/** Episode body for a capture; overlap lines are labelled as context. */
+export function formatCaptureBody(selection: CaptureSelection): string {
+  const line = (m: CaptureMessage) => `${m.role === "user" ? "User" : "Assistant"}: ${m.text}`;
+  if (selection.overlap.length === 0) {
+    return selection.fresh.map(line).join("\n");
+  }
+  return [
+    "Earlier context (already captured):",
+    ...selection.overlap.map(line),
+    "New messages:",
+    ...selection.fresh.map(line),
+  ].join("\n");
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export class CaptureMarks {
+  private marks = new Map<string, CaptureMark>();
+  private loading: Promise<void> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string = defaultCaptureMarksPath()) {}
+
+  async get(sessionKey: string): Promise<CaptureMark | undefined> {
+    await this.load();
+    return this.marks.get(sessionKey);
+  }
+
+  /** Advance the session's mark to `message` and persist. */
+  async set(sessionKey: string, message: Pick<CaptureMessage, "index" | "hash">): Promise<void> {
+    await this.load();
+    this.marks.set(sessionKey, {
+      index: message.index,
+      hash: message.hash,
+      updatedAt: new Date().toISOString(),
+    });
+    await this.persist();
+  }
+
+  /** Read marks from disk once; stale and malformed entries are skipped. */
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      let raw: Record<string, unknown> = {};
+      try {
+        raw = JSON.parse(await readFile(this.filePath, "utf-8")) as Record<string, unknown>;
+      } catch {
+        // No marks yet (or unreadable) — start fresh
+      }
+      const cutoff = Date.now() - MARK_MAX_AGE_MS;
+      for (const [key, value] of Object.entries(raw ?? {})) {
+        const mark = value as CaptureMark;
+        if (
+          typeof mark?.index !== "number" ||
+          typeof mark.hash !== "string" ||
+          !(new Date(mark.updatedAt).getTime() >= cutoff)
+        ) {
+          continue;
+        }
+        this.marks.set(key, mark);
+      }
+    })();
+    return this.loading;
+  }
+
+  /** Rewrite the file atomically, dropping stale marks; writes are serialized. */
+  private persist(): Promise<void> {
+    this.persisting = this.persisting.catch(() => {}).then(async () => {
+      const cutoff = Date.now() - MARK_MAX_AGE_MS;
+      for (const [key, mark] of this.marks) {
+        if (new Date(mark.updatedAt).getTime() < cutoff) this.marks.delete(key);
+      }
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tmpPath, `${JSON.stringify(Object.fromEntries(this.marks), null, 2)}\n`, "utf-8");
+      await rename(tmpPath, this.filePath);
+    });
+    return this.persisting;
+  }
+}
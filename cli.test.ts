@@ -57,6 +57,7 @@ function createMockContext(): CliContext {
     },
     currentSubject: { type: "agent", id: "test-agent" },
     getLastWriteToken: () => undefined,
+    outbox: {} as CliContext["outbox"],
   };
 }
 
@@ -65,7 +66,7 @@ function createMockContext(): CliContext {
 // ============================================================================
 
 describe("registerCommands", () => {
-  test("registers all 10 subcommands on the passed-in command", () => {
+  test("registers all 29 subcommands on the passed-in command", () => {
     const { program, commands } = createMockProgram();
     const ctx = createMockContext();
 
@@ -81,7 +82,24 @@ describe("registerCommands", () => {
     expect(commands).toContain("fact");
     expect(commands).toContain("clear-graph");
     expect(commands).toContain("import");
-    expect(commands).toHaveLength(10);
+    expect(commands).toContain("promote");
+    expect(commands).toContain("gc-sessions");
+    expect(commands).toContain("migrate-roles");
+    expect(commands).toContain("attach-group");
+    expect(commands).toContain("detach-group");
+    expect(commands).toContain("agent-owner");
+    expect(commands).toContain("share");
+    expect(commands).toContain("unshare");
+    expect(commands).toContain("group");
+    for (const sub of ["create", "delete", "members", "remove-member", "rename"]) {
+      expect(commands).toContain(sub);
+    }
+    expect(commands).toContain("explain");
+    expect(commands).toContain("access-report");
+    expect(commands).toContain("export");
+    expect(commands).toContain("restore");
+    expect(commands).toContain("reconcile");
+    expect(commands).toHaveLength(29);
   });
 
   test("registers action handlers for all subcommands", () => {
@@ -100,6 +118,22 @@ describe("registerCommands", () => {
     expect(typeof actions["fact"]).toBe("function");
     expect(typeof actions["clear-graph"]).toBe("function");
     expect(typeof actions["import"]).toBe("function");
+    expect(typeof actions["promote"]).toBe("function");
+    expect(typeof actions["gc-sessions"]).toBe("function");
+    expect(typeof actions["migrate-roles"]).toBe("function");
+    expect(typeof actions["attach-group"]).toBe("function");
+    expect(typeof actions["detach-group"]).toBe("function");
+    expect(typeof actions["agent-owner"]).toBe("function");
+    expect(typeof actions["share"]).toBe("function");
+    expect(typeof actions["unshare"]).toBe("function");
+    expect(typeof actions["explain"]).toBe("function");
+    expect(typeof actions["access-report"]).toBe("function");
+    expect(typeof actions["export"]).toBe("function");
+    expect(typeof actions["restore"]).toBe("function");
+    expect(typeof actions["reconcile"]).toBe("function");
+    for (const sub of ["create", "delete", "members", "remove-member", "rename"]) {
+      expect(typeof actions[sub]).toBe("function");
+    }
   });
 
   test("getLastWriteToken returning undefined is accepted", () => {
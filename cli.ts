@@ -6,20 +6,48 @@
 
 import type { Command } from "commander";
 import { readFileSync } from "node:fs";
-import { readdir, readFile, stat } from "node:fs/promises";
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
 import { join, dirname, basename, resolve } from "node:path";
 import { homedir } from "node:os";
 import { fileURLToPath } from "node:url";
 
 import type { GraphitiClient } from "./graphiti.js";
 import type { SpiceDbClient, RelationshipTuple } from "./spicedb.js";
-import type { GraphitiMemoryConfig } from "./config.js";
+import { managedAgentIds, type GraphitiMemoryConfig } from "./config.js";
 import {
   lookupAuthorizedGroups,
-  ensureGroupMembership,
+  lookupViewableFragments,
+  lookupFragmentSourceGroups,
+  writeFragmentRelationships,
+  setGroupRole,
+  migrateLegacyMembers,
+  attachChildGroup,
+  detachChildGroup,
+  setAgentOwner,
+  removeAgentOwner,
+  syncAgentDelegation,
+  isGroupRole,
+  GROUP_ROLES,
   type Subject,
 } from "./authorization.js";
 import { searchAuthorizedMemories } from "./search.js";
+import type { FragmentOutbox } from "./outbox.js";
+import { Redactor, describeRedaction, hasFindings } from "./redaction.js";
+import { formatPromoteOutcomes, promoteMemories, type PendingPromotion } from "./promote.js";
+import { EmptySessionGroups, gcSessionGroups, hasRetentionLimit, type RetentionPolicy } from "./retention.js";
+import { formatSubject, parseShareSubjects, shareMemory, unshareMemory } from "./share.js";
+import {
+  createGroup,
+  deleteGroup,
+  describeGrant,
+  listGroupMembers,
+  removeGroupMember,
+  renameGroup,
+} from "./groups.js";
+import { explainPermission, formatExplanation, parseObjectRef } from "./explain.js";
+import { buildAccessReport, formatAccessReport, isReportableType } from "./access-report.js";
+import { exportBackup, findNonEmptyGroups, parseBackup, restoreBackup, serializeBackup } from "./backup.js";
+import { FIX_ACTIONS, applyFixes, conflictingFixes, formatReconcileReport, scanDrift, type FixAction } from "./reconcile.js";
 
 // ============================================================================
 // Session helpers (duplicated from index.ts to avoid circular imports)
@@ -32,6 +60,10 @@ function sessionGroupId(sessionId: string): string {
   return `session-${sanitized}`;
 }
 
+function isSessionGroup(groupId: string): boolean {
+  return groupId.startsWith("session-");
+}
+
 // ============================================================================
 // CLI Context
 // ============================================================================
@@ -42,6 +74,8 @@ export type CliContext = {
   cfg: GraphitiMemoryConfig;
   currentSubject: Subject;
   getLastWriteToken: () => string | undefined;
+  /** Pending fragment writes — shared with the gateway service via the state dir */
+  outbox: FragmentOutbox;
 };
 
 // ============================================================================
@@ -49,7 +83,7 @@ export type CliContext = {
 // ============================================================================
 
 export function registerCommands(cmd: Command, ctx: CliContext): void {
-  const { graphiti, spicedb, cfg, currentSubject, getLastWriteToken } = ctx;
+  const { graphiti, spicedb, cfg, currentSubject, getLastWriteToken, outbox } = ctx;
 
   cmd
     .command("search")
@@ -58,7 +92,16 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
     .option("--limit <n>", "Max results", "10")
     .option("--scope <scope>", "Memory scope: session, long-term, all", "all")
     .action(async (query: string, opts: { limit: string; scope: string }) => {
-      const authorizedGroups = await lookupAuthorizedGroups(spicedb, currentSubject, getLastWriteToken());
+      let authorizedGroups = await lookupAuthorizedGroups(spicedb, currentSubject, getLastWriteToken());
+      let viewableFragments: Set<string> | undefined;
+      if (cfg.authorization.mode === "fragment") {
+        const [fragments, fragmentGroups] = await Promise.all([
+          lookupViewableFragments(spicedb, currentSubject, getLastWriteToken()),
+          lookupFragmentSourceGroups(spicedb, currentSubject, getLastWriteToken()),
+        ]);
+        authorizedGroups = [...new Set([...authorizedGroups, ...fragmentGroups])];
+        viewableFragments = new Set(fragments);
+      }
       if (authorizedGroups.length === 0) {
         console.log("No accessible memory groups.");
         return;
@@ -69,6 +112,8 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
         query,
         groupIds: authorizedGroups,
         limit: parseInt(opts.limit),
+        ranking: cfg.ranking,
+        viewableFragments,
       });
 
       if (results.length === 0) {
@@ -131,19 +176,424 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
       }
     });
 
+  const group = cmd.command("group").description("Create, inspect, rename and delete groups");
+
+  group
+    .command("create")
+    .description("Create a group with an owner")
+    .argument("<group-id>", "Group ID")
+    .argument("<owner-id>", "Owner subject ID")
+    .option("--type <type>", "Owner subject type (agent|person)", "person")
+    .action(async (groupId: string, ownerId: string, opts: { type: string }) => {
+      const ownerType = opts.type === "agent" ? "agent" : "person";
+      try {
+        await createGroup(spicedb, groupId, { type: ownerType, id: ownerId });
+      } catch (err) {
+        console.error(`Not created: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      console.log(`Created group:${groupId} owned by ${ownerType}:${ownerId}`);
+    });
+
+  group
+    .command("members")
+    .description("List a group's members and their roles")
+    .argument("<group-id>", "Group ID")
+    .action(async (groupId: string) => {
+      const members = await listGroupMembers(spicedb, groupId, getLastWriteToken());
+      if (members.length === 0) {
+        console.log(`Group "${groupId}" has no members.`);
+        return;
+      }
+      console.log(`Members of group:${groupId}:`);
+      for (const m of members) {
+        console.log(`  - ${formatSubject(m.subject)} (${describeGrant(m)})`);
+      }
+    });
+
+  group
+    .command("remove-member")
+    .description("Remove every role a subject holds in a group")
+    .argument("<group-id>", "Group ID")
+    .argument("<subject-id>", "Subject ID")
+    .option("--type <type>", "Subject type (agent|person)", "person")
+    .action(async (groupId: string, subjectId: string, opts: { type: string }) => {
+      const subjectType = opts.type === "agent" ? "agent" : "person";
+      try {
+        const removed = await removeGroupMember(spicedb, groupId, { type: subjectType, id: subjectId });
+        if (!removed) {
+          console.log(`${subjectType}:${subjectId} holds no role in group:${groupId}.`);
+          return;
+        }
+      } catch (err) {
+        console.error(`Not removed: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      console.log(`Removed ${subjectType}:${subjectId} from group:${groupId}`);
+    });
+
+  group
+    .command("rename")
+    .description("Move a group's roles, links and fragment tuples to a new ID (groups without episodes only)")
+    .argument("<group-id>", "Current group ID")
+    .argument("<new-group-id>", "New group ID")
+    .action(async (groupId: string, newGroupId: string) => {
+      try {
+        const moved = await renameGroup(graphiti, spicedb, groupId, newGroupId);
+        console.log(`Renamed group:${groupId} to group:${newGroupId} (${moved} relationships moved)`);
+      } catch (err) {
+        console.error(`Not renamed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    });
+
+  group
+    .command("delete")
+    .description("Delete a group: its graph data and all its SpiceDB relationships (destructive!)")
+    .argument("<group-id>", "Group ID")
+    .option("--confirm", "Required safety flag to confirm the operation", false)
+    .action(async (groupId: string, opts: { confirm: boolean }) => {
+      if (!opts.confirm) {
+        const members = await listGroupMembers(spicedb, groupId);
+        console.log("This is a destructive operation. Pass --confirm to proceed.");
+        console.log(`Would clear the graph data of group "${groupId}" and remove its ${members.length} members, memory fragments and group links.`);
+        return;
+      }
+      try {
+        const { fragments } = await deleteGroup(graphiti, spicedb, groupId);
+        console.log(`Deleted group:${groupId} (${fragments} memory fragments).`);
+      } catch (err) {
+        console.error(`Failed to delete group: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    });
+
   cmd
     .command("add-member")
-    .description("Add a subject to a group")
+    .description("Add a subject to a group, or change its role")
     .argument("<group-id>", "Group ID")
     .argument("<subject-id>", "Subject ID")
     .option("--type <type>", "Subject type (agent|person)", "person")
-    .action(async (groupId: string, subjectId: string, opts: { type: string }) => {
+    .option("--role <role>", `Role (${GROUP_ROLES.join("|")})`, "contributor")
+    .option("--until <date>", "Grant expires at this date/time (ISO 8601, e.g. 2026-11-02)")
+    .option("--channel <channels>", "Contributor writes only from these channels (comma-separated)")
+    .action(async (
+      groupId: string,
+      subjectId: string,
+      opts: { type: string; role: string; until?: string; channel?: string },
+    ) => {
+      if (!isGroupRole(opts.role)) {
+        console.error(`Unknown role "${opts.role}". Use one of: ${GROUP_ROLES.join(", ")}`);
+        return;
+      }
+      let expiresAt: Date | undefined;
+      if (opts.until !== undefined) {
+        expiresAt = new Date(opts.until);
+        if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+          console.error(`--until must be a future date, got "${opts.until}"`);
+          return;
+        }
+      }
+      const channels = opts.channel?.split(",").map((c) => c.trim()).filter(Boolean);
       const subjectType = opts.type === "agent" ? "agent" : "person";
-      await ensureGroupMembership(spicedb, groupId, {
-        type: subjectType as "agent" | "person",
-        id: subjectId,
+      // Replaces any other role the subject held, so this also demotes — and
+      // re-running without --until/--channel makes the grant unconditional
+      try {
+        await setGroupRole(spicedb, groupId, {
+          type: subjectType as "agent" | "person",
+          id: subjectId,
+        }, opts.role, { expiresAt, channels });
+      } catch (err) {
+        console.error(`Not added: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      const conditions = [
+        ...(expiresAt ? [`until ${expiresAt.toISOString()}`] : []),
+        ...(channels?.length ? [`writes only from ${channels.join(", ")}`] : []),
+      ];
+      console.log(
+        `Added ${subjectType}:${subjectId} to group:${groupId} as ${opts.role}` +
+          (conditions.length > 0 ? ` (${conditions.join("; ")})` : ""),
+      );
+    });
+
+  cmd
+    .command("migrate-roles")
+    .description("Rewrite legacy group#member relationships to role relations")
+    .option("--role <role>", "Role for members of non-session groups", "contributor")
+    .option("--dry-run", "List the relationships without rewriting them", false)
+    .action(async (opts: { role: string; dryRun: boolean }) => {
+      const role = opts.role;
+      if (!isGroupRole(role)) {
+        console.error(`Unknown role "${role}". Use one of: ${GROUP_ROLES.join(", ")}`);
+        return;
+      }
+      // Session groups are only ever joined by the agent that created them
+      const migrations = await migrateLegacyMembers(
+        spicedb,
+        (groupId) => (isSessionGroup(groupId) ? "owner" : role),
+        { dryRun: opts.dryRun },
+      );
+      if (migrations.length === 0) {
+        console.log("No legacy member relationships found.");
+        return;
+      }
+      for (const { tuple, role: newRole } of migrations) {
+        console.log(`  group:${tuple.resourceId} ${tuple.subjectType}:${tuple.subjectId} member → ${newRole}`);
+      }
+      console.log(
+        opts.dryRun
+          ? `\n[dry-run] ${migrations.length} relationships would be migrated.`
+          : `Migrated ${migrations.length} relationships.`,
+      );
+    });
+
+  cmd
+    .command("attach-group")
+    .description("Attach a child group under a parent; the child's members can then read the parent")
+    .argument("<parent-id>", "Parent group ID")
+    .argument("<child-id>", "Child group ID")
+    .action(async (parentId: string, childId: string) => {
+      // Session groups are garbage-collected and never part of a hierarchy
+      if (isSessionGroup(parentId) || isSessionGroup(childId)) {
+        console.error("Session groups can't be nested.");
+        return;
+      }
+      try {
+        await attachChildGroup(spicedb, parentId, childId);
+      } catch (err) {
+        console.error(`Not attached: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      console.log(`Attached group:${childId} under group:${parentId}`);
+    });
+
+  cmd
+    .command("detach-group")
+    .description("Detach a child group from its parent")
+    .argument("<parent-id>", "Parent group ID")
+    .argument("<child-id>", "Child group ID")
+    .action(async (parentId: string, childId: string) => {
+      await detachChildGroup(spicedb, parentId, childId);
+      console.log(`Detached group:${childId} from group:${parentId}`);
+    });
+
+  cmd
+    .command("agent-owner")
+    .description("Set (or remove) the person who owns an agent")
+    .argument("<agent-id>", "SpiceDB agent ID")
+    .argument("<person-id>", "SpiceDB person ID")
+    .option("--remove", "Remove the ownership instead", false)
+    .action(async (agentId: string, personId: string, opts: { remove: boolean }) => {
+      if (opts.remove) {
+        await removeAgentOwner(spicedb, agentId, personId);
+      } else {
+        await setAgentOwner(spicedb, agentId, personId);
+      }
+      // Delegation follows ownership for opted-in agents
+      await syncAgentDelegation(spicedb, cfg.subjects.actAsOwner, managedAgentIds(cfg));
+
+      if (opts.remove) {
+        console.log(`Removed person:${personId} as owner of agent:${agentId}`);
+      } else if (cfg.subjects.actAsOwner.includes(agentId)) {
+        console.log(`Set person:${personId} as owner of agent:${agentId}; it can now act within their groups`);
+      } else {
+        console.log(`Set person:${personId} as owner of agent:${agentId}`);
+        console.log(`(Add "${agentId}" to subjects.actAsOwner to let it act within person:${personId}'s groups.)`);
+      }
+    });
+
+  cmd
+    .command("share")
+    .description("Share one stored memory with further persons or agents")
+    .argument("<id>", "Episode ID (episode:UUID)")
+    .argument("<subject-ids...>", "Person IDs; prefix agents with agent:")
+    .option("--until <date>", "Share expires at this date/time (ISO 8601, e.g. 2026-11-02)")
+    .action(async (id: string, subjectIds: string[], opts: { until?: string }) => {
+      const subjects = parseShareSubjects(subjectIds);
+      if (typeof subjects === "string") {
+        console.error(subjects);
+        return;
+      }
+      let expiresAt: Date | undefined;
+      if (opts.until !== undefined) {
+        expiresAt = new Date(opts.until);
+        if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+          console.error(`--until must be a future date, got "${opts.until}"`);
+          return;
+        }
+      }
+      const outcome = await shareMemory(spicedb, {
+        id,
+        subjects,
+        subject: currentSubject,
+        zedToken: getLastWriteToken(),
+        expiresAt,
       });
-      console.log(`Added ${subjectType}:${subjectId} to group:${groupId}`);
+      if (outcome.action !== "shared") {
+        console.error(`Not shared: ${outcome.message}`);
+        return;
+      }
+      console.log(
+        `Shared episode:${outcome.fragmentId} with ${subjects.map(formatSubject).join(", ")}` +
+          (expiresAt ? ` (until ${expiresAt.toISOString()})` : ""),
+      );
+    });
+
+  cmd
+    .command("unshare")
+    .description("Stop sharing one stored memory with persons or agents")
+    .argument("<id>", "Episode ID (episode:UUID)")
+    .argument("<subject-ids...>", "Person IDs; prefix agents with agent:")
+    .action(async (id: string, subjectIds: string[]) => {
+      const subjects = parseShareSubjects(subjectIds);
+      if (typeof subjects === "string") {
+        console.error(subjects);
+        return;
+      }
+      const outcome = await unshareMemory(spicedb, {
+        id,
+        subjects,
+        subject: currentSubject,
+        zedToken: getLastWriteToken(),
+      });
+      if (outcome.action !== "unshared") {
+        console.error(`Not unshared: ${outcome.message}`);
+        return;
+      }
+      console.log(`Stopped sharing episode:${outcome.fragmentId} with ${subjects.map(formatSubject).join(", ")}`);
+    });
+
+  cmd
+    .command("explain")
+    .description("Explain why a subject has or lacks a permission (SpiceDB check with debug tracing)")
+    .argument("<subject>", "Subject, e.g. agent:pi or person:mark (bare IDs are persons)")
+    .argument("<permission>", "Permission or relation, e.g. access, contribute, manage, view, delete")
+    .argument("<resource>", "Resource, e.g. group:main or episode:UUID (bare IDs are groups)")
+    .option("--channel <channel>", "Channel to evaluate channel-restricted grants against")
+    .option("--json", "Print the explanation as JSON", false)
+    .action(async (
+      subjectArg: string,
+      permission: string,
+      resourceArg: string,
+      opts: { channel?: string; json: boolean },
+    ) => {
+      const subject = parseObjectRef(subjectArg, "person");
+      const resource = parseObjectRef(resourceArg, "group");
+      if (!subject || !resource) {
+        console.error(`Use "type:id" for the subject and resource, got "${subjectArg}" and "${resourceArg}"`);
+        return;
+      }
+      const token = getLastWriteToken();
+      const explanation = await explainPermission(spicedb, subject, permission, resource, {
+        ...(opts.channel ? { context: { channel: opts.channel } } : {}),
+        ...(token ? { consistency: { mode: "at_least_as_fresh" as const, token } } : {}),
+      });
+      if (opts.json) {
+        console.log(JSON.stringify(explanation, null, 2));
+        return;
+      }
+      for (const line of formatExplanation(explanation)) {
+        console.log(line);
+      }
+    });
+
+  cmd
+    .command("access-report")
+    .description("List every person and agent that can read, write or delete a group or memory")
+    .argument("<resource>", "group:ID, episode:UUID or memory_fragment:UUID (bare IDs are groups)")
+    .option("--json", "Print the report as JSON", false)
+    .action(async (resourceArg: string, opts: { json: boolean }) => {
+      const resource = parseObjectRef(resourceArg, "group");
+      if (!resource || !isReportableType(resource.type)) {
+        console.error(`Use group:ID, episode:UUID or memory_fragment:UUID, got "${resourceArg}"`);
+        return;
+      }
+      const report = await buildAccessReport(spicedb, { type: resource.type, id: resource.id }, getLastWriteToken());
+      if (opts.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+      for (const line of formatAccessReport(report)) {
+        console.log(line);
+      }
+    });
+
+  cmd
+    .command("export")
+    .description("Back up episodes and authorization relationships to a JSONL archive")
+    .argument("<file>", "Archive to write")
+    .option("--group <id...>", "Only these groups (default: every group known to SpiceDB)")
+    .option("--last <n>", "Maximum episodes exported per group", "10000")
+    .action(async (file: string, opts: { group?: string[]; last: string }) => {
+      const maxEpisodesPerGroup = parseInt(opts.last);
+      const { backup, truncated, skipped } = await exportBackup(graphiti, spicedb, {
+        groups: opts.group,
+        maxEpisodesPerGroup,
+      });
+      await writeFile(resolve(file), serializeBackup(backup), "utf-8");
+
+      console.log(
+        `Exported ${backup.episodes.length} episodes and ${backup.relationships.length} relationships ` +
+          `from ${backup.header.groups.length} group(s) to ${resolve(file)}.`,
+      );
+      for (const groupId of truncated) {
+        console.warn(`  Warning: ${groupId} returned ${maxEpisodesPerGroup} episodes and may hold more — raise --last`);
+      }
+      for (const { groupId, error } of skipped) {
+        console.error(`  Skipped ${groupId}: ${error}`);
+      }
+    });
+
+  cmd
+    .command("restore")
+    .description("Restore episodes and authorization relationships from an export archive")
+    .argument("<file>", "Archive written by export")
+    .option("--dry-run", "Show what the archive contains without restoring", false)
+    .option("--force", "Restore into groups that already hold episodes (creates duplicates)", false)
+    .action(async (file: string, opts: { dryRun: boolean; force: boolean }) => {
+      let backup: ReturnType<typeof parseBackup>;
+      try {
+        backup = parseBackup(await readFile(resolve(file), "utf-8"));
+      } catch (err) {
+        console.error(`Cannot read archive ${file}: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      console.log(
+        `Archive from ${backup.header.createdAt}: ${backup.episodes.length} episodes, ` +
+          `${backup.relationships.length} relationships, groups: ${backup.header.groups.join(", ") || "(none)"}`,
+      );
+      if (opts.dryRun) {
+        console.log("\n[dry-run] Nothing restored.");
+        return;
+      }
+
+      const nonEmpty = await findNonEmptyGroups(graphiti, backup);
+      if (nonEmpty.length > 0 && !opts.force) {
+        console.error(`Groups already hold episodes: ${nonEmpty.join(", ")}. Restoring would duplicate them; use --force to restore anyway.`);
+        return;
+      }
+
+      const report = await restoreBackup({ graphiti, spicedb, outbox }, backup, {
+        customInstructions: cfg.customInstructions,
+        onProgress: (message) => console.log(`  ${message}`),
+      });
+      for (const r of report.restored) {
+        console.log(`  ${r.name} → ${r.newUuid}`);
+      }
+      for (const f of report.failed) {
+        console.warn(`  Warning: could not restore ${f.name} (${f.groupId}): ${f.error}`);
+      }
+      if (report.deferredFragmentTuples > 0) {
+        console.log(`  ${report.deferredFragmentTuples} fragment relationship(s) left in the outbox until their episode resolves`);
+      }
+      if (report.droppedFragmentTuples > 0) {
+        console.warn(`  ${report.droppedFragmentTuples} fragment relationship(s) skipped — their episode was not restored`);
+      }
+      if (outbox.size > 0) {
+        console.log(`\n${outbox.size} fragment write(s) pending in outbox (${outbox.filePath}).`);
+      }
+      console.log(
+        `\nRestored ${report.restored.length}/${backup.episodes.length} episodes and ${report.relationships} relationships.`,
+      );
     });
 
   cmd
@@ -173,8 +623,20 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
 
       const authorizedUuids = new Set(relationships.map((r) => r.resourceId));
 
-      // 3. Identify orphans — episodes without a source_group relationship
-      const orphans = episodes.filter((ep) => !authorizedUuids.has(ep.uuid));
+      // 3. Identify orphans — episodes without a source_group relationship.
+      //    Episodes with a pending outbox entry are still awaiting their
+      //    SpiceDB write and are not orphans.
+      await outbox.load();
+      const pending = episodes.filter(
+        (ep) => !authorizedUuids.has(ep.uuid) && outbox.has(opts.group, ep.name),
+      );
+      const orphans = episodes.filter(
+        (ep) => !authorizedUuids.has(ep.uuid) && !outbox.has(opts.group, ep.name),
+      );
+
+      if (pending.length > 0) {
+        console.log(`Skipping ${pending.length} episodes with pending SpiceDB writes (outbox).`);
+      }
 
       if (orphans.length === 0) {
         console.log(
@@ -207,6 +669,102 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
       }
     });
 
+  cmd
+    .command("reconcile")
+    .description("Report (and optionally fix) drift between SpiceDB fragment tuples and Graphiti episodes")
+    .option("--group <id...>", "Only these groups (default: every group the current subject can access)")
+    .option("--page-size <n>", "Relationships per SpiceDB page and first episode window per group", "500")
+    .option("--max-episodes <n>", "Maximum episodes scanned per group", "10000")
+    .option("--grace-minutes <n>", "Don't call episodes younger than this orphaned", "10")
+    .option("--fix <actions...>", `Fixes to apply: ${Object.keys(FIX_ACTIONS).join(", ")}`)
+    .option("--json", "Print the report as JSON", false)
+    .action(async (opts: {
+      group?: string[];
+      pageSize: string;
+      maxEpisodes: string;
+      graceMinutes: string;
+      fix?: string[];
+      json: boolean;
+    }) => {
+      const fixes = opts.fix ?? [];
+      const unknown = fixes.filter((f) => !(f in FIX_ACTIONS));
+      if (unknown.length > 0) {
+        console.error(`Unknown fix ${unknown.join(", ")}. Use one of: ${Object.keys(FIX_ACTIONS).join(", ")}`);
+        return;
+      }
+      if (conflictingFixes(fixes as FixAction[])) {
+        console.error("Choose one fix per category (relink-orphans or delete-orphans, not both).");
+        return;
+      }
+
+      const zedToken = getLastWriteToken();
+      const groups = opts.group?.length ? opts.group : await lookupAuthorizedGroups(spicedb, currentSubject, zedToken);
+      const report = await scanDrift({ graphiti, spicedb, outbox }, groups, {
+        pageSize: parseInt(opts.pageSize),
+        maxEpisodesPerGroup: parseInt(opts.maxEpisodes),
+        graceMs: parseFloat(opts.graceMinutes) * 60 * 1000,
+        zedToken,
+      });
+      if (fixes.length > 0) {
+        report.fixes = await applyFixes({ graphiti, spicedb }, report, fixes as FixAction[], currentSubject);
+      }
+
+      if (opts.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+      for (const line of formatReconcileReport(report)) {
+        console.log(line);
+      }
+    });
+
+  cmd
+    .command("gc-sessions")
+    .description("Delete expired session groups (graph data and SpiceDB tuples) per the retention policy")
+    .option("--max-age-days <n>", "Override sessionRetention.maxAgeDays")
+    .option("--max-per-subject <n>", "Override sessionRetention.maxPerSubject")
+    .option("--dry-run", "List expired session groups without deleting", false)
+    .action(async (opts: { maxAgeDays?: string; maxPerSubject?: string; dryRun: boolean }) => {
+      const policy: RetentionPolicy = {
+        maxAgeDays: opts.maxAgeDays ? parseFloat(opts.maxAgeDays) : cfg.sessionRetention.maxAgeDays,
+        maxPerSubject: opts.maxPerSubject ? parseInt(opts.maxPerSubject) : cfg.sessionRetention.maxPerSubject,
+      };
+      if (!hasRetentionLimit(policy)) {
+        console.log("No retention limit configured. Set sessionRetention.maxAgeDays / maxPerSubject or pass --max-age-days / --max-per-subject.");
+        return;
+      }
+
+      // Groups with queued fragment writes and new groups whose first episode
+      // isn't processed yet are left alone
+      const report = await gcSessionGroups(graphiti, spicedb, policy, {
+        dryRun: opts.dryRun,
+        outbox,
+        emptyGroups: new EmptySessionGroups(),
+      });
+      for (const s of report.skipped) {
+        console.warn(`  Skipping ${s.groupId} (could not read episodes: ${s.error})`);
+      }
+      if (report.expired.length === 0) {
+        console.log(`Checked ${report.scanned} session groups. None expired.`);
+        return;
+      }
+
+      console.log(`Found ${report.expired.length} expired session groups (of ${report.scanned}):`);
+      for (const g of report.expired) {
+        const reason = g.reason === "max_age" ? "older than max age" : "over per-subject limit";
+        console.log(`  ${g.groupId} (last activity ${g.lastActivity ?? "never"}, ${reason}, members: ${g.members.join(", ")})`);
+      }
+
+      if (opts.dryRun) {
+        console.log(`\n[dry-run] Nothing deleted.`);
+        return;
+      }
+      for (const f of report.failed) {
+        console.error(`  Failed to delete ${f.groupId}: ${f.error}`);
+      }
+      console.log(`Deleted ${report.deleted.length} session groups.`);
+    });
+
   cmd
     .command("fact")
     .description("Get a specific fact (entity edge) by UUID")
@@ -248,6 +806,51 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
       }
     });
 
+  cmd
+    .command("promote")
+    .description("Copy session facts/episodes into a long-term group")
+    .argument("<ids...>", "Session fact or episode IDs (fact:UUID, episode:UUID)")
+    .option("--group <id>", "Long-term target group", cfg.graphiti.defaultGroupId)
+    .action(async (ids: string[], opts: { group: string }) => {
+      // Fragment writes are recorded in the outbox first, so episodes whose
+      // UUID doesn't resolve before the command exits are linked later by
+      // the gateway service
+      const pending: { resolvedUuid: Promise<string>; entry: PendingPromotion }[] = [];
+      const results = await promoteMemories(
+        {
+          graphiti,
+          spicedb,
+          redactor: new Redactor(cfg.redaction),
+          customInstructions: cfg.customInstructions,
+          queueFragmentWrite: async (resolvedUuid, entry) => {
+            pending.push({ resolvedUuid, entry });
+            await outbox.add(entry);
+          },
+        },
+        { ids, targetGroupId: opts.group, subject: currentSubject, zedToken: getLastWriteToken() },
+      );
+      console.log(formatPromoteOutcomes(results));
+
+      if (pending.length === 0) return;
+      console.log(`\nResolving ${pending.length} episode UUIDs (waiting for Graphiti processing)...`);
+      for (const { resolvedUuid, entry } of pending) {
+        try {
+          const realUuid = await resolvedUuid;
+          await writeFragmentRelationships(spicedb, {
+            fragmentId: realUuid,
+            groupId: entry.groupId,
+            sharedBy: entry.sharedBy,
+            involves: entry.involves,
+          });
+          await outbox.remove(entry);
+          console.log(`  ${entry.episodeName} → ${realUuid}`);
+        } catch (err) {
+          console.warn(`  Warning: could not link ${entry.episodeName} — left in outbox for retry`);
+          await outbox.markFailed(entry, err);
+        }
+      }
+    });
+
   cmd
     .command("import")
     .description("Import workspace markdown files (and optionally session transcripts) into Graphiti")
@@ -323,6 +926,9 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
         return;
       }
 
+      // PII/secret redaction per target group, as in memory_store
+      const redactor = new Redactor(cfg.redaction);
+
       // Two-phase import:
       //   Phase 1 — Graphiti ingestion: addEpisode for each file, collect results
       //   Phase 2 — SpiceDB bulk: single bulkImportRelationships call for all tuples
@@ -332,7 +938,28 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
 
       // Collect resolvedUuid promises during Phase 1 so we can await
       // real server-side UUIDs before writing SpiceDB relationships.
-      const pendingResolutions: { resolvedUuid: Promise<string>; groupId: string; name: string }[] = [];
+      // Each is also recorded in the outbox, so episodes whose UUID doesn't
+      // resolve before the command exits are linked later by the gateway service.
+      const pendingResolutions: {
+        resolvedUuid: Promise<string>;
+        contentHash: string;
+        groupId: string;
+        name: string;
+        episodeName: string;
+      }[] = [];
+      const queueResolution = async (pending: (typeof pendingResolutions)[number]) => {
+        pendingResolutions.push(pending);
+        try {
+          await outbox.add({
+            episodeName: pending.episodeName,
+            groupId: pending.groupId,
+            contentHash: pending.contentHash,
+            sharedBy: currentSubject,
+          });
+        } catch (err) {
+          console.warn(`  Warning: could not record outbox entry for ${pending.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      };
       const membershipGroups = new Set<string>();
 
       // Ensure agent is a member of the target workspace group
@@ -346,11 +973,21 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
         let imported = 0;
         for (const f of mdFiles) {
           const filePath = join(workspacePath, f);
-          const content = await readFile(filePath, "utf-8");
-          if (!content.trim()) {
+          const raw = await readFile(filePath, "utf-8");
+          if (!raw.trim()) {
             console.log(`  Skipping ${f} (empty)`);
             continue;
           }
+          // Workspace files are redacted line by line
+          const redaction = redactor.redact(targetGroup, raw.split("\n"));
+          if (hasFindings(redaction)) {
+            console.log(`  Redaction in ${f}: ${describeRedaction(redaction)}`);
+          }
+          const content = redaction.messages.join("\n");
+          if (!content.trim()) {
+            console.log(`  Skipping ${f} (nothing left to store after redaction)`);
+            continue;
+          }
           try {
             const result = await graphiti.addEpisode({
               name: f,
@@ -359,10 +996,12 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
               group_id: targetGroup,
               source: "text",
             });
-            pendingResolutions.push({
+            await queueResolution({
               resolvedUuid: result.resolvedUuid,
+              contentHash: result.contentHash,
               groupId: targetGroup,
               name: f,
+              episodeName: f,
             });
             console.log(`  Queued ${f} (${content.length} bytes) — resolving UUID in background`);
             imported++;
@@ -436,8 +1075,17 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
               continue;
             }
 
+            const redaction = redactor.redact(sessionGroup, conversationLines);
+            if (hasFindings(redaction)) {
+              console.log(`  Redaction in ${f}: ${describeRedaction(redaction)}`);
+            }
+            if (redaction.messages.length === 0) {
+              console.log(`  Skipping ${f} (nothing left to store after redaction)`);
+              continue;
+            }
+
             try {
-              const episodeBody = conversationLines.join("\n");
+              const episodeBody = redaction.messages.join("\n");
               const result = await graphiti.addEpisode({
                 name: `session_${sessionId}`,
                 episode_body: episodeBody,
@@ -446,10 +1094,12 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
                 source: "message",
               });
               membershipGroups.add(sessionGroup);
-              pendingResolutions.push({
+              await queueResolution({
                 resolvedUuid: result.resolvedUuid,
+                contentHash: result.contentHash,
                 groupId: sessionGroup,
                 name: f,
+                episodeName: `session_${sessionId}`,
               });
               console.log(`  Queued ${f} (${conversationLines.length} messages) — resolving UUID in background [group: ${sessionGroup}]`);
               sessionsImported++;
@@ -465,6 +1115,7 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
       // The background polls started during Phase 1 run concurrently,
       // so the total wait is max(processing time) not sum.
       const pendingTuples: RelationshipTuple[] = [];
+      const resolvedEntries: (typeof pendingResolutions)[number][] = [];
       if (pendingResolutions.length > 0) {
         console.log(`\nResolving ${pendingResolutions.length} episode UUIDs (waiting for Graphiti processing)...`);
         const results = await Promise.allSettled(
@@ -490,21 +1141,24 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
                 subjectId: currentSubject.id,
               },
             );
+            resolvedEntries.push(pendingResolutions[i]);
             console.log(`  ${pendingResolutions[i].name} → ${realUuid}`);
           } else {
-            console.warn(`  Warning: could not resolve UUID for ${pendingResolutions[i].name} — SpiceDB linkage skipped`);
+            console.warn(`  Warning: could not resolve UUID for ${pendingResolutions[i].name} — left in outbox for retry`);
+            await outbox.markFailed(pendingResolutions[i], resolution.reason);
           }
         }
       }
 
       // Phase 2: Bulk write all SpiceDB relationships
       if (pendingTuples.length > 0 || membershipGroups.size > 0) {
-        // Add group membership tuples for session groups
+        // Add group membership tuples: contributor for the workspace group,
+        // owner for session groups (as when a session creates its own group)
         for (const groupId of membershipGroups) {
           pendingTuples.push({
             resourceType: "group",
             resourceId: groupId,
-            relation: "member",
+            relation: isSessionGroup(groupId) ? "owner" : "contributor",
             subjectType: currentSubject.type,
             subjectId: currentSubject.id,
           });
@@ -514,12 +1168,19 @@ export function registerCommands(cmd: Command, ctx: CliContext): void {
         try {
           const count = await spicedb.bulkImportRelationships(pendingTuples);
           console.log(`SpiceDB: ${count} relationships written.`);
+          for (const entry of resolvedEntries) {
+            await outbox.remove(entry);
+          }
         } catch (err) {
           console.error(`SpiceDB bulk import failed: ${err instanceof Error ? err.message : String(err)}`);
-          console.error("Graphiti episodes were ingested but lack authorization. Re-run import or add relationships manually.");
+          console.error("Graphiti episodes were ingested but lack authorization. They remain in the outbox and will be linked when the gateway service next retries.");
         }
       }
 
+      if (outbox.size > 0) {
+        console.log(`\n${outbox.size} fragment write(s) pending in outbox (${outbox.filePath}).`);
+      }
+
       console.log("\nImport complete.")
     });
 }
@@ -2,7 +2,7 @@ import { describe, test, expect, afterEach } from "vitest";
 import { readFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
-import { graphitiMemoryConfigSchema } from "./config.js";
+import { graphitiMemoryConfigSchema, managedAgentIds } from "./config.js";
 
 describe("graphitiMemoryConfigSchema", () => {
   afterEach(() => {
@@ -211,6 +211,237 @@ describe("graphitiMemoryConfigSchema", () => {
     expect(config.graphiti.uuidPollIntervalMs).toBe(3000);
     expect(config.graphiti.uuidPollMaxAttempts).toBe(30);
   });
+
+  // Ranking config
+
+  test("applies default ranking config", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+    });
+
+    expect(config.ranking.recencyWeight).toBe(0.2);
+    expect(config.ranking.recencyHalfLifeDays).toBe(30);
+  });
+
+  test("accepts custom ranking config", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      ranking: { recencyWeight: 0.5, recencyHalfLifeDays: 7 },
+    });
+
+    expect(config.ranking.recencyWeight).toBe(0.5);
+    expect(config.ranking.recencyHalfLifeDays).toBe(7);
+  });
+
+  test("ignores out-of-range ranking values (uses defaults)", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      ranking: { recencyWeight: 1.5, recencyHalfLifeDays: 0 },
+    });
+
+    expect(config.ranking.recencyWeight).toBe(0.2);
+    expect(config.ranking.recencyHalfLifeDays).toBe(30);
+  });
+
+  test("defaults captureOverlap to 0 and accepts a custom value", () => {
+    expect(graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" } }).captureOverlap).toBe(0);
+    expect(
+      graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" }, captureOverlap: 2 }).captureOverlap,
+    ).toBe(2);
+  });
+
+  test("defaults autoPromote to disabled with minUses 2", () => {
+    const config = graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" } });
+    expect(config.autoPromote).toEqual({ enabled: false, minUses: 2, targetGroupId: undefined });
+  });
+
+  test("accepts custom autoPromote config and rejects unknown keys", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      autoPromote: { enabled: true, minUses: 3, targetGroupId: "family" },
+    });
+    expect(config.autoPromote).toEqual({ enabled: true, minUses: 3, targetGroupId: "family" });
+    expect(() =>
+      graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" }, autoPromote: { threshold: 2 } }),
+    ).toThrow("autoPromote config has unknown keys: threshold");
+  });
+
+  test("defaults sessionRetention to no limits with a daily interval", () => {
+    const config = graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" } });
+    expect(config.sessionRetention).toEqual({ maxAgeDays: undefined, maxPerSubject: undefined, intervalHours: 24 });
+  });
+
+  test("accepts sessionRetention limits and ignores invalid values", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      sessionRetention: { maxAgeDays: 14, maxPerSubject: 0, intervalHours: 6 },
+    });
+    expect(config.sessionRetention).toEqual({ maxAgeDays: 14, maxPerSubject: undefined, intervalHours: 6 });
+    expect(() =>
+      graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" }, sessionRetention: { maxAge: 14 } }),
+    ).toThrow("sessionRetention config has unknown keys: maxAge");
+  });
+
+  // Redaction config
+
+  test("applies default redaction config", () => {
+    const config = graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" } });
+    expect(config.redaction).toEqual({
+      enabled: true,
+      policy: "mask",
+      detectors: ["jwt", "api_key", "credit_card"],
+      patterns: {},
+      groups: {},
+    });
+  });
+
+  test("accepts custom redaction config", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      redaction: {
+        policy: "drop",
+        detectors: ["email", "phone"],
+        patterns: { employee_id: "EMP-\\d{6}" },
+        groups: { "session-*": "block" },
+      },
+    });
+    expect(config.redaction).toMatchObject({
+      policy: "drop",
+      detectors: ["email", "phone"],
+      patterns: { employee_id: "EMP-\\d{6}" },
+      groups: { "session-*": "block" },
+    });
+  });
+
+  test("rejects unknown detectors, bad regexes and bad policies", () => {
+    const parse = (redaction: unknown) =>
+      graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" }, redaction });
+
+    expect(() => parse({ detectors: ["ssn"] })).toThrow('unknown detector "ssn"');
+    expect(() => parse({ patterns: { broken: "(" } })).toThrow("redaction.patterns.broken is not a valid regular expression");
+    expect(() => parse({ groups: { main: "hide" } })).toThrow("redaction.groups.main must be one of: mask, drop, block");
+  });
+
+  // Recall budget config
+
+  test("applies default recall budget", () => {
+    const config = graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" } });
+    expect(config.recallBudget).toEqual({ unit: "chars", total: 2000, longTerm: undefined, session: undefined });
+  });
+
+  test("defaults the token budget when unit is tokens", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      recallBudget: { unit: "tokens", session: 100 },
+    });
+    expect(config.recallBudget).toMatchObject({ unit: "tokens", total: 500, session: 100 });
+  });
+
+  test("ignores non-positive recall budget values", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      recallBudget: { total: 0, longTerm: -5 },
+    });
+    expect(config.recallBudget.total).toBe(2000);
+    expect(config.recallBudget.longTerm).toBeUndefined();
+  });
+
+  test("rejects unknown recallBudget keys", () => {
+    expect(() =>
+      graphitiMemoryConfigSchema.parse({
+        spicedb: { token: "tok" },
+        recallBudget: { maxTokens: 100 },
+      }),
+    ).toThrow("recallBudget config has unknown keys: maxTokens");
+  });
+
+  // Authorization config
+
+  test("defaults authorization mode to group", () => {
+    const config = graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" } });
+    expect(config.authorization.mode).toBe("group");
+  });
+
+  test("accepts fragment authorization mode", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      authorization: { mode: "fragment" },
+    });
+    expect(config.authorization.mode).toBe("fragment");
+  });
+
+  test("authorization debug is off unless enabled", () => {
+    expect(graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" } }).authorization.debug).toBe(false);
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      authorization: { debug: true },
+    });
+    expect(config.authorization.debug).toBe(true);
+  });
+
+  // Subject resolution config
+
+  test("defaults subjects to empty mappings without templates", () => {
+    const config = graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" } });
+    expect(config.subjects).toEqual({
+      agents: {},
+      agentTemplate: undefined,
+      persons: {},
+      personTemplate: undefined,
+      actAsOwner: [],
+    });
+  });
+
+  test("accepts subject mappings and templates, resolving env vars in mapped IDs", () => {
+    process.env.TEST_AGENT_ID = "pi";
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "tok" },
+      subjects: {
+        agents: { main: "${TEST_AGENT_ID}" },
+        agentTemplate: "{agentId}",
+        persons: { "telegram:42": "mark" },
+        personTemplate: "{channel}-{senderId}",
+      },
+    });
+    expect(config.subjects.agents).toEqual({ main: "pi" });
+    expect(config.subjects.agentTemplate).toBe("{agentId}");
+    expect(config.subjects.persons).toEqual({ "telegram:42": "mark" });
+    expect(config.subjects.personTemplate).toBe("{channel}-{senderId}");
+  });
+
+  test("throws on non-string subject mapping values", () => {
+    expect(() =>
+      graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" }, subjects: { agents: { main: 1 } } }),
+    ).toThrow("subjects.agents.main must be a string");
+  });
+
+  test("accepts actAsOwner as a list of agent IDs", () => {
+    const config = graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" }, subjects: { actAsOwner: ["pi"] } });
+    expect(config.subjects.actAsOwner).toEqual(["pi"]);
+    expect(() =>
+      graphitiMemoryConfigSchema.parse({ spicedb: { token: "tok" }, subjects: { actAsOwner: "pi" } }),
+    ).toThrow("subjects.actAsOwner must be an array of strings");
+  });
+
+  test("throws on unknown ranking keys", () => {
+    expect(() => {
+      graphitiMemoryConfigSchema.parse({
+        spicedb: { token: "tok" },
+        ranking: { bogus: 1 },
+      });
+    }).toThrow("ranking config has unknown keys");
+  });
+});
+
+describe("managedAgentIds", () => {
+  test("lists the default agent, mapped agents and actAsOwner once each", () => {
+    const config = graphitiMemoryConfigSchema.parse({
+      spicedb: { token: "t" },
+      subjectId: "pi",
+      subjects: { agents: { main: "pi", helper: "bot" }, actAsOwner: ["bot", "mira"] },
+    });
+    expect(managedAgentIds(config)).toEqual(["pi", "bot", "mira"]);
+  });
 });
 
 // ============================================================================
@@ -1,3 +1,12 @@
+import {
+  BUILTIN_DETECTOR_NAMES,
+  DEFAULT_DETECTORS,
+  type BuiltinDetectorName,
+  type RedactionConfig,
+  type RedactionPolicy,
+} from "./redaction.js";
+import { DEFAULT_RECENCY_HALF_LIFE_DAYS, DEFAULT_RECENCY_WEIGHT } from "./search.js";
+
 export type GraphitiMemoryConfig = {
   spicedb: {
     endpoint: string;
@@ -10,12 +19,62 @@ export type GraphitiMemoryConfig = {
     uuidPollIntervalMs: number;
     uuidPollMaxAttempts: number;
   };
+  ranking: {
+    recencyWeight: number;
+    recencyHalfLifeDays: number;
+  };
+  authorization: {
+    mode: "group" | "fragment";
+    /** Attach a SpiceDB check trace to denied memory_store / memory_forget results */
+    debug: boolean;
+  };
+  /** Size budget for memories injected by auto-recall */
+  recallBudget: {
+    unit: "chars" | "tokens";
+    /** Budget for all injected memories */
+    total: number;
+    /** Optional cap on long-term memories (within total) */
+    longTerm?: number;
+    /** Optional cap on session memories (within total) */
+    session?: number;
+  };
+  /** PII/secret redaction applied before episodes reach Graphiti */
+  redaction: RedactionConfig;
   subjectType: "agent" | "person";
   subjectId: string;
+  subjects: {
+    /** OpenClaw agentId → SpiceDB agent ID */
+    agents: Record<string, string>;
+    /** Template for agent IDs not in `agents`, e.g. "{agentId}" */
+    agentTemplate?: string;
+    /** "<channel>:<senderId>" (or bare senderId) → SpiceDB person ID */
+    persons: Record<string, string>;
+    /** Template for channel users not in `persons`, e.g. "{channel}-{senderId}" */
+    personTemplate?: string;
+    /** SpiceDB agent IDs that may act within their owners' groups (agent#owner) */
+    actAsOwner: string[];
+  };
   autoCapture: boolean;
   autoRecall: boolean;
   customInstructions: string;
   maxCaptureMessages: number;
+  /** Already-captured messages repeated before new ones for context */
+  captureOverlap: number;
+  /** Promote session facts recalled repeatedly to long-term at session end */
+  autoPromote: {
+    enabled: boolean;
+    /** Times a fact must be recalled in the session before it is promoted */
+    minUses: number;
+    /** Long-term target group (default: graphiti.defaultGroupId) */
+    targetGroupId?: string;
+  };
+  /** Session group garbage collection; nothing expires unless a limit is set */
+  sessionRetention: {
+    maxAgeDays?: number;
+    maxPerSubject?: number;
+    /** How often the service runs session GC */
+    intervalHours: number;
+  };
 };
 
 const DEFAULT_SPICEDB_ENDPOINT = "localhost:50051";
@@ -24,8 +83,13 @@ const DEFAULT_GRAPHITI_ENDPOINT = "http://localhost:8000";
 const DEFAULT_GROUP_ID = "main";
 const DEFAULT_UUID_POLL_INTERVAL_MS = 3000;
 const DEFAULT_UUID_POLL_MAX_ATTEMPTS = 30;
+const DEFAULT_RECALL_BUDGET_CHARS = 2000;
+const DEFAULT_RECALL_BUDGET_TOKENS = 500;
 const DEFAULT_SUBJECT_TYPE = "agent";
 const DEFAULT_MAX_CAPTURE_MESSAGES = 10;
+const DEFAULT_CAPTURE_OVERLAP = 0;
+const DEFAULT_AUTO_PROMOTE_MIN_USES = 2;
+const DEFAULT_SESSION_GC_INTERVAL_HOURS = 24;
 
 const DEFAULT_CUSTOM_INSTRUCTIONS = `Extract key facts about:
 - Identity: names, roles, titles, contact info
@@ -46,6 +110,97 @@ function resolveEnvVars(value: string): string {
   });
 }
 
+function parseStringList(value: unknown, label: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new Error(`${label} must be an array of strings`);
+  }
+  return value.map((v: string) => resolveEnvVars(v));
+}
+
+function parseStringMap(value: unknown, label: string): Record<string, string> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${label} must be an object`);
+  }
+  const result: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof v !== "string") {
+      throw new Error(`${label}.${key} must be a string`);
+    }
+    result[key] = resolveEnvVars(v);
+  }
+  return result;
+}
+
+const REDACTION_POLICIES: RedactionPolicy[] = ["mask", "drop", "block"];
+
+function parseRedactionPolicy(value: unknown, label: string): RedactionPolicy {
+  if (!REDACTION_POLICIES.includes(value as RedactionPolicy)) {
+    throw new Error(`${label} must be one of: ${REDACTION_POLICIES.join(", ")}`);
+  }
+  return value as RedactionPolicy;
+}
+
+function parseRedaction(value: unknown): RedactionConfig {
+  const redaction = (value as Record<string, unknown>) ?? {};
+  assertAllowedKeys(redaction, ["enabled", "policy", "detectors", "patterns", "groups"], "redaction config");
+
+  let detectors = DEFAULT_DETECTORS;
+  if (redaction.detectors !== undefined) {
+    if (!Array.isArray(redaction.detectors)) {
+      throw new Error("redaction.detectors must be an array");
+    }
+    for (const name of redaction.detectors) {
+      if (!BUILTIN_DETECTOR_NAMES.includes(name as BuiltinDetectorName)) {
+        throw new Error(`redaction.detectors: unknown detector "${String(name)}" (known: ${BUILTIN_DETECTOR_NAMES.join(", ")})`);
+      }
+    }
+    detectors = redaction.detectors as BuiltinDetectorName[];
+  }
+
+  // Regexes are used verbatim — no ${ENV_VAR} interpolation
+  const patterns: Record<string, string> = {};
+  if (redaction.patterns !== undefined) {
+    if (typeof redaction.patterns !== "object" || redaction.patterns === null || Array.isArray(redaction.patterns)) {
+      throw new Error("redaction.patterns must be an object");
+    }
+    for (const [name, source] of Object.entries(redaction.patterns as Record<string, unknown>)) {
+      if (typeof source !== "string") {
+        throw new Error(`redaction.patterns.${name} must be a string`);
+      }
+      try {
+        new RegExp(source, "g");
+      } catch {
+        throw new Error(`redaction.patterns.${name} is not a valid regular expression`);
+      }
+      patterns[name] = source;
+    }
+  }
+
+  const groups: Record<string, RedactionPolicy> = {};
+  if (redaction.groups !== undefined) {
+    if (typeof redaction.groups !== "object" || redaction.groups === null || Array.isArray(redaction.groups)) {
+      throw new Error("redaction.groups must be an object");
+    }
+    for (const [groupId, policy] of Object.entries(redaction.groups as Record<string, unknown>)) {
+      groups[groupId] = parseRedactionPolicy(policy, `redaction.groups.${groupId}`);
+    }
+  }
+
+  return {
+    enabled: redaction.enabled !== false,
+    policy: redaction.policy === undefined ? "mask" : parseRedactionPolicy(redaction.policy, "redaction.policy"),
+    detectors,
+    patterns,
+    groups,
+  };
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === "number" && value > 0 ? value : undefined;
+}
+
 function assertAllowedKeys(value: Record<string, unknown>, allowed: string[], label: string) {
   const unknown = Object.keys(value).filter((key) => !allowed.includes(key));
   if (unknown.length > 0) {
@@ -63,8 +218,10 @@ export const graphitiMemoryConfigSchema = {
     assertAllowedKeys(
       cfg,
       [
-        "spicedb", "graphiti", "subjectType", "subjectId",
-        "autoCapture", "autoRecall", "customInstructions", "maxCaptureMessages",
+        "spicedb", "graphiti", "ranking", "authorization", "recallBudget", "redaction",
+        "subjectType", "subjectId", "subjects",
+        "autoCapture", "autoRecall", "customInstructions", "maxCaptureMessages", "captureOverlap",
+        "autoPromote", "sessionRetention",
       ],
       "openclaw-memory-graphiti config",
     );
@@ -77,11 +234,36 @@ export const graphitiMemoryConfigSchema = {
     const graphiti = (cfg.graphiti as Record<string, unknown>) ?? {};
     assertAllowedKeys(graphiti, ["endpoint", "defaultGroupId", "uuidPollIntervalMs", "uuidPollMaxAttempts"], "graphiti config");
 
+    // Ranking config
+    const ranking = (cfg.ranking as Record<string, unknown>) ?? {};
+    assertAllowedKeys(ranking, ["recencyWeight", "recencyHalfLifeDays"], "ranking config");
+
+    // Authorization config
+    const authorization = (cfg.authorization as Record<string, unknown>) ?? {};
+    assertAllowedKeys(authorization, ["mode", "debug"], "authorization config");
+
+    // Auto-recall budget
+    const recallBudget = (cfg.recallBudget as Record<string, unknown>) ?? {};
+    assertAllowedKeys(recallBudget, ["unit", "total", "longTerm", "session"], "recallBudget config");
+    const budgetUnit = recallBudget.unit === "tokens" ? "tokens" : "chars";
+
+    // Automatic session → long-term promotion
+    const autoPromote = (cfg.autoPromote as Record<string, unknown>) ?? {};
+    assertAllowedKeys(autoPromote, ["enabled", "minUses", "targetGroupId"], "autoPromote config");
+
+    // Session group retention
+    const sessionRetention = (cfg.sessionRetention as Record<string, unknown>) ?? {};
+    assertAllowedKeys(sessionRetention, ["maxAgeDays", "maxPerSubject", "intervalHours"], "sessionRetention config");
+
     // Subject
     const subjectType = cfg.subjectType === "person" ? "person" : DEFAULT_SUBJECT_TYPE;
     const subjectId =
       typeof cfg.subjectId === "string" ? resolveEnvVars(cfg.subjectId) : "default";
 
+    // Per-agent / per-person subject resolution
+    const subjects = (cfg.subjects as Record<string, unknown>) ?? {};
+    assertAllowedKeys(subjects, ["agents", "agentTemplate", "persons", "personTemplate", "actAsOwner"], "subjects config");
+
     return {
       spicedb: {
         endpoint:
@@ -105,8 +287,46 @@ export const graphitiMemoryConfigSchema = {
             ? Math.round(graphiti.uuidPollMaxAttempts)
             : DEFAULT_UUID_POLL_MAX_ATTEMPTS,
       },
+      ranking: {
+        recencyWeight:
+          typeof ranking.recencyWeight === "number" &&
+          ranking.recencyWeight >= 0 &&
+          ranking.recencyWeight <= 1
+            ? ranking.recencyWeight
+            : DEFAULT_RECENCY_WEIGHT,
+        recencyHalfLifeDays:
+          typeof ranking.recencyHalfLifeDays === "number" && ranking.recencyHalfLifeDays > 0
+            ? ranking.recencyHalfLifeDays
+            : DEFAULT_RECENCY_HALF_LIFE_DAYS,
+      },
+      authorization: {
+        mode: authorization.mode === "fragment" ? "fragment" : "group",
+        debug: authorization.debug === true,
+      },
+      recallBudget: {
+        unit: budgetUnit,
+        total:
+          positiveNumber(recallBudget.total) ??
+          (budgetUnit === "tokens" ? DEFAULT_RECALL_BUDGET_TOKENS : DEFAULT_RECALL_BUDGET_CHARS),
+        longTerm: positiveNumber(recallBudget.longTerm),
+        session: positiveNumber(recallBudget.session),
+      },
+      redaction: parseRedaction(cfg.redaction),
       subjectType,
       subjectId,
+      subjects: {
+        agents: parseStringMap(subjects.agents, "subjects.agents"),
+        agentTemplate:
+          typeof subjects.agentTemplate === "string" && subjects.agentTemplate
+            ? subjects.agentTemplate
+            : undefined,
+        persons: parseStringMap(subjects.persons, "subjects.persons"),
+        personTemplate:
+          typeof subjects.personTemplate === "string" && subjects.personTemplate
+            ? subjects.personTemplate
+            : undefined,
+        actAsOwner: parseStringList(subjects.actAsOwner, "subjects.actAsOwner"),
+      },
       autoCapture: cfg.autoCapture !== false,
       autoRecall: cfg.autoRecall !== false,
       customInstructions:
@@ -117,6 +337,44 @@ export const graphitiMemoryConfigSchema = {
         typeof cfg.maxCaptureMessages === "number" && cfg.maxCaptureMessages > 0
           ? cfg.maxCaptureMessages
           : DEFAULT_MAX_CAPTURE_MESSAGES,
+      captureOverlap:
+        typeof cfg.captureOverlap === "number" && cfg.captureOverlap >= 0
+          ? Math.floor(cfg.captureOverlap)
+          : DEFAULT_CAPTURE_OVERLAP,
+      autoPromote: {
+        enabled: autoPromote.enabled === true,
+        minUses:
+          typeof autoPromote.minUses === "number" && autoPromote.minUses >= 1
+            ? Math.floor(autoPromote.minUses)
+            : DEFAULT_AUTO_PROMOTE_MIN_USES,
+        targetGroupId:
+          typeof autoPromote.targetGroupId === "string" && autoPromote.targetGroupId
+            ? autoPromote.targetGroupId
+            : undefined,
+      },
+      sessionRetention: {
+        maxAgeDays: positiveNumber(sessionRetention.maxAgeDays),
+        maxPerSubject:
+          typeof sessionRetention.maxPerSubject === "number" && sessionRetention.maxPerSubject >= 1
+            ? Math.floor(sessionRetention.maxPerSubject)
+            : undefined,
+        intervalHours: positiveNumber(sessionRetention.intervalHours) ?? DEFAULT_SESSION_GC_INTERVAL_HOURS,
+      },
     };
   },
 };
+
+/**
+ * SpiceDB agent IDs this config speaks for: the default subject (when an
+ * agent), the subjects.agents mapping and subjects.actAsOwner. Agents made
+ * up from agentTemplate can't be listed.
+ */
+export function managedAgentIds(cfg: GraphitiMemoryConfig): string[] {
+  return [
+    ...new Set([
+      ...(cfg.subjectType === "agent" ? [cfg.subjectId] : []),
+      ...Object.values(cfg.subjects.agents),
+      ...cfg.subjects.actAsOwner,
+    ]),
+  ];
+}
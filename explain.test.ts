@@ -0,0 +1,95 @@
+import { describe, test, expect, vi } from "vitest";
+
+import { explainPermission, formatExplanation, parseObjectRef } from "./explain.js";
+import type { CheckTrace, SpiceDbClient } from "./spicedb.js";
+
+function step(
+  ref: string,
+  permission: string,
+  result: CheckTrace["result"],
+  children: CheckTrace[] = [],
+  extra: Partial<CheckTrace> = {},
+): CheckTrace {
+  const [resourceType, resourceId] = ref.split(":");
+  return { resourceType, resourceId, permission, isRelation: false, result, cached: false, children, ...extra };
+}
+
+const relation = (ref: string, name: string, result: CheckTrace["result"], extra: Partial<CheckTrace> = {}) =>
+  step(ref, name, result, [], { isRelation: true, ...extra });
+
+function mockSpiceDb(result: string, trace?: CheckTrace) {
+  const checkPermissionWithTrace = vi.fn().mockResolvedValue({ result, trace });
+  return { spicedb: { checkPermissionWithTrace } as unknown as SpiceDbClient, checkPermissionWithTrace };
+}
+
+describe("parseObjectRef", () => {
+  test("parses type:id and maps episodes to memory fragments", () => {
+    expect(parseObjectRef("group:main")).toEqual({ type: "group", id: "main" });
+    expect(parseObjectRef("episode:ep-1")).toEqual({ type: "memory_fragment", id: "ep-1" });
+  });
+
+  test("applies the default type to bare IDs", () => {
+    expect(parseObjectRef("mark", "person")).toEqual({ type: "person", id: "mark" });
+    expect(parseObjectRef("mark")).toBeUndefined();
+    expect(parseObjectRef("group:")).toBeUndefined();
+  });
+});
+
+describe("explainPermission", () => {
+  test("reports the relation path that granted the permission", async () => {
+    const trace = step("group:main", "access", "has_permission", [
+      step("group:main", "contribute", "has_permission", [
+        relation("group:main", "owner", "no_permission"),
+        relation("group:main", "contributor", "has_permission"),
+      ]),
+      relation("group:main", "viewer", "no_permission"),
+    ]);
+    const { spicedb, checkPermissionWithTrace } = mockSpiceDb("has_permission", trace);
+
+    const e = await explainPermission(spicedb, { type: "agent", id: "pi" }, "access", { type: "group", id: "main" });
+
+    expect(checkPermissionWithTrace).toHaveBeenCalledWith(
+      expect.objectContaining({ resourceType: "group", resourceId: "main", permission: "access", subjectType: "agent", subjectId: "pi" }),
+    );
+    expect(e.result).toBe("has_permission");
+    expect(e.grantedBy).toEqual([
+      "group:main#access → group:main#contribute → group:main#contributor@agent:pi",
+    ]);
+    expect(e.missing).toEqual([]);
+  });
+
+  test("lists missing tuples and failed caveats when denied", async () => {
+    const trace = step("group:project", "contribute", "no_permission", [
+      relation("group:project", "owner", "no_permission"),
+      relation("group:project", "contributor", "no_permission", { caveat: { name: "write_channel", result: "false" } }),
+      step("person:mark", "delegate", "no_permission", [], { isRelation: true }),
+    ]);
+    const { spicedb } = mockSpiceDb("no_permission", trace);
+
+    const e = await explainPermission(
+      spicedb,
+      { type: "agent", id: "pi" },
+      "contribute",
+      { type: "group", id: "project" },
+      { context: { channel: "telegram" } },
+    );
+
+    expect(e.grantedBy).toEqual([]);
+    expect(e.missing).toEqual(["group:project#owner@agent:pi", "person:mark#delegate@agent:pi"]);
+    expect(e.caveats).toEqual(["group:project#contributor: write_channel is false"]);
+
+    const text = formatExplanation(e).join("\n");
+    expect(text).toContain("agent:pi does NOT have contribute on group:project");
+    expect(text).toContain("Missing tuples (any one would grant it):\n  group:project#owner@agent:pi");
+    expect(text).toContain("    ✗ group:project#contributor (relation, write_channel: false)");
+  });
+
+  test("copes with servers that send no trace", async () => {
+    const { spicedb } = mockSpiceDb("no_permission");
+
+    const e = await explainPermission(spicedb, { type: "person", id: "mark" }, "view", { type: "memory_fragment", id: "ep-1" });
+
+    expect(e).toMatchObject({ result: "no_permission", grantedBy: [], missing: [], caveats: [] });
+    expect(formatExplanation(e)).toContain("(SpiceDB returned no debug trace)");
+  });
+});
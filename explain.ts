@@ -0,0 +1,178 @@
+/**
+ * Permission Explanations
+ *
+ * "Permission denied" from memory_store or a group missing from recall says
+ * nothing about why. An explanation re-runs the check with SpiceDB debug
+ * tracing and reduces the trace to the relation paths that granted the
+ * permission, or — when denied — the tuples SpiceDB looked for and didn't
+ * find (any one of which would have granted it, since the schema only uses
+ * unions), plus caveats that failed or lacked context.
+ *
+ * Used by `graphiti-mem explain` and, with `authorization.debug`, the
+ * details of denied memory_store / memory_forget results.
+ */
+
+import type { CaveatContext, CheckTrace, ConsistencyMode, PermissionResult, SpiceDbClient } from "./spicedb.js";
+import type { Subject } from "./authorization.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ObjectRef = { type: string; id: string };
+
+export type Explanation = {
+  /** "agent:pi" */
+  subject: string;
+  permission: string;
+  /** "group:main" */
+  resource: string;
+  result: PermissionResult;
+  /** Granting paths from the checked permission down to a relation, e.g. "group:main#access → group:main#contributor@agent:pi" */
+  grantedBy: string[];
+  /** Tuples that were looked for and not found, e.g. "group:main#contributor@agent:pi" */
+  missing: string[];
+  /** Caveated steps that didn't pass, e.g. "group:main#contributor: write_channel is false" */
+  caveats: string[];
+  trace?: CheckTrace;
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse "type:id" (e.g. "group:main", "agent:pi"). "episode:UUID" maps to
+ * the episode's memory_fragment. A bare ID gets `defaultType`, if given.
+ */
+export function parseObjectRef(value: string, defaultType?: string): ObjectRef | undefined {
+  const colonIdx = value.indexOf(":");
+  if (colonIdx <= 0) {
+    return defaultType && value ? { type: defaultType, id: value } : undefined;
+  }
+  const type = value.slice(0, colonIdx);
+  const id = value.slice(colonIdx + 1);
+  if (!id) return undefined;
+  return { type: type === "episode" ? "memory_fragment" : type, id };
+}
+
+// ============================================================================
+// Explain
+// ============================================================================
+
+function stepName(step: CheckTrace): string {
+  return `${step.resourceType}:${step.resourceId}#${step.permission}`;
+}
+
+/** Walk the trace, collecting granting paths, missing tuples and failed caveats. */
+function analyzeTrace(trace: CheckTrace, subject: string): Pick<Explanation, "grantedBy" | "missing" | "caveats"> {
+  const grantedBy: string[] = [];
+  const missing = new Set<string>();
+  const caveats = new Set<string>();
+
+  const walk = (step: CheckTrace, path: string[]) => {
+    const here = [...path, stepName(step)];
+    if (step.caveat && step.caveat.result !== "true") {
+      caveats.add(`${stepName(step)}: ${step.caveat.name} is ${step.caveat.result.replace("_", " ")}`);
+    }
+    if (step.children.length === 0) {
+      if (step.result === "has_permission") {
+        const leaf = step.isRelation ? `${stepName(step)}@${subject}` : `${stepName(step)}${step.cached ? " (cached)" : ""}`;
+        grantedBy.push([...path, leaf].join(" → "));
+      } else if (step.isRelation && !step.caveat) {
+        missing.add(`${stepName(step)}@${subject}`);
+      }
+      return;
+    }
+    // Only follow branches that agree with this step's result
+    for (const child of step.children) {
+      if (step.result !== "has_permission" || child.result === "has_permission") {
+        walk(child, here);
+      }
+    }
+  };
+  walk(trace, []);
+
+  return { grantedBy, missing: [...missing], caveats: [...caveats] };
+}
+
+/**
+ * Check `permission` on `resource` for `subject` with tracing and explain
+ * the outcome.
+ */
+export async function explainPermission(
+  spicedb: SpiceDbClient,
+  subject: Subject | ObjectRef,
+  permission: string,
+  resource: ObjectRef,
+  options: { context?: CaveatContext; consistency?: ConsistencyMode } = {},
+): Promise<Explanation> {
+  const { result, trace } = await spicedb.checkPermissionWithTrace({
+    resourceType: resource.type,
+    resourceId: resource.id,
+    permission,
+    subjectType: subject.type,
+    subjectId: subject.id,
+    consistency: options.consistency,
+    context: options.context,
+  });
+  const subjectName = `${subject.type}:${subject.id}`;
+  return {
+    subject: subjectName,
+    permission,
+    resource: `${resource.type}:${resource.id}`,
+    result,
+    ...(trace ? analyzeTrace(trace, subjectName) : { grantedBy: [], missing: [], caveats: [] }),
+    ...(trace ? { trace } : {}),
+  };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const RESULT_MARKS: Record<CheckTrace["result"], string> = {
+  has_permission: "✓",
+  no_permission: "✗",
+  conditional_permission: "?",
+  unspecified: " ",
+};
+
+/** The trace as an indented tree, one step per line. */
+export function formatTrace(trace: CheckTrace, depth = 0): string[] {
+  const notes = [
+    ...(trace.isRelation ? ["relation"] : []),
+    ...(trace.caveat ? [`${trace.caveat.name}: ${trace.caveat.result}`] : []),
+    ...(trace.cached ? ["cached"] : []),
+  ];
+  return [
+    `${"  ".repeat(depth)}${RESULT_MARKS[trace.result]} ${stepName(trace)}${notes.length ? ` (${notes.join(", ")})` : ""}`,
+    ...trace.children.flatMap((child) => formatTrace(child, depth + 1)),
+  ];
+}
+
+/** Summary, granting paths or missing tuples, then the full trace. */
+export function formatExplanation(e: Explanation): string[] {
+  const verdict =
+    e.result === "has_permission"
+      ? "HAS"
+      : e.result === "conditional_permission"
+        ? "CONDITIONALLY HAS (missing caveat context)"
+        : "does NOT have";
+  const lines = [`${e.subject} ${verdict} ${e.permission} on ${e.resource}`];
+  if (e.grantedBy.length > 0) {
+    lines.push("", "Granted by:", ...e.grantedBy.map((p) => `  ${p}`));
+  }
+  if (e.result !== "has_permission" && e.missing.length > 0) {
+    lines.push("", "Missing tuples (any one would grant it):", ...e.missing.map((t) => `  ${t}`));
+  }
+  if (e.caveats.length > 0) {
+    lines.push("", "Caveats not satisfied:", ...e.caveats.map((c) => `  ${c}`));
+  }
+  if (e.trace) {
+    lines.push("", "Trace:", ...formatTrace(e.trace, 1));
+  } else {
+    lines.push("", "(SpiceDB returned no debug trace)");
+  }
+  return lines;
+}
@@ -1,5 +1,6 @@
-import { describe, test, expect, vi, beforeEach } from "vitest";
-import { GraphitiClient } from "./graphiti.js";
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHash } from "node:crypto";
+import { GraphitiClient, EpisodeUuidResolver, matchEpisodes, type GraphitiEpisode } from "./graphiti.js";
 
 // ============================================================================
 // Test helpers for MCP Streamable HTTP transport
@@ -421,6 +422,56 @@ describe("GraphitiClient", () => {
     expect(resolved).toBe(result.episode_uuid);
   });
 
+  test("resolvedUuid uses an episode UUID reported in the add_memory result", async () => {
+    client.uuidPollMaxAttempts = 3;
+    const fetchMock = vi.spyOn(globalThis, "fetch");
+    mockInit(fetchMock);
+    fetchMock.mockResolvedValueOnce(
+      sseResponse({
+        jsonrpc: "2.0",
+        id: 2,
+        result: {
+          content: [{ type: "text", text: '{"message":"queued","episode_uuid":"reported-uuid"}' }],
+          isError: false,
+        },
+      }),
+    );
+
+    const result = await client.addEpisode({ name: "ep", episode_body: "content", group_id: "main" });
+
+    expect(await result.resolvedUuid).toBe("reported-uuid");
+    // No get_episodes polling
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(client.resolver.size).toBe(0);
+  });
+
+  test("addEpisode sends a progress token and reads the UUID from progress notifications", async () => {
+    client.uuidPollMaxAttempts = 3;
+    const fetchMock = vi.spyOn(globalThis, "fetch");
+    mockInit(fetchMock);
+    fetchMock.mockImplementationOnce((_url, init) => {
+      const token = JSON.parse(init!.body as string).params._meta.progressToken;
+      const progress = {
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken: token, progress: 1, total: 1, message: '{"episode_uuid":"progress-uuid"}' },
+      };
+      const response = {
+        jsonrpc: "2.0",
+        id: 2,
+        result: { content: [{ type: "text", text: '{"message":"queued"}' }], isError: false },
+      };
+      const sse = `event: message\ndata: ${JSON.stringify(progress)}\n\nevent: message\ndata: ${JSON.stringify(response)}\n\n`;
+      return Promise.resolve(new Response(sse, { status: 200, headers: { "Content-Type": "text/event-stream" } }));
+    });
+
+    const result = await client.addEpisode({ name: "ep", episode_body: "content", group_id: "main" });
+
+    const body = JSON.parse(fetchMock.mock.calls[2][1]!.body as string);
+    expect(body.params._meta.progressToken).toBe(result.episode_uuid);
+    expect(await result.resolvedUuid).toBe("progress-uuid");
+  });
+
   test("getEpisodes sends group_ids and max_episodes", async () => {
     const fetchMock = vi.spyOn(globalThis, "fetch");
     mockInit(fetchMock);
@@ -773,3 +824,148 @@ describe("GraphitiClient", () => {
     expect(body.params.arguments.center_node_uuid).toBe("node-uuid-123");
   });
 });
+
+// ============================================================================
+// EpisodeUuidResolver
+// ============================================================================
+
+describe("EpisodeUuidResolver", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function episode(name: string, uuid: string, content = ""): GraphitiEpisode {
+    return { uuid, name, content, source_description: "", group_id: "main", created_at: "2026-02-10T00:00:00Z" };
+  }
+
+  function makeResolver(fetchEpisodes: (groupId: string, lastN: number) => Promise<GraphitiEpisode[]>, maxAttempts = 5) {
+    return new EpisodeUuidResolver(fetchEpisodes, () => ({ intervalMs: 100, maxAttempts }));
+  }
+
+  test("batches all pending names in a group into one poll per tick", async () => {
+    const fetchEpisodes = vi.fn().mockResolvedValue([episode("a", "uuid-a"), episode("b", "uuid-b")]);
+    const resolver = makeResolver(fetchEpisodes);
+
+    const a = resolver.resolve("main", "a");
+    const b = resolver.resolve("main", "b");
+    const c = resolver.resolve("work", "c");
+    c.catch(() => {});
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(a).resolves.toBe("uuid-a");
+    await expect(b).resolves.toBe("uuid-b");
+    // One call per group, not per episode
+    expect(fetchEpisodes).toHaveBeenCalledTimes(2);
+    expect(fetchEpisodes.mock.calls.map((call) => call[0]).sort()).toEqual(["main", "work"]);
+    expect(resolver.size).toBe(1);
+  });
+
+  test("widens the window when a busy group fills it without a match", async () => {
+    const busy = Array.from({ length: 50 }, (_, i) => episode(`other-${i}`, `u-${i}`));
+    const fetchEpisodes = vi
+      .fn()
+      .mockResolvedValueOnce(busy)
+      .mockResolvedValueOnce([...busy, ...busy, episode("mine", "uuid-mine")]);
+    const resolver = makeResolver(fetchEpisodes);
+
+    const mine = resolver.resolve("main", "mine");
+    await vi.advanceTimersByTimeAsync(100);
+    expect(resolver.windowFor("main")).toBe(100);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(mine).resolves.toBe("uuid-mine");
+    expect(fetchEpisodes.mock.calls.map((call) => call[1])).toEqual([50, 100]);
+    // Window resets once the group has nothing pending
+    expect(resolver.windowFor("main")).toBe(50);
+  });
+
+  test("does not widen the window when the group is quiet", async () => {
+    const fetchEpisodes = vi.fn().mockResolvedValue([episode("other", "u-1")]);
+    const resolver = makeResolver(fetchEpisodes, 2);
+
+    const mine = resolver.resolve("main", "mine");
+    mine.catch(() => {});
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(resolver.windowFor("main")).toBe(50);
+  });
+
+  test("falls back to matching by content hash", async () => {
+    const hash = createHash("sha256").update("Mark likes tea").digest("hex");
+    const fetchEpisodes = vi.fn().mockResolvedValue([episode("renamed by server", "uuid-tea", "Mark likes tea")]);
+    const resolver = makeResolver(fetchEpisodes);
+
+    const pending = resolver.resolve("main", "memory_1", hash);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(pending).resolves.toBe("uuid-tea");
+  });
+
+  test("gives episodes that share a name their own UUIDs by content hash", async () => {
+    const hash = (body: string) => createHash("sha256").update(body).digest("hex");
+    const fetchEpisodes = vi.fn().mockResolvedValue([
+      episode("notes.md", "uuid-second", "second body"),
+      episode("notes.md", "uuid-first", "first body"),
+    ]);
+    const resolver = makeResolver(fetchEpisodes);
+
+    const first = resolver.resolve("main", "notes.md", hash("first body"));
+    const second = resolver.resolve("main", "notes.md", hash("second body"));
+    expect(second).not.toBe(first);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(first).resolves.toBe("uuid-first");
+    await expect(second).resolves.toBe("uuid-second");
+  });
+
+  test("doesn't match a same-name episode whose content differs when another add shares the name", async () => {
+    const hash = (body: string) => createHash("sha256").update(body).digest("hex");
+    const fetchEpisodes = vi.fn().mockResolvedValue([episode("notes.md", "uuid-first", "first body")]);
+    const resolver = makeResolver(fetchEpisodes, 1);
+
+    const first = resolver.resolve("main", "notes.md", hash("first body"));
+    const second = resolver.resolve("main", "notes.md", hash("second body"));
+    const assertion = expect(second).rejects.toThrow("Failed to resolve");
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(first).resolves.toBe("uuid-first");
+    await assertion;
+  });
+
+  test("doesn't take an older same-name episode with different content", async () => {
+    const hash = (body: string) => createHash("sha256").update(body).digest("hex");
+    const older = episode("notes.md", "uuid-old", "old notes");
+
+    expect(matchEpisodes([{ name: "notes.md", contentHash: hash("new notes") }], [older]).size).toBe(0);
+    // Without a hash on either side the name still decides
+    expect([...matchEpisodes([{ name: "notes.md" }], [older]).values()]).toEqual(["uuid-old"]);
+  });
+
+  test("rejects after maxAttempts polls and keeps polling through transient errors", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchEpisodes = vi.fn().mockRejectedValueOnce(new Error("boom")).mockResolvedValue([]);
+    const resolver = makeResolver(fetchEpisodes, 3);
+
+    const pending = resolver.resolve("main", "never");
+    const assertion = expect(pending).rejects.toThrow('Failed to resolve episode UUID for "never"');
+    await vi.advanceTimersByTimeAsync(300);
+
+    await assertion;
+    expect(fetchEpisodes).toHaveBeenCalledTimes(3);
+    expect(resolver.size).toBe(0);
+  });
+
+  test("returns the same promise for a name that is already pending", async () => {
+    const resolver = makeResolver(vi.fn().mockResolvedValue([episode("a", "uuid-a")]));
+
+    const first = resolver.resolve("main", "a");
+    expect(resolver.resolve("main", "a")).toBe(first);
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(first).resolves.toBe("uuid-a");
+  });
+});
@@ -10,7 +10,7 @@
  * delete_entity_edge, clear_graph.
  */
 
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
 
 // ============================================================================
 // Types
@@ -43,6 +43,8 @@ export type GraphitiFact = {
   target_node_uuid?: string;
   source_node_name?: string;
   target_node_name?: string;
+  /** UUIDs of the episodes this fact was extracted from */
+  episodes?: string[];
   group_id: string;
   created_at: string;
   [key: string]: unknown;
@@ -52,6 +54,8 @@ export type AddEpisodeResult = {
   episode_uuid: string;
   /** Resolves to the real server-side UUID once Graphiti finishes processing. */
   resolvedUuid: Promise<string>;
+  /** sha256 of the submitted body (instructions included), for matching the episode later */
+  contentHash: string;
 };
 
 type JsonRpcRequest = {
@@ -68,6 +72,219 @@ type JsonRpcResponse = {
   error?: { code: number; message: string; data?: unknown };
 };
 
+/** A server-to-client JSON-RPC notification (no id), e.g. notifications/progress. */
+type JsonRpcNotification = {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+type CallToolOptions = {
+  /** Sent as params._meta.progressToken so the server may stream progress. */
+  progressToken?: string;
+  /** Receives notifications the server sends in the same SSE stream. */
+  onNotification?: (notification: JsonRpcNotification) => void;
+};
+
+// ============================================================================
+// Episode UUID Resolver
+// ============================================================================
+
+/** Initial get_episodes window per group and poll. */
+export const RESOLVER_BASE_WINDOW = 50;
+/** Upper bound on the window for very busy groups. */
+export const RESOLVER_MAX_WINDOW = 1000;
+
+/** An episode being looked up: its name and, when known, the hash of its body. */
+export type EpisodeLookup = {
+  name: string;
+  /** sha256 of the submitted episode body, matched against episode content */
+  contentHash?: string;
+};
+
+/**
+ * Match pending episodes to the episodes get_episodes returned. A name match
+ * only counts when the content hash agrees (or can't be compared), so
+ * episodes that share a name are told apart by content and an older episode
+ * of the same name (a re-imported file) is never taken for a new one. An
+ * entry whose hash matches nothing by name falls back to the content hash
+ * alone (servers that rename episodes). Each episode settles at most one
+ * entry.
+ */
+export function matchEpisodes<T extends EpisodeLookup>(lookups: T[], episodes: GraphitiEpisode[]): Map<T, string> {
+  const matches = new Map<T, string>();
+  const claimed = new Set<string>();
+  const hashes = new Map<GraphitiEpisode, string | undefined>(
+    episodes.map((ep) => [ep, typeof ep.content === "string" ? hashContent(ep.content) : undefined]),
+  );
+
+  const pass = (accepts: (l: T, ep: GraphitiEpisode, hash: string | undefined) => boolean) => {
+    for (const l of lookups) {
+      if (matches.has(l)) continue;
+      const ep = episodes.find((e) => !claimed.has(e.uuid) && accepts(l, e, hashes.get(e)));
+      if (!ep) continue;
+      matches.set(l, ep.uuid);
+      claimed.add(ep.uuid);
+    }
+  };
+  pass((l, ep, hash) => ep.name === l.name && (!l.contentHash || !hash || hash === l.contentHash));
+  pass((l, _ep, hash) => !!l.contentHash && hash === l.contentHash);
+  return matches;
+}
+
+/**
+ * Look pending episodes up in one group, starting with a `window` of recent
+ * episodes and doubling it (up to RESOLVER_MAX_WINDOW) while the page comes
+ * back full with entries still unmatched. For one-off lookups such as outbox
+ * retries; in-flight adds go through the EpisodeUuidResolver.
+ */
+export async function lookupEpisodeUuids<T extends EpisodeLookup>(
+  fetchEpisodes: (groupId: string, lastN: number) => Promise<GraphitiEpisode[]>,
+  groupId: string,
+  lookups: T[],
+  window = RESOLVER_BASE_WINDOW,
+): Promise<Map<T, string>> {
+  for (;;) {
+    const episodes = await fetchEpisodes(groupId, window);
+    const matches = matchEpisodes(lookups, episodes);
+    if (matches.size === lookups.length || episodes.length < window || window >= RESOLVER_MAX_WINDOW) {
+      return matches;
+    }
+    window = Math.min(window * 2, RESOLVER_MAX_WINDOW);
+  }
+}
+
+type PendingEpisode = EpisodeLookup & {
+  key: string;
+  attempts: number;
+  promise: Promise<string>;
+  resolve: (uuid: string) => void;
+  reject: (err: Error) => void;
+};
+
+/**
+ * Shared resolver for the server-side UUIDs of freshly added episodes.
+ *
+ * Graphiti's add_memory only queues the episode, so its UUID has to be found
+ * afterwards via get_episodes. Rather than every store running its own poll
+ * loop, all pending episodes are batched per group: each tick issues a single
+ * get_episodes call per group and settles every pending episode it finds.
+ * When a group is busy — the window comes back full while episodes are still
+ * missing — the window doubles (up to RESOLVER_MAX_WINDOW) so episodes pushed
+ * further back by concurrent writes are still found.
+ *
+ * Pending episodes are keyed by name and content hash, and matched as
+ * matchEpisodes() describes, so two adds with the same name but different
+ * bodies each get their own UUID.
+ */
+export class EpisodeUuidResolver {
+  private pending = new Map<string, Map<string, PendingEpisode>>();
+  private windows = new Map<string, number>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly fetchEpisodes: (groupId: string, lastN: number) => Promise<GraphitiEpisode[]>,
+    private readonly settings: () => { intervalMs: number; maxAttempts: number },
+  ) {}
+
+  /** Number of episodes still waiting for their UUID, across all groups. */
+  get size(): number {
+    let n = 0;
+    for (const entries of this.pending.values()) n += entries.size;
+    return n;
+  }
+
+  /** Current get_episodes window for a group. */
+  windowFor(groupId: string): number {
+    return this.windows.get(groupId) ?? RESOLVER_BASE_WINDOW;
+  }
+
+  resolve(groupId: string, name: string, contentHash?: string): Promise<string> {
+    const key = contentHash ? `${name}\0${contentHash}` : name;
+    const existing = this.pending.get(groupId)?.get(key);
+    if (existing) return existing.promise;
+
+    const { maxAttempts } = this.settings();
+    if (maxAttempts <= 0) {
+      return Promise.reject(new Error(this.timeoutMessage(groupId, name)));
+    }
+
+    let resolve!: (uuid: string) => void;
+    let reject!: (err: Error) => void;
+    const promise = new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const entries = this.pending.get(groupId) ?? new Map<string, PendingEpisode>();
+    entries.set(key, { key, name, contentHash, attempts: 0, promise, resolve, reject });
+    this.pending.set(groupId, entries);
+    this.schedule();
+    return promise;
+  }
+
+  /** Run one poll over every group with pending episodes. */
+  async tick(): Promise<void> {
+    const { maxAttempts } = this.settings();
+
+    for (const [groupId, entries] of [...this.pending]) {
+      const window = this.windowFor(groupId);
+      let episodes: GraphitiEpisode[] | null = null;
+      try {
+        episodes = await this.fetchEpisodes(groupId, window);
+      } catch (err) {
+        // Log transient errors to aid debugging
+        console.warn(
+          `[graphiti] UUID poll for ${entries.size} episode(s) in "${groupId}" failed: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+
+      if (episodes) {
+        for (const [entry, uuid] of matchEpisodes([...entries.values()], episodes)) {
+          entries.delete(entry.key);
+          entry.resolve(uuid);
+        }
+
+        // Busy group: the window is full and episodes are still missing
+        if (entries.size > 0 && episodes.length >= window) {
+          this.windows.set(groupId, Math.min(window * 2, RESOLVER_MAX_WINDOW));
+        }
+      }
+
+      for (const entry of [...entries.values()]) {
+        entry.attempts++;
+        if (entry.attempts >= maxAttempts) {
+          entries.delete(entry.key);
+          entry.reject(new Error(this.timeoutMessage(groupId, entry.name)));
+        }
+      }
+      this.dropIfIdle(groupId);
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer || this.pending.size === 0) return;
+    this.timer = setTimeout(() => {
+      void this.tick().finally(() => {
+        this.timer = null;
+        this.schedule();
+      });
+    }, this.settings().intervalMs);
+  }
+
+  private dropIfIdle(groupId: string): void {
+    if (this.pending.get(groupId)?.size === 0) {
+      this.pending.delete(groupId);
+      this.windows.delete(groupId);
+    }
+  }
+
+  private timeoutMessage(groupId: string, name: string): string {
+    const { intervalMs, maxAttempts } = this.settings();
+    const totalTimeoutSec = (maxAttempts * intervalMs) / 1000;
+    return `Failed to resolve episode UUID for "${name}" in group "${groupId}" after ${totalTimeoutSec}s — episode not yet visible in get_episodes (Graphiti LLM processing may still be running)`;
+  }
+}
+
 // ============================================================================
 // Client
 // ============================================================================
@@ -82,6 +299,12 @@ export class GraphitiClient {
   /** Max polling attempts for UUID resolution (total wait = interval * attempts). */
   uuidPollMaxAttempts = 80;
 
+  /** Batches UUID resolution for every in-flight addEpisode on this client. */
+  readonly resolver = new EpisodeUuidResolver(
+    (groupId, lastN) => this.getEpisodes(groupId, lastN),
+    () => ({ intervalMs: this.uuidPollIntervalMs, maxAttempts: this.uuidPollMaxAttempts }),
+  );
+
   constructor(private readonly endpoint: string) {}
 
   private get mcpUrl(): string {
@@ -166,14 +389,22 @@ export class GraphitiClient {
   // JSON-RPC / SSE Transport
   // --------------------------------------------------------------------------
 
-  private async callTool(name: string, args: Record<string, unknown> = {}): Promise<unknown> {
+  private async callTool(
+    name: string,
+    args: Record<string, unknown> = {},
+    options: CallToolOptions = {},
+  ): Promise<unknown> {
     await this.ensureInitialized();
 
+    const params: Record<string, unknown> = { name, arguments: args };
+    if (options.progressToken) {
+      params._meta = { progressToken: options.progressToken };
+    }
     const request: JsonRpcRequest = {
       jsonrpc: "2.0",
       id: this.nextId++,
       method: "tools/call",
-      params: { name, arguments: args },
+      params,
     };
 
     const headers: Record<string, string> = {
@@ -194,7 +425,7 @@ export class GraphitiClient {
       throw new Error(`Graphiti MCP server error: ${response.status} ${response.statusText}`);
     }
 
-    const json = await this.parseResponse(response);
+    const json = await this.parseResponse(response, options.onNotification);
 
     if (json.error) {
       throw new Error(`Graphiti tool ${name} failed: ${json.error.message}`);
@@ -203,21 +434,36 @@ export class GraphitiClient {
     return json.result;
   }
 
-  private async parseResponse(response: Response): Promise<JsonRpcResponse> {
+  private async parseResponse(
+    response: Response,
+    onNotification?: (notification: JsonRpcNotification) => void,
+  ): Promise<JsonRpcResponse> {
     const contentType = response.headers.get("content-type") ?? "";
     if (contentType.includes("text/event-stream")) {
-      return this.parseSseResponse(response);
+      return this.parseSseResponse(response, onNotification);
     }
     return (await response.json()) as JsonRpcResponse;
   }
 
-  private async parseSseResponse(response: Response): Promise<JsonRpcResponse> {
+  /**
+   * The SSE stream may carry server notifications (e.g. notifications/progress)
+   * ahead of the JSON-RPC response; those are handed to onNotification and the
+   * first message with an id is returned.
+   */
+  private async parseSseResponse(
+    response: Response,
+    onNotification?: (notification: JsonRpcNotification) => void,
+  ): Promise<JsonRpcResponse> {
     const text = await response.text();
     for (const line of text.split("\n")) {
       if (line.startsWith("data: ")) {
         const data = line.slice(6).trim();
         if (data) {
-          return JSON.parse(data) as JsonRpcResponse;
+          const message = JSON.parse(data) as JsonRpcResponse | JsonRpcNotification;
+          if ("id" in message && message.id !== undefined) {
+            return message;
+          }
+          onNotification?.(message as JsonRpcNotification);
         }
       }
     }
@@ -275,7 +521,7 @@ export class GraphitiClient {
     let effectiveBody = params.episode_body;
     if (params.custom_extraction_instructions) {
       effectiveBody =
-        `[Extraction Instructions]\n${params.custom_extraction_instructions}\n[End Instructions]\n\n${params.episode_body}`;
+        `${INSTRUCTIONS_START}\n${params.custom_extraction_instructions}\n${INSTRUCTIONS_END}\n\n${params.episode_body}`;
     }
 
     const args: Record<string, unknown> = {
@@ -292,40 +538,34 @@ export class GraphitiClient {
       args.source_description = params.source_description;
     }
 
-    await this.callTool("add_memory", args);
+    // Servers that report the episode UUID — in the add_memory result or a
+    // progress notification — let us skip polling entirely
+    let reportedUuid: string | undefined;
+    const result = await this.callTool("add_memory", args, {
+      progressToken: trackingUuid,
+      onNotification: (n) => {
+        if (n.method === "notifications/progress" && n.params?.progressToken === trackingUuid) {
+          reportedUuid = extractEpisodeUuid(n.params) ?? reportedUuid;
+        }
+      },
+    });
+    reportedUuid = extractEpisodeUuid(safeParseJsonResult(result)) ?? reportedUuid;
 
-    // Graphiti's add_memory queues the episode for async LLM processing and
-    // returns only a "queued" message — no UUID. We poll getEpisodes in the
-    // background to discover the real server-side UUID by name match.
+    // Graphiti's add_memory normally queues the episode for async LLM
+    // processing and returns only a "queued" message — no UUID. The shared
+    // resolver then discovers the real server-side UUID via get_episodes.
+    const contentHash = hashContent(effectiveBody);
     let resolvedUuid: Promise<string>;
-    if (params.group_id) {
-      resolvedUuid = this.resolveEpisodeUuid(params.name, params.group_id);
+    if (reportedUuid) {
+      resolvedUuid = Promise.resolve(reportedUuid);
+    } else if (params.group_id) {
+      resolvedUuid = this.resolver.resolve(params.group_id, params.name, contentHash);
       resolvedUuid.catch(() => {}); // Prevent unhandled rejection if caller ignores
     } else {
       resolvedUuid = Promise.resolve(trackingUuid);
     }
 
-    return { episode_uuid: trackingUuid, resolvedUuid };
-  }
-
-  private async resolveEpisodeUuid(name: string, groupId: string): Promise<string> {
-    const totalTimeoutSec = (this.uuidPollMaxAttempts * this.uuidPollIntervalMs) / 1000;
-    for (let i = 0; i < this.uuidPollMaxAttempts; i++) {
-      await new Promise((r) => setTimeout(r, this.uuidPollIntervalMs));
-      try {
-        const episodes = await this.getEpisodes(groupId, 50);
-        const match = episodes.find((ep) => ep.name === name);
-        if (match) return match.uuid;
-      } catch (err) {
-        // Log transient errors to aid debugging
-        console.warn(
-          `[graphiti] UUID poll ${i + 1}/${this.uuidPollMaxAttempts} for "${name}" in "${groupId}" failed: ${err instanceof Error ? err.message : String(err)}`,
-        );
-      }
-    }
-    throw new Error(
-      `Failed to resolve episode UUID for "${name}" in group "${groupId}" after ${totalTimeoutSec}s — episode not yet visible in get_episodes (Graphiti LLM processing may still be running)`,
-    );
+    return { episode_uuid: trackingUuid, resolvedUuid, contentHash };
   }
 
   async getEpisodes(groupId: string, lastN: number): Promise<GraphitiEpisode[]> {
@@ -437,6 +677,54 @@ function parseToolResult<T>(result: unknown, key: string): T {
   return [] as unknown as T;
 }
 
+function safeParseJsonResult(result: unknown): unknown {
+  try {
+    return parseJsonResult<unknown>(result);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find an episode UUID in an add_memory result or progress notification.
+ * Accepts `episode_uuid` / `uuid` fields, directly or in a JSON `message`.
+ */
+function extractEpisodeUuid(value: unknown): string | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const obj = value as Record<string, unknown>;
+  for (const key of ["episode_uuid", "uuid"]) {
+    if (typeof obj[key] === "string" && obj[key]) return obj[key] as string;
+  }
+  if (obj.episode && typeof obj.episode === "object") {
+    return extractEpisodeUuid(obj.episode);
+  }
+  if (typeof obj.message === "string" && obj.message.trimStart().startsWith("{")) {
+    try {
+      return extractEpisodeUuid(JSON.parse(obj.message));
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+const INSTRUCTIONS_START = "[Extraction Instructions]";
+const INSTRUCTIONS_END = "[End Instructions]";
+
+/**
+ * An episode's content without the extraction instructions addEpisode
+ * prepended to it — the body as originally stored.
+ */
+export function stripExtractionInstructions(content: string): string {
+  if (!content.startsWith(`${INSTRUCTIONS_START}\n`)) return content;
+  const end = content.indexOf(`\n${INSTRUCTIONS_END}\n\n`);
+  return end < 0 ? content : content.slice(end + INSTRUCTIONS_END.length + 3);
+}
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
 function parseJsonResult<T>(result: unknown): T {
   if (typeof result === "string") {
     return JSON.parse(result) as T;
@@ -0,0 +1,190 @@
+import { describe, test, expect, vi } from "vitest";
+
+import {
+  createGroup,
+  deleteGroup,
+  describeGrant,
+  listGroupMembers,
+  listSubjectGroups,
+  removeGroupMember,
+  renameGroup,
+} from "./groups.js";
+import type { GraphitiClient } from "./graphiti.js";
+import type { SpiceDbClient, RelationshipTuple } from "./spicedb.js";
+
+const until = new Date("2026-11-02T00:00:00Z");
+
+const groupTuple = (groupId: string, relation: string, subjectType: string, subjectId: string): RelationshipTuple => ({
+  resourceType: "group",
+  resourceId: groupId,
+  relation,
+  subjectType,
+  subjectId,
+});
+
+const projectTuples: RelationshipTuple[] = [
+  groupTuple("project", "owner", "person", "mark"),
+  { ...groupTuple("project", "contributor", "person", "alex"), caveat: { name: "write_channel", context: { allowed_channels: ["slack"] } } },
+  groupTuple("project", "viewer", "person", "alex"),
+  { ...groupTuple("project", "viewer", "agent", "pi"), expiresAt: until },
+  groupTuple("project", "child", "group", "team-a"),
+];
+
+function mocks(options: { tuples?: RelationshipTuple[]; episodes?: unknown[] } = {}) {
+  const tuples = options.tuples ?? projectTuples;
+  const graphiti = {
+    clearGraph: vi.fn().mockResolvedValue(undefined),
+    getEpisodes: vi.fn().mockResolvedValue(options.episodes ?? []),
+  };
+  const spicedb = {
+    readRelationships: vi.fn().mockImplementation(
+      async (req: { resourceType: string; resourceId?: string; relation?: string; subjectType?: string; subjectId?: string }) =>
+        tuples.filter(
+          (t) =>
+            t.resourceType === req.resourceType &&
+            (req.resourceId === undefined || t.resourceId === req.resourceId) &&
+            (req.relation === undefined || t.relation === req.relation) &&
+            (req.subjectType === undefined || t.subjectType === req.subjectType) &&
+            (req.subjectId === undefined || t.subjectId === req.subjectId),
+        ),
+    ),
+    writeRelationships: vi.fn().mockResolvedValue("write-tok"),
+    deleteRelationships: vi.fn().mockResolvedValue(undefined),
+    deleteRelationshipsByFilter: vi.fn().mockResolvedValue("del-tok"),
+    lookupResources: vi.fn().mockResolvedValue(["project", "company"]),
+  };
+  return {
+    graphiti,
+    spicedb,
+    g: graphiti as unknown as GraphitiClient,
+    s: spicedb as unknown as SpiceDbClient,
+  };
+}
+
+describe("listGroupMembers", () => {
+  test("lists each subject once with its strongest role and conditions", async () => {
+    const { s } = mocks();
+
+    const members = await listGroupMembers(s, "project");
+
+    expect(members).toEqual([
+      { subject: { type: "person", id: "mark" }, role: "owner" },
+      { subject: { type: "person", id: "alex" }, role: "contributor", channels: ["slack"] },
+      { subject: { type: "agent", id: "pi" }, role: "viewer", expiresAt: until },
+    ]);
+    expect(describeGrant(members[1])).toBe("contributor, writes only from slack");
+  });
+});
+
+describe("removeGroupMember", () => {
+  test("deletes every role tuple the subject holds", async () => {
+    const { spicedb, s } = mocks();
+
+    expect(await removeGroupMember(s, "project", { type: "person", id: "alex" })).toBe(true);
+
+    expect(spicedb.deleteRelationships.mock.calls[0][0].map((t: RelationshipTuple) => t.relation)).toEqual([
+      "contributor",
+      "viewer",
+    ]);
+  });
+
+  test("refuses to remove the last owner", async () => {
+    const { spicedb, s } = mocks();
+
+    await expect(removeGroupMember(s, "project", { type: "person", id: "mark" })).rejects.toThrow("last owner");
+    expect(spicedb.deleteRelationships).not.toHaveBeenCalled();
+  });
+
+  test("returns false for non-members", async () => {
+    const { s } = mocks();
+    expect(await removeGroupMember(s, "project", { type: "person", id: "nobody" })).toBe(false);
+  });
+});
+
+describe("listSubjectGroups", () => {
+  test("marks groups reached without a direct role as inherited", async () => {
+    const { s } = mocks();
+
+    const groups = await listSubjectGroups(s, { type: "agent", id: "pi" });
+
+    expect(groups).toEqual([
+      { groupId: "company" },
+      { groupId: "project", role: "viewer", expiresAt: until },
+    ]);
+    expect(describeGrant(groups[0])).toBe("inherited");
+  });
+});
+
+describe("createGroup", () => {
+  test("writes the owner tuple for a new group", async () => {
+    const { spicedb, s } = mocks();
+
+    await createGroup(s, "research", { type: "person", id: "mark" });
+
+    expect(spicedb.writeRelationships).toHaveBeenCalledWith([groupTuple("research", "owner", "person", "mark")]);
+  });
+
+  test("refuses existing groups and session group IDs", async () => {
+    const { s } = mocks();
+    await expect(createGroup(s, "project", { type: "person", id: "mark" })).rejects.toThrow("already exists");
+    await expect(createGroup(s, "session-x", { type: "person", id: "mark" })).rejects.toThrow("session groups");
+  });
+});
+
+describe("deleteGroup", () => {
+  test("clears the graph, fragments, parent links and the group's own tuples", async () => {
+    const { graphiti, spicedb, g, s } = mocks({
+      tuples: [
+        ...projectTuples,
+        groupTuple("company", "child", "group", "project"),
+        { resourceType: "memory_fragment", resourceId: "ep-1", relation: "source_group", subjectType: "group", subjectId: "project" },
+      ],
+    });
+
+    const result = await deleteGroup(g, s, "project");
+
+    expect(result).toEqual({ fragments: 1, token: "del-tok" });
+    expect(graphiti.clearGraph).toHaveBeenCalledWith(["project"]);
+    expect(spicedb.deleteRelationships).toHaveBeenCalledWith([groupTuple("company", "child", "group", "project")]);
+    expect(spicedb.deleteRelationshipsByFilter.mock.calls.map((c) => c[0])).toEqual([
+      { resourceType: "memory_fragment", resourceId: "ep-1" },
+      { resourceType: "group", resourceId: "project" },
+    ]);
+  });
+});
+
+describe("renameGroup", () => {
+  test("rewrites own tuples, parent links and fragment tuples to the new ID", async () => {
+    const { spicedb, g, s } = mocks({
+      tuples: [
+        ...projectTuples,
+        groupTuple("company", "child", "group", "project"),
+        { resourceType: "memory_fragment", resourceId: "ep-1", relation: "source_group", subjectType: "group", subjectId: "project" },
+      ],
+    });
+
+    const moved = await renameGroup(g, s, "project", "apollo");
+
+    expect(moved).toBe(7);
+    const written: RelationshipTuple[] = spicedb.writeRelationships.mock.calls[0][0];
+    expect(written).toContainEqual({ ...projectTuples[1], resourceId: "apollo" });
+    expect(written).toContainEqual({ ...projectTuples[3], resourceId: "apollo" });
+    expect(written).toContainEqual(groupTuple("company", "child", "group", "apollo"));
+    expect(written).toContainEqual(
+      { resourceType: "memory_fragment", resourceId: "ep-1", relation: "source_group", subjectType: "group", subjectId: "apollo" },
+    );
+    expect(spicedb.deleteRelationships.mock.calls[0][0]).toHaveLength(7);
+  });
+
+  test("refuses groups that still hold episodes", async () => {
+    const { spicedb, g, s } = mocks({ episodes: [{ uuid: "ep-1" }] });
+
+    await expect(renameGroup(g, s, "project", "apollo")).rejects.toThrow("still holds episodes");
+    expect(spicedb.writeRelationships).not.toHaveBeenCalled();
+  });
+
+  test("refuses an existing target group", async () => {
+    const { g, s } = mocks({ tuples: [...projectTuples, groupTuple("apollo", "owner", "person", "mark")] });
+    await expect(renameGroup(g, s, "project", "apollo")).rejects.toThrow('group "apollo" already exists');
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Group Administration
+ *
+ * Operator-level group lifecycle on top of the role relations: create a
+ * group with an owner, list and remove members, rename, and delete (graph
+ * data included). Also resolves which groups a subject can read and the
+ * role it holds in each, for the memory_groups tool.
+ *
+ * Used by `graphiti-mem group …` and memory_groups. The CLI runs as the
+ * operator and does not check `manage`.
+ */
+
+import type { GraphitiClient } from "./graphiti.js";
+import type { RelationshipTuple, SpiceDbClient } from "./spicedb.js";
+import {
+  CHILD_GROUP_RELATION,
+  GROUP_MEMBERSHIP_RELATIONS,
+  WRITE_CHANNEL_CAVEAT,
+  deleteFragmentRelationships,
+  detachChildGroup,
+  ensureGroupMembership,
+  listParentGroups,
+  lookupAuthorizedGroups,
+  type Subject,
+} from "./authorization.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GroupMembership = {
+  subject: Subject;
+  /** Strongest role relation held ("member" for legacy tuples) */
+  role: string;
+  expiresAt?: Date;
+  /** Channels a channel-restricted contributor may write from */
+  channels?: string[];
+};
+
+export type SubjectGroup = {
+  groupId: string;
+  /**
+   * Role held directly in the group, or undefined when access comes only
+   * through a child group or an owner's delegation
+   */
+  role?: string;
+  expiresAt?: Date;
+  channels?: string[];
+};
+
+/** Strongest first; legacy `member` grants contributor rights. */
+const ROLE_RANK = ["owner", "admin", "contributor", "member", "viewer"];
+
+/** Relationship updates per SpiceDB write when renaming. */
+const RENAME_BATCH_SIZE = 500;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function strongestGrant(tuples: RelationshipTuple[]): Omit<GroupMembership, "subject"> | undefined {
+  const grants = tuples
+    .filter((t) => GROUP_MEMBERSHIP_RELATIONS.includes(t.relation))
+    .sort((a, b) => ROLE_RANK.indexOf(a.relation) - ROLE_RANK.indexOf(b.relation));
+  const best = grants[0];
+  if (!best) return undefined;
+  const channels = best.caveat?.name === WRITE_CHANNEL_CAVEAT ? best.caveat.context?.allowed_channels : undefined;
+  return {
+    role: best.relation,
+    ...(best.expiresAt ? { expiresAt: best.expiresAt } : {}),
+    ...(Array.isArray(channels) ? { channels } : {}),
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const list = groups.get(key(item)) ?? [];
+    list.push(item);
+    groups.set(key(item), list);
+  }
+  return groups;
+}
+
+async function groupExists(spicedb: SpiceDbClient, groupId: string): Promise<boolean> {
+  const tuples = await spicedb.readRelationships({ resourceType: "group", resourceId: groupId });
+  return tuples.length > 0;
+}
+
+/** "contributor, until 2026-11-02T00:00:00.000Z, writes only from slack" */
+export function describeGrant(grant: Omit<SubjectGroup, "groupId">): string {
+  return [
+    grant.role ?? "inherited",
+    ...(grant.expiresAt ? [`until ${grant.expiresAt.toISOString()}`] : []),
+    ...(grant.channels?.length ? [`writes only from ${grant.channels.join(", ")}`] : []),
+  ].join(", ");
+}
+
+// ============================================================================
+// Members
+// ============================================================================
+
+/**
+ * Subjects holding a role in a group, one entry per subject with its
+ * strongest role. The viewer tuple that accompanies a channel-restricted
+ * contributor is folded into that contributor entry.
+ */
+export async function listGroupMembers(
+  spicedb: SpiceDbClient,
+  groupId: string,
+  zedToken?: string,
+): Promise<GroupMembership[]> {
+  const tuples = await spicedb.readRelationships({
+    resourceType: "group",
+    resourceId: groupId,
+    ...(zedToken ? { consistency: { mode: "at_least_as_fresh" as const, token: zedToken } } : {}),
+  });
+  const members: GroupMembership[] = [];
+  for (const subjectTuples of groupBy(tuples, (t) => `${t.subjectType}:${t.subjectId}`).values()) {
+    const grant = strongestGrant(subjectTuples);
+    if (!grant) continue;
+    const [{ subjectType, subjectId }] = subjectTuples;
+    members.push({ subject: { type: subjectType as Subject["type"], id: subjectId }, ...grant });
+  }
+  return members.sort(
+    (a, b) => ROLE_RANK.indexOf(a.role) - ROLE_RANK.indexOf(b.role) || a.subject.id.localeCompare(b.subject.id),
+  );
+}
+
+/**
+ * Remove every role a subject holds in a group. Throws if that would leave
+ * the group without an owner; returns false if the subject held no role.
+ */
+export async function removeGroupMember(
+  spicedb: SpiceDbClient,
+  groupId: string,
+  member: Subject,
+): Promise<boolean> {
+  const tuples = await spicedb.readRelationships({ resourceType: "group", resourceId: groupId });
+  const held = tuples.filter(
+    (t) =>
+      t.subjectType === member.type &&
+      t.subjectId === member.id &&
+      GROUP_MEMBERSHIP_RELATIONS.includes(t.relation),
+  );
+  if (held.length === 0) return false;
+
+  const owners = tuples.filter((t) => t.relation === "owner");
+  if (owners.length > 0 && owners.every((t) => t.subjectType === member.type && t.subjectId === member.id)) {
+    throw new Error(`${member.type}:${member.id} is the last owner of group "${groupId}"; add another owner first`);
+  }
+  await spicedb.deleteRelationships(held);
+  return true;
+}
+
+/**
+ * Groups a subject can read, with the role it holds directly in each.
+ */
+export async function listSubjectGroups(
+  spicedb: SpiceDbClient,
+  subject: Subject,
+  zedToken?: string,
+): Promise<SubjectGroup[]> {
+  const [groupIds, direct] = await Promise.all([
+    lookupAuthorizedGroups(spicedb, subject, zedToken),
+    spicedb.readRelationships({
+      resourceType: "group",
+      subjectType: subject.type,
+      subjectId: subject.id,
+      ...(zedToken ? { consistency: { mode: "at_least_as_fresh" as const, token: zedToken } } : {}),
+    }),
+  ]);
+  const byGroup = groupBy(direct, (t) => t.resourceId);
+  return groupIds
+    .map((groupId) => ({ groupId, ...strongestGrant(byGroup.get(groupId) ?? []) }))
+    .sort((a, b) => a.groupId.localeCompare(b.groupId));
+}
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+/** Create a group by making `owner` its owner. Throws if the group exists. */
+export async function createGroup(
+  spicedb: SpiceDbClient,
+  groupId: string,
+  owner: Subject,
+): Promise<string | undefined> {
+  if (groupId.startsWith("session-")) {
+    throw new Error(`"${groupId}" is reserved for session groups`);
+  }
+  if (await groupExists(spicedb, groupId)) {
+    throw new Error(`group "${groupId}" already exists`);
+  }
+  return ensureGroupMembership(spicedb, groupId, owner, "owner");
+}
+
+/**
+ * Delete a group: its graph data is cleared in Graphiti, then its
+ * memory_fragment tuples, its links to parent groups and its own tuples
+ * (roles and child links) are removed from SpiceDB.
+ */
+export async function deleteGroup(
+  graphiti: GraphitiClient,
+  spicedb: SpiceDbClient,
+  groupId: string,
+): Promise<{ fragments: number; token?: string }> {
+  await graphiti.clearGraph([groupId]);
+
+  const fragments = await spicedb.readRelationships({
+    resourceType: "memory_fragment",
+    relation: "source_group",
+    subjectType: "group",
+    subjectId: groupId,
+  });
+  const fragmentIds = new Set(fragments.map((f) => f.resourceId));
+  let token: string | undefined;
+  for (const fragmentId of fragmentIds) {
+    token = (await deleteFragmentRelationships(spicedb, fragmentId)) ?? token;
+  }
+  for (const parentId of await listParentGroups(spicedb, groupId)) {
+    await detachChildGroup(spicedb, parentId, groupId);
+  }
+  token = (await spicedb.deleteRelationshipsByFilter({ resourceType: "group", resourceId: groupId })) ?? token;
+  return { fragments: fragmentIds.size, token };
+}
+
+/**
+ * Move a group's authorization to a new ID: its roles and child links,
+ * links from parent groups, and memory_fragment source_group tuples are
+ * rewritten (caveats and expirations kept). Graphiti can't re-key a group's
+ * graph data, so groups that still hold episodes are refused.
+ */
+export async function renameGroup(
+  graphiti: GraphitiClient,
+  spicedb: SpiceDbClient,
+  fromId: string,
+  toId: string,
+): Promise<number> {
+  if (fromId.startsWith("session-") || toId.startsWith("session-")) {
+    throw new Error("session groups can't be renamed");
+  }
+  if (!(await groupExists(spicedb, fromId))) {
+    throw new Error(`group "${fromId}" does not exist`);
+  }
+  if (await groupExists(spicedb, toId)) {
+    throw new Error(`group "${toId}" already exists`);
+  }
+  if ((await graphiti.getEpisodes(fromId, 1)).length > 0) {
+    throw new Error(`group "${fromId}" still holds episodes, and Graphiti can't move them to another group ID`);
+  }
+
+  const [own, parentLinks, fragments] = await Promise.all([
+    spicedb.readRelationships({ resourceType: "group", resourceId: fromId }),
+    spicedb.readRelationships({
+      resourceType: "group",
+      relation: CHILD_GROUP_RELATION,
+      subjectType: "group",
+      subjectId: fromId,
+    }),
+    spicedb.readRelationships({
+      resourceType: "memory_fragment",
+      relation: "source_group",
+      subjectType: "group",
+      subjectId: fromId,
+    }),
+  ]);
+  const moves: [RelationshipTuple, RelationshipTuple][] = [
+    ...own.map((t): [RelationshipTuple, RelationshipTuple] => [t, { ...t, resourceId: toId }]),
+    ...[...parentLinks, ...fragments].map((t): [RelationshipTuple, RelationshipTuple] => [t, { ...t, subjectId: toId }]),
+  ];
+
+  // Write the new tuples before deleting the old ones so access never lapses
+  for (let i = 0; i < moves.length; i += RENAME_BATCH_SIZE) {
+    const batch = moves.slice(i, i + RENAME_BATCH_SIZE);
+    await spicedb.writeRelationships(batch.map(([, next]) => next));
+    await spicedb.deleteRelationships(batch.map(([prev]) => prev));
+  }
+  return moves.length;
+}
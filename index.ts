@@ -17,21 +17,56 @@ import { readFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 
-import { graphitiMemoryConfigSchema } from "./config.js";
+import { graphitiMemoryConfigSchema, managedAgentIds } from "./config.js";
 import { GraphitiClient } from "./graphiti.js";
 import { SpiceDbClient } from "./spicedb.js";
 import {
   lookupAuthorizedGroups,
+  lookupViewableFragments,
+  lookupFragmentSourceGroups,
   writeFragmentRelationships,
+  deleteFragmentRelationships,
+  canDeleteFragment,
   canWriteToGroup,
   ensureGroupMembership,
+  enrollGroupMember,
+  syncAgentDelegation,
   type Subject,
+  type WriteContext,
 } from "./authorization.js";
 import {
   searchAuthorizedMemories,
   formatDualResults,
+  packDualResults,
   deduplicateSessionResults,
+  rankResults,
+  describeEntity,
+  formatEntityDetails,
+  type SearchResult,
 } from "./search.js";
+import { resolveSubject, subjectContextFrom } from "./subject.js";
+import { FragmentOutbox, processOutbox } from "./outbox.js";
+import { buildRecallQueries } from "./recall-query.js";
+import {
+  CAPTURE_EPISODE_PREFIX,
+  CAPTURE_HISTORY_WINDOW,
+  CaptureMarks,
+  formatCaptureBody,
+  selectCaptureMessages,
+} from "./capture.js";
+import { Redactor, describeRedaction, hasFindings, type RedactionOutcome } from "./redaction.js";
+import { formatPromoteOutcomes, promoteMemories, type PendingPromotion } from "./promote.js";
+import { EmptySessionGroups, gcSessionGroups, hasRetentionLimit } from "./retention.js";
+import {
+  formatSubject,
+  parseShareSubjects,
+  readFragmentAudiences,
+  shareMemory,
+  unshareMemory,
+  type ShareOutcome,
+} from "./share.js";
+import { describeGrant, listSubjectGroups } from "./groups.js";
+import { explainPermission, type Explanation, type ObjectRef } from "./explain.js";
 import { registerCommands } from "./cli.js";
 
 // ============================================================================
@@ -49,6 +84,49 @@ function isSessionGroup(groupId: string): boolean {
   return groupId.startsWith("session-");
 }
 
+/**
+ * State tracked per OpenClaw session. The gateway can host several agent runs
+ * concurrently, so nothing session-specific may live in plugin-global variables.
+ */
+type SessionState = {
+  /** Raw OpenClaw sessionKey (sanitized only when turned into a group ID) */
+  sessionKey: string;
+  /** ZedToken from this session's most recent SpiceDB write */
+  lastWriteToken?: string;
+  /** Times each session-group fact was recalled (autoPromote only) */
+  factRecalls?: Map<string, number>;
+  /** Fragment source groups from the last recall, valid while the ZedToken is unchanged */
+  fragmentGroups?: { subject: string; token?: string; fetchedAt: number; groups: string[] };
+};
+
+/**
+ * How long a session reuses its fragment source groups when no write has
+ * changed its ZedToken, so fragments shared by other sessions still appear.
+ */
+const FRAGMENT_GROUPS_TTL_MS = 60_000;
+
+/** Upper bound on tracked sessions; the least recently used is evicted first. */
+const MAX_TRACKED_SESSIONS = 1000;
+
+/** How often the service retries due outbox entries. */
+const OUTBOX_RETRY_INTERVAL_MS = 30_000;
+
+/** setInterval's maximum delay (~24.8 days); longer GC intervals are clamped. */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** Auto-recall candidates per scope; recallBudget decides how many are injected. */
+const RECALL_LONG_TERM_CANDIDATES = 10;
+const RECALL_SESSION_CANDIDATES = 5;
+
+/** schema.zed additions detected in an existing schema, oldest first. */
+const SCHEMA_FEATURES = [
+  { name: "group roles", marker: "permission manage" },
+  { name: "nested groups", marker: "relation child" },
+  { name: "agent delegation", marker: "relation delegate" },
+  { name: "conditional grants", marker: "caveat write_channel" },
+  { name: "fragment sharing", marker: "permission share" },
+];
+
 // ============================================================================
 // Plugin Definition
 // ============================================================================
@@ -75,6 +153,34 @@ const memoryGraphitiPlugin = {
     }
     const spicedb = new SpiceDbClient(cfg.spicedb);
 
+    // Deferred fragment writes are recorded here until their episode UUID
+    // resolves, so a restart or poll timeout doesn't orphan the episode
+    const outbox = new FragmentOutbox();
+
+    // Per-session auto-capture high-water marks (persisted across restarts)
+    const captureMarks = new CaptureMarks();
+
+    // When session GC first saw each group without episodes
+    const emptyGroups = new EmptySessionGroups();
+
+    // PII/secret redaction in front of every addEpisode call
+    const redactor = new Redactor(cfg.redaction);
+
+    /** Tool result for content that redaction kept from being stored. */
+    const redactionRejection = (groupId: string, outcome: RedactionOutcome) => ({
+      content: [
+        {
+          type: "text" as const,
+          text: `Not stored: the content contains sensitive data (${describeRedaction(outcome)}). Group "${groupId}" does not accept it — leave the sensitive values out and try again.`,
+        },
+      ],
+      details: { action: outcome.blocked ? "blocked" : "dropped", groupId, redacted: outcome.findings },
+    });
+
+    /** Suffix telling the agent what was masked before storing. */
+    const redactionNote = (outcome: RedactionOutcome) =>
+      hasFindings(outcome) ? `\nRedacted before storing: ${describeRedaction(outcome)}.` : "";
+
     // Catch unhandled rejections from @grpc/grpc-js internals during initial
     // connection setup. The gRPC load balancer state machine can emit promise
     // rejections that bypass our try/catch blocks and crash the process.
@@ -93,18 +199,195 @@ const memoryGraphitiPlugin = {
     }, 10_000);
     grpcGuardTimer.unref(); // Don't keep the process alive for this timer
 
-    const currentSubject: Subject = {
+    // Static subject from config — used by the CLI, startup membership, and
+    // whenever a hook/tool context carries nothing that resolves to a subject
+    const defaultSubject: Subject = {
       type: cfg.subjectType,
       id: cfg.subjectId,
     };
 
-    // Track current session ID — updated from hook event context
-    let currentSessionId: string | undefined;
+    // Resolve the subject a hook or tool call authorizes as (agent from
+    // ctx.agentId, person from the channel sender) per cfg.subjects
+    const subjectFor = (ctx: unknown): Subject => resolveSubject(cfg, subjectContextFrom(ctx));
+
+    // The channel a write comes from, checked against channel-restricted grants
+    const writeContextFor = (ctx: unknown): WriteContext => ({ channel: subjectContextFrom(ctx).channel });
+
+    // Per-session state keyed by sessionKey — populated from hook and tool contexts
+    const sessions = new Map<string, SessionState>();
+
+    const getSession = (sessionKey?: string): SessionState | undefined => {
+      if (!sessionKey) return undefined;
+      let state = sessions.get(sessionKey);
+      if (state) {
+        // Re-insert to mark as most recently used
+        sessions.delete(sessionKey);
+      } else {
+        state = { sessionKey };
+        if (sessions.size >= MAX_TRACKED_SESSIONS) {
+          const oldest = sessions.keys().next().value;
+          if (oldest !== undefined) sessions.delete(oldest);
+        }
+      }
+      sessions.set(sessionKey, state);
+      return state;
+    };
 
     // Track most recent ZedToken from SpiceDB writes for causal consistency.
     // Reads use at_least_as_fresh(token) after own writes, minimize_latency otherwise.
+    // Session writes are tracked on the session; this holds plugin-level writes
+    // made outside any session (e.g. default group membership on service start).
     let lastWriteToken: string | undefined;
 
+    const readToken = (session?: SessionState): string | undefined =>
+      session?.lastWriteToken ?? lastWriteToken;
+
+    const recordWrite = (session: SessionState | undefined, token: string | undefined) => {
+      if (!token) return;
+      if (session) session.lastWriteToken = token;
+      else lastWriteToken = token;
+    };
+
+    // With authorization.debug, re-run a denied check with tracing so the
+    // tool result's details explain the denial
+    const denialExplanation = async (
+      subject: Subject,
+      permission: string,
+      resource: ObjectRef,
+      session: SessionState | undefined,
+      writeContext: WriteContext = {},
+    ): Promise<{ explanation?: Explanation }> => {
+      if (!cfg.authorization.debug) return {};
+      const token = readToken(session);
+      try {
+        const explanation = await explainPermission(spicedb, subject, permission, resource, {
+          ...(writeContext.channel ? { context: { channel: writeContext.channel } } : {}),
+          ...(token ? { consistency: { mode: "at_least_as_fresh" as const, token } } : {}),
+        });
+        return { explanation };
+      } catch (err) {
+        api.logger.warn(`openclaw-memory-graphiti: failed to explain denied ${permission}: ${String(err)}`);
+        return {};
+      }
+    };
+
+    // Record the pending SpiceDB linkage for a freshly added episode, then
+    // write it as soon as Graphiti reports the real UUID. If resolution fails
+    // the entry stays in the outbox and the service retries it with backoff.
+    const deferFragmentWrite = async (
+      resolvedUuid: Promise<string>,
+      pending: { episodeName: string; groupId: string; contentHash?: string; sharedBy: Subject; involves?: Subject[] },
+      session: SessionState | undefined,
+      source: string,
+    ) => {
+      try {
+        await outbox.add(pending);
+      } catch (err) {
+        api.logger.warn(`openclaw-memory-graphiti: failed to record outbox entry (${source}): ${err}`);
+      }
+
+      resolvedUuid
+        .then(async (realUuid) => {
+          const writeToken = await writeFragmentRelationships(spicedb, {
+            fragmentId: realUuid,
+            groupId: pending.groupId,
+            sharedBy: pending.sharedBy,
+            involves: pending.involves,
+          });
+          recordWrite(session, writeToken);
+          await outbox.remove(pending);
+        })
+        .catch(async (err) => {
+          api.logger.warn(
+            `openclaw-memory-graphiti: deferred SpiceDB write failed for ${source}, queued for retry: ${err}`,
+          );
+          await outbox.markFailed(pending, err).catch(() => {});
+        });
+    };
+
+    // Derived agent subjects that already hold default group membership. They
+    // are enrolled on first use — as contributor, and only if they hold no
+    // role there yet — mirroring what service start does for the configured
+    // subject. Person subjects are never enrolled automatically.
+    const enrolledAgents = new Set<string>([`${defaultSubject.type}:${defaultSubject.id}`]);
+
+    const enrollAgent = async (subject: Subject, session?: SessionState) => {
+      const key = `${subject.type}:${subject.id}`;
+      if (subject.type !== "agent" || enrolledAgents.has(key)) return;
+      try {
+        const token = await enrollGroupMember(spicedb, cfg.graphiti.defaultGroupId, subject);
+        recordWrite(session, token);
+        enrolledAgents.add(key);
+      } catch {
+        api.logger.warn(`openclaw-memory-graphiti: failed to ensure default group membership for ${key}`);
+      }
+    };
+
+    // Fragment source groups scan every source_group tuple, so a session
+    // reuses them until its ZedToken changes or they age out
+    const cachedFragmentGroups = async (
+      subject: Subject,
+      session: SessionState | undefined,
+      zedToken: string | undefined,
+    ): Promise<string[]> => {
+      const key = `${subject.type}:${subject.id}`;
+      const cached = session?.fragmentGroups;
+      if (
+        cached &&
+        cached.subject === key &&
+        cached.token === zedToken &&
+        Date.now() - cached.fetchedAt < FRAGMENT_GROUPS_TTL_MS
+      ) {
+        return cached.groups;
+      }
+      const groups = await lookupFragmentSourceGroups(spicedb, subject, zedToken);
+      if (session) session.fragmentGroups = { subject: key, token: zedToken, fetchedAt: Date.now(), groups };
+      return groups;
+    };
+
+    // Resolve which groups a recall may search and, in fragment mode, which
+    // memory_fragments (episodes) the subject can view. Fragment mode widens
+    // the search to groups of fragments the subject is involved in, then
+    // post-filters results down to viewable fragments.
+    const lookupRecallScope = async (subject: Subject, session?: SessionState): Promise<{
+      groups: string[];
+      viewableFragments?: Set<string>;
+    }> => {
+      await enrollAgent(subject, session);
+      const zedToken = readToken(session);
+      const groups = await lookupAuthorizedGroups(spicedb, subject, zedToken);
+      if (cfg.authorization.mode !== "fragment") {
+        return { groups };
+      }
+      const [fragments, fragmentGroups] = await Promise.all([
+        lookupViewableFragments(spicedb, subject, zedToken),
+        cachedFragmentGroups(subject, session, zedToken),
+      ]);
+      return {
+        groups: [...new Set([...groups, ...fragmentGroups])],
+        viewableFragments: new Set(fragments),
+      };
+    };
+
+    // Count recalls of session-group facts for automatic promotion at session end
+    const noteSessionRecalls = (session: SessionState | undefined, results: SearchResult[]) => {
+      if (!cfg.autoPromote.enabled || !session) return;
+      session.factRecalls ??= new Map();
+      for (const r of results) {
+        if (r.type !== "fact" || !isSessionGroup(r.group_id)) continue;
+        session.factRecalls.set(r.uuid, (session.factRecalls.get(r.uuid) ?? 0) + 1);
+      }
+    };
+
+    const promoteDeps = (session: SessionState | undefined, source: string) => ({
+      graphiti,
+      spicedb,
+      redactor,
+      customInstructions: cfg.customInstructions,
+      queueFragmentWrite: (resolvedUuid: Promise<string>, pending: PendingPromotion) =>
+        deferFragmentWrite(resolvedUuid, pending, session, source),
+    });
+
     api.logger.info(
       `openclaw-memory-graphiti: registered (graphiti: ${cfg.graphiti.endpoint}, spicedb: ${cfg.spicedb.endpoint})`,
     );
@@ -114,7 +397,7 @@ const memoryGraphitiPlugin = {
     // ========================================================================
 
     api.registerTool(
-      {
+      (toolCtx) => ({
         name: "memory_recall",
         label: "Memory Recall",
         description:
@@ -148,8 +431,11 @@ const memoryGraphitiPlugin = {
             center_node_uuid?: string;
           };
 
-          // 1. Get authorized groups for current subject
-          const authorizedGroups = await lookupAuthorizedGroups(spicedb, currentSubject, lastWriteToken);
+          const session = getSession(toolCtx.sessionKey);
+          const subject = subjectFor(toolCtx);
+
+          // 1. Get authorized groups (and viewable fragments) for the calling subject
+          const { groups: authorizedGroups, viewableFragments } = await lookupRecallScope(subject, session);
 
           if (authorizedGroups.length === 0) {
             return {
@@ -166,8 +452,8 @@ const memoryGraphitiPlugin = {
             longTermGroups = [];
             sessionGroups = authorizedGroups.filter(isSessionGroup);
             // Also include current session if not in authorized groups
-            if (currentSessionId) {
-              const sg = sessionGroupId(currentSessionId);
+            if (session) {
+              const sg = sessionGroupId(session.sessionKey);
               if (!sessionGroups.includes(sg)) {
                 sessionGroups.push(sg);
               }
@@ -179,8 +465,8 @@ const memoryGraphitiPlugin = {
             // "all"
             longTermGroups = authorizedGroups.filter((g) => !isSessionGroup(g));
             sessionGroups = authorizedGroups.filter(isSessionGroup);
-            if (currentSessionId) {
-              const sg = sessionGroupId(currentSessionId);
+            if (session) {
+              const sg = sessionGroupId(session.sessionKey);
               if (!sessionGroups.includes(sg)) {
                 sessionGroups.push(sg);
               }
@@ -188,7 +474,12 @@ const memoryGraphitiPlugin = {
           }
 
           // 3. Parallel search across groups
-          const searchOpts = { entityTypes: entity_types, centerNodeUuid: center_node_uuid };
+          const searchOpts = {
+            entityTypes: entity_types,
+            centerNodeUuid: center_node_uuid,
+            ranking: cfg.ranking,
+            viewableFragments,
+          };
           const [longTermResults, rawSessionResults] = await Promise.all([
             longTermGroups.length > 0
               ? searchAuthorizedMemories(graphiti, { query, groupIds: longTermGroups, limit, ...searchOpts })
@@ -200,6 +491,7 @@ const memoryGraphitiPlugin = {
 
           // 4. Deduplicate session results against long-term
           const sessionResults = deduplicateSessionResults(longTermResults, rawSessionResults);
+          noteSessionRecalls(session, sessionResults);
 
           const totalCount = longTermResults.length + sessionResults.length;
           if (totalCount === 0) {
@@ -209,16 +501,39 @@ const memoryGraphitiPlugin = {
             };
           }
 
-          // 5. Format results with section separation
-          const text = formatDualResults(longTermResults, sessionResults);
+          // 5. Format results with section separation; each line names its
+          // group so results inherited through a parent group are explainable
+          const text = formatDualResults(longTermResults, sessionResults, undefined, { showGroups: true });
           const allResults = [...longTermResults, ...sessionResults];
-          const sanitized = allResults.map((r) => ({
-            type: r.type,
-            uuid: r.uuid,
-            group_id: r.group_id,
-            summary: r.summary,
-            context: r.context,
-          }));
+
+          // 6. Who each fact's source memories are individually shared with —
+          // in fragment mode only for memories the caller can view itself
+          let audiences = new Map<string, string[]>();
+          try {
+            audiences = await readFragmentAudiences(
+              spicedb,
+              allResults
+                .flatMap((r) => r.episodes ?? [])
+                .filter((ep) => !viewableFragments || viewableFragments.has(ep)),
+              readToken(session),
+            );
+          } catch (err) {
+            api.logger.warn(`openclaw-memory-graphiti: failed to read memory sharing: ${String(err)}`);
+          }
+
+          const sanitized = allResults.map((r) => {
+            const sharedWith = [...new Set((r.episodes ?? []).flatMap((ep) => audiences.get(ep) ?? []))];
+            return {
+              type: r.type,
+              uuid: r.uuid,
+              group_id: r.group_id,
+              summary: r.summary,
+              context: r.context,
+              score: r.score,
+              ...(r.episodes?.length ? { episodes: r.episodes } : {}),
+              ...(sharedWith.length ? { sharedWith } : {}),
+            };
+          });
 
           return {
             content: [{ type: "text", text: `Found ${totalCount} memories:\n\n${text}` }],
@@ -231,12 +546,12 @@ const memoryGraphitiPlugin = {
             },
           };
         },
-      },
+      }),
       { name: "memory_recall" },
     );
 
     api.registerTool(
-      {
+      (toolCtx) => ({
         name: "memory_store",
         label: "Memory Store",
         description:
@@ -282,13 +597,17 @@ const memoryGraphitiPlugin = {
             return trimmed;
           };
 
+          const session = getSession(toolCtx.sessionKey);
+          const subject = subjectFor(toolCtx);
+          await enrollAgent(subject, session);
+
           // Resolve target group: explicit > longTerm flag > default
           let targetGroupId: string;
           const sanitizedGroupId = sanitizeGroupId(group_id);
           if (sanitizedGroupId) {
             targetGroupId = sanitizedGroupId;
-          } else if (!longTerm && currentSessionId) {
-            targetGroupId = sessionGroupId(currentSessionId);
+          } else if (!longTerm && session) {
+            targetGroupId = sessionGroupId(session.sessionKey);
           } else {
             targetGroupId = cfg.graphiti.defaultGroupId;
           }
@@ -298,19 +617,22 @@ const memoryGraphitiPlugin = {
           // membership — prevents cross-agent session memory injection.
           const isOwnSession =
             isSessionGroup(targetGroupId) &&
-            currentSessionId != null &&
-            targetGroupId === sessionGroupId(currentSessionId);
+            session != null &&
+            targetGroupId === sessionGroupId(session.sessionKey);
 
           if (isOwnSession) {
             try {
-              const token = await ensureGroupMembership(spicedb, targetGroupId, currentSubject);
-              if (token) lastWriteToken = token;
+              const token = await ensureGroupMembership(spicedb, targetGroupId, subject, "owner");
+              recordWrite(session, token);
             } catch {
               api.logger.warn(`openclaw-memory-graphiti: failed to ensure membership in ${targetGroupId}`);
             }
           } else {
             // All other groups (non-session AND foreign session) require write permission
-            const allowed = await canWriteToGroup(spicedb, currentSubject, targetGroupId, lastWriteToken);
+            const writeContext = writeContextFor(toolCtx);
+            const allowed = await canWriteToGroup(
+              spicedb, subject, targetGroupId, readToken(session), writeContext,
+            );
             if (!allowed) {
               return {
                 content: [
@@ -319,54 +641,62 @@ const memoryGraphitiPlugin = {
                     text: `Permission denied: cannot write to group "${targetGroupId}"`,
                   },
                 ],
-                details: { action: "denied", groupId: targetGroupId },
+                details: {
+                  action: "denied",
+                  groupId: targetGroupId,
+                  ...(await denialExplanation(
+                    subject, "contribute", { type: "group", id: targetGroupId }, session, writeContext,
+                  )),
+                },
               };
             }
           }
 
-          // 1. Add episode to Graphiti
+          // 1. Redact PII/secrets per the target group's policy
+          const redaction = redactor.redact(targetGroupId, [content]);
+          if (redaction.messages.length === 0) {
+            return redactionRejection(targetGroupId, redaction);
+          }
+          const episodeBody = redaction.messages[0];
+
+          // 2. Add episode to Graphiti
           // Generate unique episode name to avoid collisions
           const episodeName = `memory_${randomUUID()}`;
           const result = await graphiti.addEpisode({
             name: episodeName,
-            episode_body: content,
+            episode_body: episodeBody,
             source_description,
             group_id: targetGroupId,
             custom_extraction_instructions: cfg.customInstructions,
           });
 
-          // 2. Write authorization relationships in SpiceDB (background)
+          // 3. Write authorization relationships in SpiceDB (background)
           const involvedSubjects: Subject[] = involves.map((id) => ({
             type: "person" as const,
             id,
           }));
 
-          // Chain UUID resolution → SpiceDB write in the background.
           // Graphiti processes episodes asynchronously, so the real UUID
           // isn't available immediately. Once resolved, write SpiceDB
           // relationships so authorization checks work for this fragment.
-          result.resolvedUuid
-            .then(async (realUuid) => {
-              const writeToken = await writeFragmentRelationships(spicedb, {
-                fragmentId: realUuid,
-                groupId: targetGroupId,
-                sharedBy: currentSubject,
-                involves: involvedSubjects,
-              });
-              if (writeToken) lastWriteToken = writeToken;
-              return realUuid;
-            })
-            .catch((err) => {
-              api.logger.warn(
-                `openclaw-memory-graphiti: deferred SpiceDB write failed for memory_store: ${err}`,
-              );
-            });
+          await deferFragmentWrite(
+            result.resolvedUuid,
+            {
+              episodeName,
+              groupId: targetGroupId,
+              contentHash: result.contentHash,
+              sharedBy: subject,
+              involves: involvedSubjects,
+            },
+            session,
+            "memory_store",
+          );
 
           return {
             content: [
               {
                 type: "text",
-                text: `Stored memory in group "${targetGroupId}": "${content.slice(0, 100)}..."`,
+                text: `Stored memory in group "${targetGroupId}": "${episodeBody.slice(0, 100)}..."${redactionNote(redaction)}`,
               },
             ],
             details: {
@@ -375,45 +705,37 @@ const memoryGraphitiPlugin = {
               groupId: targetGroupId,
               longTerm,
               involves,
+              ...(hasFindings(redaction) ? { redacted: redaction.findings } : {}),
             },
           };
         },
-      },
+      }),
       { name: "memory_store" },
     );
 
     api.registerTool(
-      {
+      (toolCtx) => ({
         name: "memory_forget",
         label: "Memory Forget",
         description:
-          "Delete a fact from the knowledge graph by ID. Use the type-prefixed IDs from memory_recall (e.g. 'fact:UUID'). Entities cannot be deleted directly — delete the facts connected to them instead.",
+          "Delete a fact or an episode from the knowledge graph by ID. Use the type-prefixed IDs from memory_recall: 'fact:UUID' removes one fact; 'episode:UUID' retracts a whole stored memory (only the subject who stored it may do so). Entities cannot be deleted directly — delete the facts connected to them instead.",
         parameters: Type.Object({
-          id: Type.String({ description: "Fact ID to delete (e.g. 'fact:da8650cb-...')" }),
+          id: Type.String({ description: "Fact or episode ID to delete (e.g. 'fact:da8650cb-...' or 'episode:5f2c...')" }),
         }),
         async execute(_toolCallId, params) {
           const { id } = params as { id: string };
 
           // Parse type prefix from ID (e.g. "fact:da8650cb-..." → type="fact", uuid="da8650cb-...")
           const colonIdx = id.indexOf(":");
-          let idType: "fact" | "entity" | "episode";
-          let uuid: string;
+          let idType: "fact" | "entity" | "episode" | "unknown" = "unknown";
+          let uuid = id;
 
           if (colonIdx > 0 && colonIdx < 10) {
             const prefix = id.slice(0, colonIdx);
-            uuid = id.slice(colonIdx + 1);
-            if (prefix === "fact") {
-              idType = "fact";
-            } else if (prefix === "entity") {
-              idType = "entity";
-            } else {
-              // Unknown prefix — treat as bare episode UUID
-              idType = "episode";
-              uuid = id;
+            if (prefix === "fact" || prefix === "entity" || prefix === "episode") {
+              idType = prefix;
+              uuid = id.slice(colonIdx + 1);
             }
-          } else {
-            idType = "episode";
-            uuid = id;
           }
 
           // --- Entity: not deletable via MCP server ---
@@ -440,11 +762,22 @@ const memoryGraphitiPlugin = {
             // but SpiceDB ObjectIds require at least one character. Map empty to the
             // configured default so the permission check doesn't fail with INVALID_ARGUMENT.
             const effectiveGroupId = fact.group_id || cfg.graphiti.defaultGroupId;
-            const allowed = await canWriteToGroup(spicedb, currentSubject, effectiveGroupId, lastWriteToken);
+            const session = getSession(toolCtx.sessionKey);
+            const subject = subjectFor(toolCtx);
+            const writeContext = writeContextFor(toolCtx);
+            const allowed = await canWriteToGroup(
+              spicedb, subject, effectiveGroupId, readToken(session), writeContext,
+            );
             if (!allowed) {
               return {
                 content: [{ type: "text", text: `Permission denied: cannot delete fact in group "${effectiveGroupId}"` }],
-                details: { action: "denied", id },
+                details: {
+                  action: "denied",
+                  id,
+                  ...(await denialExplanation(
+                    subject, "contribute", { type: "group", id: effectiveGroupId }, session, writeContext,
+                  )),
+                },
               };
             }
 
@@ -456,24 +789,430 @@ const memoryGraphitiPlugin = {
             };
           }
 
-          // --- Bare UUID / episode: not supported via agent tool ---
-          // Episode deletion is an admin operation available via CLI (graphiti-mem cleanup).
+          // --- Episode deletion: gated on memory_fragment#delete (= shared_by) ---
+          if (idType === "episode") {
+            const session = getSession(toolCtx.sessionKey);
+            const subject = subjectFor(toolCtx);
+            const allowed = await canDeleteFragment(spicedb, subject, uuid, readToken(session));
+            if (!allowed) {
+              return {
+                content: [{ type: "text", text: `Permission denied: only the subject who stored episode ${uuid} can delete it` }],
+                details: {
+                  action: "denied",
+                  id,
+                  ...(await denialExplanation(subject, "delete", { type: "memory_fragment", id: uuid }, session)),
+                },
+              };
+            }
+
+            try {
+              await graphiti.deleteEpisode(uuid);
+            } catch (err) {
+              return {
+                content: [{ type: "text", text: `Failed to delete episode ${uuid}: ${String(err)}` }],
+                details: { action: "error", id },
+              };
+            }
+
+            // Remove the fragment's tuples last — if this fails the episode is
+            // already gone and the dangling tuples grant access to nothing
+            try {
+              recordWrite(session, await deleteFragmentRelationships(spicedb, uuid));
+            } catch (err) {
+              api.logger.warn(
+                `openclaw-memory-graphiti: deleted episode ${uuid} but failed to remove its SpiceDB relationships: ${String(err)}`,
+              );
+            }
+
+            return {
+              content: [{ type: "text", text: `Episode forgotten.` }],
+              details: { action: "deleted", id, type: "episode" },
+            };
+          }
+
+          // --- Bare UUID / unknown prefix ---
           return {
-            content: [{ type: "text", text: `Unrecognized ID format "${id}". Use IDs from memory_recall (e.g. 'fact:da8650cb-...'). Episode deletion is available via the CLI.` }],
+            content: [{ type: "text", text: `Unrecognized ID format "${id}". Use IDs from memory_recall (e.g. 'fact:da8650cb-...' or 'episode:5f2c...').` }],
             details: { action: "error", id },
           };
         },
-      },
+      }),
       { name: "memory_forget" },
     );
 
     api.registerTool(
-      {
+      (toolCtx) => ({
+        name: "memory_update",
+        label: "Memory Update",
+        description:
+          "Correct an existing fact. Takes a fact ID from memory_recall (e.g. 'fact:UUID') and the corrected information; the old fact is removed and the correction is stored in the same group.",
+        parameters: Type.Object({
+          id: Type.String({ description: "Fact ID to correct (e.g. 'fact:da8650cb-...')" }),
+          content: Type.String({ description: "Corrected information that replaces the fact" }),
+          involves: Type.Optional(
+            Type.Array(Type.String(), { description: "Person/agent IDs involved in the corrected memory" }),
+          ),
+        }),
+        async execute(_toolCallId, params) {
+          const { id, content, involves = [] } = params as {
+            id: string;
+            content: string;
+            involves?: string[];
+          };
+
+          if (!id.startsWith("fact:")) {
+            return {
+              content: [{ type: "text", text: `Only facts can be updated. Use a fact ID from memory_recall (e.g. 'fact:da8650cb-...').` }],
+              details: { action: "error", id },
+            };
+          }
+          const uuid = id.slice("fact:".length);
+
+          let fact: Awaited<ReturnType<typeof graphiti.getEntityEdge>>;
+          try {
+            fact = await graphiti.getEntityEdge(uuid);
+          } catch {
+            return {
+              content: [{ type: "text", text: `Fact ${uuid} not found.` }],
+              details: { action: "not_found", id },
+            };
+          }
+
+          // Same empty-group mapping as memory_forget
+          const effectiveGroupId = fact.group_id || cfg.graphiti.defaultGroupId;
+          const session = getSession(toolCtx.sessionKey);
+          const subject = subjectFor(toolCtx);
+          const writeContext = writeContextFor(toolCtx);
+          const allowed = await canWriteToGroup(
+            spicedb, subject, effectiveGroupId, readToken(session), writeContext,
+          );
+          if (!allowed) {
+            return {
+              content: [{ type: "text", text: `Permission denied: cannot update fact in group "${effectiveGroupId}"` }],
+              details: {
+                action: "denied",
+                id,
+                groupId: effectiveGroupId,
+                ...(await denialExplanation(
+                  subject, "contribute", { type: "group", id: effectiveGroupId }, session, writeContext,
+                )),
+              },
+            };
+          }
+
+          const redaction = redactor.redact(effectiveGroupId, [content]);
+          if (redaction.messages.length === 0) {
+            return redactionRejection(effectiveGroupId, redaction);
+          }
+          const correction = redaction.messages[0];
+
+          // Store the correction before removing the old fact, so a failed
+          // store never leaves the graph with neither version
+          const episodeName = `correction_${randomUUID()}`;
+          const result = await graphiti.addEpisode({
+            name: episodeName,
+            episode_body: correction,
+            source_description: `correction of fact ${uuid}`,
+            group_id: effectiveGroupId,
+            custom_extraction_instructions: cfg.customInstructions,
+          });
+
+          await deferFragmentWrite(
+            result.resolvedUuid,
+            {
+              episodeName,
+              groupId: effectiveGroupId,
+              contentHash: result.contentHash,
+              sharedBy: subject,
+              involves: involves.map((personId) => ({ type: "person" as const, id: personId })),
+            },
+            session,
+            "memory_update",
+          );
+
+          try {
+            await graphiti.deleteEntityEdge(uuid);
+          } catch (err) {
+            api.logger.warn(`openclaw-memory-graphiti: failed to delete replaced fact ${uuid}: ${String(err)}`);
+            return {
+              content: [{ type: "text", text: `Stored the correction, but the old fact could not be removed: ${String(err)}` }],
+              details: { action: "partial", id, episodeId: result.episode_uuid, groupId: effectiveGroupId },
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Updated fact in group "${effectiveGroupId}": "${fact.fact}" → "${correction.slice(0, 100)}"${redactionNote(redaction)}`,
+              },
+            ],
+            details: {
+              action: "updated",
+              id,
+              replacedFact: fact.fact,
+              episodeId: result.episode_uuid,
+              groupId: effectiveGroupId,
+              ...(hasFindings(redaction) ? { redacted: redaction.findings } : {}),
+            },
+          };
+        },
+      }),
+      { name: "memory_update" },
+    );
+
+    api.registerTool(
+      (toolCtx) => ({
+        name: "memory_entity",
+        label: "Memory Entity",
+        description:
+          "Inspect an entity from memory_recall (e.g. 'entity:UUID'): its summary, type labels and attributes, plus the facts connected to it grouped by relationship. Use for questions like 'what do you know about Eric?'.",
+        parameters: Type.Object({
+          id: Type.String({ description: "Entity ID from memory_recall (e.g. 'entity:da8650cb-...')" }),
+          name: Type.Optional(
+            Type.String({ description: "Entity name as shown by memory_recall (improves lookup)" }),
+          ),
+        }),
+        async execute(_toolCallId, params) {
+          const { id, name } = params as { id: string; name?: string };
+
+          if (id.includes(":") && !id.startsWith("entity:")) {
+            return {
+              content: [{ type: "text", text: `"${id}" is not an entity ID. Use an entity ID from memory_recall (e.g. 'entity:da8650cb-...').` }],
+              details: { action: "error", id },
+            };
+          }
+          const uuid = id.startsWith("entity:") ? id.slice("entity:".length) : id;
+
+          const session = getSession(toolCtx.sessionKey);
+          const { groups: authorizedGroups, viewableFragments } = await lookupRecallScope(subjectFor(toolCtx), session);
+
+          if (authorizedGroups.length === 0) {
+            return {
+              content: [{ type: "text", text: "No accessible memory groups found." }],
+              details: { action: "not_found", id, authorizedGroups: [] },
+            };
+          }
+
+          const entity = await describeEntity(graphiti, {
+            entityUuid: uuid,
+            name,
+            groupIds: authorizedGroups,
+            viewableFragments,
+          });
+
+          if (!entity) {
+            return {
+              content: [{ type: "text", text: `Entity ${uuid} not found in your accessible memory.` }],
+              details: { action: "not_found", id, authorizedGroups },
+            };
+          }
+
+          return {
+            content: [{ type: "text", text: formatEntityDetails(entity) }],
+            details: { action: "found", entity, authorizedGroups },
+          };
+        },
+      }),
+      { name: "memory_entity" },
+    );
+
+    api.registerTool(
+      (toolCtx) => ({
+        name: "memory_promote",
+        label: "Memory Promote",
+        description:
+          "Keep session memories beyond this session. Takes fact or episode IDs from memory_recall that belong to a session group (e.g. 'fact:UUID', 'episode:UUID') and copies their content into a long-term group.",
+        parameters: Type.Object({
+          ids: Type.Array(Type.String(), {
+            description: "Session fact/episode IDs to promote (e.g. ['fact:da8650cb-...'])",
+          }),
+          group_id: Type.Optional(
+            Type.String({ description: "Long-term target group (optional, uses your default group if omitted)" }),
+          ),
+        }),
+        async execute(_toolCallId, params) {
+          const { ids, group_id } = params as { ids: string[]; group_id?: string };
+          const targetGroupId = group_id?.trim() || cfg.graphiti.defaultGroupId;
+
+          if (ids.length === 0) {
+            return {
+              content: [{ type: "text", text: "No IDs given. Pass session fact or episode IDs from memory_recall." }],
+              details: { action: "error", targetGroupId, results: [] },
+            };
+          }
+
+          const session = getSession(toolCtx.sessionKey);
+          const subject = subjectFor(toolCtx);
+          await enrollAgent(subject, session);
+
+          const results = await promoteMemories(promoteDeps(session, "memory_promote"), {
+            ids,
+            targetGroupId,
+            subject,
+            zedToken: readToken(session),
+            writeContext: writeContextFor(toolCtx),
+          });
+          const promoted = results.filter((r) => r.status === "promoted").length;
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Promoted ${promoted} of ${ids.length} to group "${targetGroupId}":\n${formatPromoteOutcomes(results)}`,
+              },
+            ],
+            details: { action: promoted > 0 ? "promoted" : "none", targetGroupId, results },
+          };
+        },
+      }),
+      { name: "memory_promote" },
+    );
+
+    /** Tool result for a share or unshare outcome. */
+    const shareResult = (id: string, outcome: ShareOutcome, expiresAt?: Date) => {
+      const who = outcome.subjects.map(formatSubject).join(", ");
+      const text =
+        outcome.action === "shared"
+          ? `Shared episode ${outcome.fragmentId} with ${who}${expiresAt ? ` until ${expiresAt.toISOString()}` : ""}.`
+          : outcome.action === "unshared"
+            ? `Stopped sharing episode ${outcome.fragmentId} with ${who}.`
+            : outcome.action === "denied"
+              ? `Permission denied: ${outcome.message}`
+              : `Not shared: ${outcome.message}`;
+      return {
+        content: [{ type: "text" as const, text }],
+        details: {
+          action: outcome.action,
+          id,
+          fragmentId: outcome.fragmentId,
+          subjects: outcome.subjects.map(formatSubject),
+          ...(expiresAt && outcome.action === "shared" ? { expiresAt: expiresAt.toISOString() } : {}),
+        },
+      };
+    };
+
+    api.registerTool(
+      (toolCtx) => ({
+        name: "memory_share",
+        label: "Memory Share",
+        description:
+          "Share one memory you stored with specific people or agents, without giving them access to its whole group. Takes an 'episode:UUID' from memory_recall.",
+        parameters: Type.Object({
+          id: Type.String({ description: "Episode ID of a memory you stored (e.g. 'episode:5f2c...')" }),
+          with: Type.Array(Type.String(), {
+            description: "Person IDs to share with; prefix agents with 'agent:' (e.g. ['mark', 'agent:pi'])",
+          }),
+          until: Type.Optional(
+            Type.String({ description: "Share only until this date/time (ISO 8601, optional)" }),
+          ),
+        }),
+        async execute(_toolCallId, params) {
+          const { id, with: withIds, until } = params as { id: string; with: string[]; until?: string };
+
+          const subjects = parseShareSubjects(withIds);
+          if (typeof subjects === "string") {
+            return shareResult(id, { action: "error", subjects: [], message: subjects });
+          }
+          let expiresAt: Date | undefined;
+          if (until !== undefined) {
+            expiresAt = new Date(until);
+            if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+              return shareResult(id, { action: "error", subjects, message: `"until" must be a future date, got "${until}"` });
+            }
+          }
+
+          const session = getSession(toolCtx.sessionKey);
+          const outcome = await shareMemory(spicedb, {
+            id,
+            subjects,
+            subject: subjectFor(toolCtx),
+            zedToken: readToken(session),
+            expiresAt,
+          });
+          recordWrite(session, outcome.token);
+          return shareResult(id, outcome, expiresAt);
+        },
+      }),
+      { name: "memory_share" },
+    );
+
+    api.registerTool(
+      (toolCtx) => ({
+        name: "memory_unshare",
+        label: "Memory Unshare",
+        description:
+          "Stop sharing one memory you stored with specific people or agents (undoes memory_share, and removes people it was stored as involving). Access through the memory's group is unaffected.",
+        parameters: Type.Object({
+          id: Type.String({ description: "Episode ID of a memory you stored (e.g. 'episode:5f2c...')" }),
+          with: Type.Array(Type.String(), {
+            description: "Person IDs to stop sharing with; prefix agents with 'agent:'",
+          }),
+        }),
+        async execute(_toolCallId, params) {
+          const { id, with: withIds } = params as { id: string; with: string[] };
+
+          const subjects = parseShareSubjects(withIds);
+          if (typeof subjects === "string") {
+            return shareResult(id, { action: "error", subjects: [], message: subjects });
+          }
+
+          const session = getSession(toolCtx.sessionKey);
+          const outcome = await unshareMemory(spicedb, {
+            id,
+            subjects,
+            subject: subjectFor(toolCtx),
+            zedToken: readToken(session),
+          });
+          recordWrite(session, outcome.token);
+          return shareResult(id, outcome);
+        },
+      }),
+      { name: "memory_unshare" },
+    );
+
+    api.registerTool(
+      (toolCtx) => ({
+        name: "memory_groups",
+        label: "Memory Groups",
+        description:
+          "List the memory groups you can read, with your role in each (owner, admin, contributor, viewer; 'inherited' when access comes through a child group or your owner). Use it to pick a group_id for memory_store.",
+        parameters: Type.Object({}),
+        async execute() {
+          const subject = subjectFor(toolCtx);
+          const session = getSession(toolCtx.sessionKey);
+          const groups = await listSubjectGroups(spicedb, subject, readToken(session));
+
+          const text =
+            groups.length === 0
+              ? "You have no memory groups."
+              : `Your memory groups:\n${groups.map((g) => `- ${g.groupId} (${describeGrant(g)})`).join("\n")}`;
+
+          return {
+            content: [{ type: "text", text }],
+            details: {
+              subject: `${subject.type}:${subject.id}`,
+              groups: groups.map((g) => ({
+                groupId: g.groupId,
+                role: g.role ?? "inherited",
+                ...(g.expiresAt ? { expiresAt: g.expiresAt.toISOString() } : {}),
+                ...(g.channels ? { channels: g.channels } : {}),
+              })),
+            },
+          };
+        },
+      }),
+      { name: "memory_groups" },
+    );
+
+    api.registerTool(
+      (toolCtx) => ({
         name: "memory_status",
         label: "Memory Status",
         description: "Check the health of the Graphiti and SpiceDB services.",
         parameters: Type.Object({}),
         async execute() {
+          const subject = subjectFor(toolCtx);
           const graphitiHealthy = await graphiti.healthCheck();
 
           let spicedbHealthy = false;
@@ -489,13 +1228,17 @@ const memoryGraphitiPlugin = {
             spicedb: spicedbHealthy ? "connected" : "unreachable",
             endpoint_graphiti: cfg.graphiti.endpoint,
             endpoint_spicedb: cfg.spicedb.endpoint,
-            currentSessionId: currentSessionId ?? "none",
+            currentSessionId: toolCtx.sessionKey ?? "none",
+            subject: `${subject.type}:${subject.id}`,
+            pendingFragmentWrites: outbox.size,
           };
 
           const statusText = [
             `Graphiti MCP: ${status.graphiti} (${status.endpoint_graphiti})`,
             `SpiceDB: ${status.spicedb} (${status.endpoint_spicedb})`,
             `Session: ${status.currentSessionId}`,
+            `Subject: ${status.subject}`,
+            `Pending fragment writes: ${status.pendingFragmentWrites}`,
           ].join("\n");
 
           return {
@@ -503,7 +1246,7 @@ const memoryGraphitiPlugin = {
             details: status,
           };
         },
-      },
+      }),
       { name: "memory_status" },
     );
 
@@ -520,8 +1263,9 @@ const memoryGraphitiPlugin = {
           graphiti,
           spicedb,
           cfg,
-          currentSubject,
+          currentSubject: defaultSubject,
           getLastWriteToken: () => lastWriteToken,
+          outbox,
         });
       },
       { commands: ["graphiti-mem"] },
@@ -533,17 +1277,15 @@ const memoryGraphitiPlugin = {
 
     if (cfg.autoRecall) {
       api.on("before_agent_start", async (event, ctx) => {
-        // Track session ID from hook context
-        if (ctx?.sessionKey) {
-          currentSessionId = ctx.sessionKey;
-        }
+        const session = getSession(ctx?.sessionKey);
+        const subject = subjectFor(ctx);
 
         if (!event.prompt || event.prompt.length < 5) {
           return;
         }
 
         try {
-          const authorizedGroups = await lookupAuthorizedGroups(spicedb, currentSubject, lastWriteToken);
+          const { groups: authorizedGroups, viewableFragments } = await lookupRecallScope(subject, session);
           if (authorizedGroups.length === 0) {
             return;
           }
@@ -553,32 +1295,45 @@ const memoryGraphitiPlugin = {
           const sessionGroups = authorizedGroups.filter(isSessionGroup);
 
           // Include current session group if known
-          if (currentSessionId) {
-            const sg = sessionGroupId(currentSessionId);
+          if (session) {
+            const sg = sessionGroupId(session.sessionKey);
             if (!sessionGroups.includes(sg)) {
               sessionGroups.push(sg);
             }
           }
 
+          // Build the query from the prompt and recent turns (follow-ups,
+          // multi-topic prompts); each sub-query is searched and the lists fused
+          const plan = buildRecallQueries(event.prompt, event.messages);
+          api.logger.info?.(
+            `openclaw-memory-graphiti: recall queries ${JSON.stringify(plan.queries)}` +
+              (plan.expandedWith.length > 0 ? ` (expanded with ${plan.expandedWith.join(", ")})` : ""),
+          );
+
+          const searchScope = async (groupIds: string[], limit: number) => {
+            if (groupIds.length === 0) return [];
+            const lists = await Promise.all(
+              plan.queries.map((query) =>
+                searchAuthorizedMemories(graphiti, {
+                  query,
+                  groupIds,
+                  limit,
+                  ranking: cfg.ranking,
+                  viewableFragments,
+                }),
+              ),
+            );
+            return lists.length === 1 ? lists[0] : rankResults(lists, cfg.ranking).slice(0, limit);
+          };
+
           // Dual search: long-term + session in parallel
           const [longTermResults, rawSessionResults] = await Promise.all([
-            longTermGroups.length > 0
-              ? searchAuthorizedMemories(graphiti, {
-                  query: event.prompt,
-                  groupIds: longTermGroups,
-                  limit: 5,
-                })
-              : Promise.resolve([]),
-            sessionGroups.length > 0
-              ? searchAuthorizedMemories(graphiti, {
-                  query: event.prompt,
-                  groupIds: sessionGroups,
-                  limit: 3,
-                })
-              : Promise.resolve([]),
+            searchScope(longTermGroups, RECALL_LONG_TERM_CANDIDATES),
+            searchScope(sessionGroups, RECALL_SESSION_CANDIDATES),
           ]);
 
           const sessionResults = deduplicateSessionResults(longTermResults, rawSessionResults);
+          noteSessionRecalls(session, sessionResults);
 
           const totalCount = longTermResults.length + sessionResults.length;
 
@@ -593,9 +1348,10 @@ const memoryGraphitiPlugin = {
             return { prependContext: toolHint };
           }
 
-          const memoryContext = formatDualResults(longTermResults, sessionResults);
+          const packed = packDualResults(longTermResults, sessionResults, cfg.recallBudget);
+          const memoryContext = packed.text;
           api.logger.info?.(
-            `openclaw-memory-graphiti: injecting ${totalCount} memories (${longTermResults.length} long-term, ${sessionResults.length} session)`,
+            `openclaw-memory-graphiti: injecting ${packed.included} of ${totalCount} memories (${longTermResults.length} long-term, ${sessionResults.length} session candidates; ${packed.omitted} omitted by budget)`,
           );
 
           return {
@@ -609,96 +1365,92 @@ const memoryGraphitiPlugin = {
 
     if (cfg.autoCapture) {
       api.on("agent_end", async (event, ctx) => {
-        // Track session ID from hook context
-        if (ctx?.sessionKey) {
-          currentSessionId = ctx.sessionKey;
-        }
+        const session = getSession(ctx?.sessionKey);
+        const subject = subjectFor(ctx);
 
         if (!event.success || !event.messages || event.messages.length === 0) {
           return;
         }
 
         try {
-          // Collect last N messages (user + assistant only), skip injected context
-          const maxMessages = cfg.maxCaptureMessages;
-          const conversationLines: string[] = [];
-          let messageCount = 0;
-
-          // Process messages in reverse to get the most recent ones
-          const messages = [...event.messages].reverse();
-
-          for (const msg of messages) {
-            if (messageCount >= maxMessages) break;
-            if (!msg || typeof msg !== "object") continue;
-
-            const msgObj = msg as Record<string, unknown>;
-            const role = msgObj.role;
-            if (role !== "user" && role !== "assistant") continue;
-
-            // Extract text content
-            let text = "";
-            const content = msgObj.content;
-            if (typeof content === "string") {
-              text = content;
-            } else if (Array.isArray(content)) {
-              const textParts: string[] = [];
-              for (const block of content) {
-                if (
-                  block &&
-                  typeof block === "object" &&
-                  "type" in block &&
-                  (block as Record<string, unknown>).type === "text" &&
-                  "text" in block &&
-                  typeof (block as Record<string, unknown>).text === "string"
-                ) {
-                  textParts.push((block as Record<string, unknown>).text as string);
-                }
-              }
-              text = textParts.join("\n");
-            }
-
-            // Skip injected context and very short messages
-            if (!text || text.length < 5) continue;
-            if (text.includes("<relevant-memories>")) continue;
+          // Only send messages after this session's high-water mark
+          const markKey = session?.sessionKey;
+          const mark = markKey ? await captureMarks.get(markKey) : undefined;
+          const selection = selectCaptureMessages(event.messages, mark, {
+            maxMessages: cfg.maxCaptureMessages,
+            overlap: cfg.captureOverlap,
+          });
 
-            const roleLabel = role === "user" ? "User" : "Assistant";
-            conversationLines.unshift(`${roleLabel}: ${text}`);
-            messageCount++;
+          if (selection.fresh.length === 0) return;
+
+          // No mark, but the session was captured before (the mark expired or
+          // was lost): the selection would re-send turns Graphiti already has,
+          // so restart the mark here and capture from the next turn
+          if (markKey && !mark) {
+            const recent = await graphiti.getEpisodes(sessionGroupId(markKey), CAPTURE_HISTORY_WINDOW);
+            if (recent.some((ep) => ep.name.startsWith(CAPTURE_EPISODE_PREFIX))) {
+              await captureMarks.set(markKey, selection.fresh[selection.fresh.length - 1]);
+              api.logger.info?.(
+                `openclaw-memory-graphiti: no capture mark for ${markKey}, but it was captured before — resuming from the latest message`,
+              );
+              return;
+            }
           }
 
-          if (conversationLines.length === 0) return;
-
-          // Send as a single batch episode to Graphiti
-          const episodeBody = conversationLines.join("\n");
+          await enrollAgent(subject, session);
 
           // Store to session group by default (if session is known), otherwise default group
-          const targetGroupId = currentSessionId
-            ? sessionGroupId(currentSessionId)
+          const targetGroupId = session
+            ? sessionGroupId(session.sessionKey)
             : cfg.graphiti.defaultGroupId;
 
           // Only auto-create membership for the agent's own current session
           const isOwnSession =
             isSessionGroup(targetGroupId) &&
-            currentSessionId != null &&
-            targetGroupId === sessionGroupId(currentSessionId);
+            session != null &&
+            targetGroupId === sessionGroupId(session.sessionKey);
 
           if (isOwnSession) {
             try {
-              const token = await ensureGroupMembership(spicedb, targetGroupId, currentSubject);
-              if (token) lastWriteToken = token;
+              const token = await ensureGroupMembership(spicedb, targetGroupId, subject, "owner");
+              recordWrite(session, token);
             } catch {
               // Best-effort
             }
           } else {
-            const allowed = await canWriteToGroup(spicedb, currentSubject, targetGroupId, lastWriteToken);
+            const allowed = await canWriteToGroup(
+              spicedb, subject, targetGroupId, readToken(session), writeContextFor(ctx),
+            );
             if (!allowed) {
               api.logger.warn(`openclaw-memory-graphiti: auto-capture denied for group ${targetGroupId}`);
               return;
             }
           }
 
+          // Redact PII/secrets message by message per the group's policy
+          const captured = [...selection.overlap, ...selection.fresh];
+          const redaction = redactor.redact(targetGroupId, captured.map((m) => m.text));
+          const redactedText = new Map(redaction.kept.map((inputIdx, i) => [captured[inputIdx], redaction.messages[i]]));
+          const redactedSelection = {
+            overlap: selection.overlap.filter((m) => redactedText.has(m)).map((m) => ({ ...m, text: redactedText.get(m)! })),
+            fresh: selection.fresh.filter((m) => redactedText.has(m)).map((m) => ({ ...m, text: redactedText.get(m)! })),
+          };
+          if (hasFindings(redaction)) {
+            api.logger.warn(
+              `openclaw-memory-graphiti: auto-capture redaction in ${targetGroupId}: ${describeRedaction(redaction)}`,
+            );
+          }
+          if (redactedSelection.fresh.length === 0) {
+            // Deliberately not stored — don't retry these messages next turn
+            if (markKey) await captureMarks.set(markKey, selection.fresh[selection.fresh.length - 1]);
+            return;
+          }
+
+          // Send as a single batch episode to Graphiti
+          const episodeBody = formatCaptureBody(redactedSelection);
+
           // Generate unique episode name to avoid collisions
-          const episodeName = `auto_capture_${randomUUID()}`;
+          const episodeName = `${CAPTURE_EPISODE_PREFIX}${randomUUID()}`;
           const result = await graphiti.addEpisode({
             name: episodeName,
             episode_body: episodeBody,
@@ -707,24 +1459,21 @@ const memoryGraphitiPlugin = {
             custom_extraction_instructions: cfg.customInstructions,
           });
 
+          if (markKey) {
+            await captureMarks.set(markKey, selection.fresh[selection.fresh.length - 1]);
+          }
+
           // SpiceDB writes use the real UUID once Graphiti finishes processing
-          result.resolvedUuid
-            .then(async (realUuid) => {
-              const writeToken = await writeFragmentRelationships(spicedb, {
-                fragmentId: realUuid,
-                groupId: targetGroupId,
-                sharedBy: currentSubject,
-              });
-              if (writeToken) lastWriteToken = writeToken;
-            })
-            .catch((err) => {
-              api.logger.warn(
-                `openclaw-memory-graphiti: deferred SpiceDB write (auto-capture) failed: ${err}`,
-              );
-            });
+          await deferFragmentWrite(
+            result.resolvedUuid,
+            { episodeName, groupId: targetGroupId, contentHash: result.contentHash, sharedBy: subject },
+            session,
+            "auto-capture",
+          );
 
           api.logger.info(
-            `openclaw-memory-graphiti: auto-captured ${conversationLines.length} messages as batch episode to ${targetGroupId}`,
+            `openclaw-memory-graphiti: auto-captured ${redactedSelection.fresh.length} messages as batch episode to ${targetGroupId}` +
+              (redactedSelection.overlap.length > 0 ? ` (+${redactedSelection.overlap.length} overlap)` : ""),
           );
         } catch (err) {
           api.logger.warn(`openclaw-memory-graphiti: capture failed: ${String(err)}`);
@@ -732,10 +1481,94 @@ const memoryGraphitiPlugin = {
       });
     }
 
+    if (cfg.autoPromote.enabled) {
+      api.on("session_end", async (event, ctx) => {
+        // Look up without getSession — a session we never saw has nothing to promote
+        const sessionKey = ctx?.sessionKey ?? event?.sessionKey;
+        const session = sessionKey ? sessions.get(sessionKey) : undefined;
+        if (!session?.factRecalls) return;
+
+        const ids = [...session.factRecalls]
+          .filter(([, uses]) => uses >= cfg.autoPromote.minUses)
+          .map(([uuid]) => `fact:${uuid}`);
+        session.factRecalls = undefined;
+        if (ids.length === 0) return;
+
+        const targetGroupId = cfg.autoPromote.targetGroupId ?? cfg.graphiti.defaultGroupId;
+        try {
+          const results = await promoteMemories(promoteDeps(session, "auto-promote"), {
+            ids,
+            targetGroupId,
+            subject: subjectFor(ctx),
+            zedToken: readToken(session),
+            writeContext: writeContextFor(ctx),
+          });
+          const promoted = results.filter((r) => r.status === "promoted").length;
+          api.logger.info(
+            `openclaw-memory-graphiti: auto-promoted ${promoted} of ${ids.length} session facts to ${targetGroupId}`,
+          );
+        } catch (err) {
+          api.logger.warn(`openclaw-memory-graphiti: auto-promote failed: ${String(err)}`);
+        }
+      });
+    }
+
     // ========================================================================
     // Service
     // ========================================================================
 
+    // Retry due outbox entries; overlapping runs are skipped
+    let outboxTimer: ReturnType<typeof setInterval> | undefined;
+    let drainingOutbox = false;
+
+    const drainOutbox = async () => {
+      if (drainingOutbox || outbox.size === 0) return;
+      drainingOutbox = true;
+      try {
+        const result = await processOutbox(outbox, graphiti, spicedb);
+        if (result.token) lastWriteToken = result.token;
+        if (result.resolved > 0 || result.expired > 0) {
+          api.logger.info(
+            `openclaw-memory-graphiti: outbox resolved ${result.resolved}, expired ${result.expired}, ${result.pending} pending`,
+          );
+        }
+      } catch (err) {
+        api.logger.warn(`openclaw-memory-graphiti: outbox retry failed: ${String(err)}`);
+      } finally {
+        drainingOutbox = false;
+      }
+    };
+
+    // Scheduled session group GC; sessions this gateway is serving are spared
+    let sessionGcTimer: ReturnType<typeof setInterval> | undefined;
+    let collectingSessions = false;
+
+    const runSessionGc = async () => {
+      if (collectingSessions) return;
+      collectingSessions = true;
+      try {
+        const exclude = new Set([...sessions.keys()].map(sessionGroupId));
+        const report = await gcSessionGroups(graphiti, spicedb, cfg.sessionRetention, {
+          exclude,
+          outbox,
+          emptyGroups,
+        });
+        if (report.token) lastWriteToken = report.token;
+        if (report.expired.length > 0) {
+          api.logger.info(
+            `openclaw-memory-graphiti: session GC deleted ${report.deleted.length} of ${report.expired.length} expired session groups (${report.scanned} scanned)`,
+          );
+        }
+        for (const f of report.failed) {
+          api.logger.warn(`openclaw-memory-graphiti: session GC failed for ${f.groupId}: ${f.error}`);
+        }
+      } catch (err) {
+        api.logger.warn(`openclaw-memory-graphiti: session GC failed: ${String(err)}`);
+      } finally {
+        collectingSessions = false;
+      }
+    };
+
     api.registerService({
       id: "openclaw-memory-graphiti",
       async start() {
@@ -746,9 +1579,18 @@ const memoryGraphitiPlugin = {
           const existing = await spicedb.readSchema();
           spicedbOk = true;
 
-          // Auto-write schema if SpiceDB has no schema yet
-          if (!existing || !existing.includes("memory_fragment")) {
-            api.logger.info("openclaw-memory-graphiti: writing SpiceDB schema (first run)");
+          // Auto-write schema if SpiceDB has no schema yet, or one missing a
+          // later addition (each only adds relations, so rewriting is safe)
+          const firstRun = !existing || !existing.includes("memory_fragment");
+          const missing = firstRun
+            ? []
+            : SCHEMA_FEATURES.filter((f) => !existing.includes(f.marker)).map((f) => f.name);
+          if (firstRun || missing.length > 0) {
+            api.logger.info(
+              firstRun
+                ? "openclaw-memory-graphiti: writing SpiceDB schema (first run)"
+                : `openclaw-memory-graphiti: updating SpiceDB schema (${missing.join(", ")})`,
+            );
             const schemaPath = join(dirname(fileURLToPath(import.meta.url)), "schema.zed");
             const schema = readFileSync(schemaPath, "utf-8");
             await spicedb.writeSchema(schema);
@@ -758,18 +1600,63 @@ const memoryGraphitiPlugin = {
           // Will be retried on first use
         }
 
-        // Ensure current subject is a member of the default group
+        // Ensure the configured subject and every explicitly mapped agent are
+        // members of the default group, leaving existing grants as they are
         if (spicedbOk) {
           try {
-            const token = await ensureGroupMembership(
-              spicedb,
-              cfg.graphiti.defaultGroupId,
-              currentSubject,
-            );
+            const token = await enrollGroupMember(spicedb, cfg.graphiti.defaultGroupId, defaultSubject);
             if (token) lastWriteToken = token;
           } catch {
             api.logger.warn("openclaw-memory-graphiti: failed to ensure default group membership");
           }
+          for (const agentId of new Set(Object.values(cfg.subjects.agents))) {
+            await enrollAgent({ type: "agent", id: agentId });
+          }
+
+          // Let subjects.actAsOwner agents act within their owners' groups —
+          // and withdraw that from agents no longer listed
+          try {
+            const { added, removed, token } = await syncAgentDelegation(
+              spicedb,
+              cfg.subjects.actAsOwner,
+              managedAgentIds(cfg),
+            );
+            if (token) lastWriteToken = token;
+            if (added.length > 0 || removed.length > 0) {
+              api.logger.info(
+                `openclaw-memory-graphiti: agent delegation updated (+${added.length} / -${removed.length})`,
+              );
+            }
+          } catch (err) {
+            api.logger.warn(`openclaw-memory-graphiti: failed to sync agent delegation: ${String(err)}`);
+          }
+        }
+
+        // Resume fragment writes left pending by a previous run (or queued by
+        // the standalone CLI's import)
+        try {
+          await outbox.load();
+        } catch (err) {
+          api.logger.warn(`openclaw-memory-graphiti: failed to load outbox: ${String(err)}`);
+        }
+        if (outbox.size > 0) {
+          api.logger.info(`openclaw-memory-graphiti: resuming ${outbox.size} pending fragment write(s)`);
+          if (graphitiOk && spicedbOk) {
+            // Resumed entries are retried immediately rather than at their backoff time
+            await processOutbox(outbox, graphiti, spicedb, { all: true })
+              .then((result) => {
+                if (result.token) lastWriteToken = result.token;
+              })
+              .catch((err) => api.logger.warn(`openclaw-memory-graphiti: outbox resume failed: ${String(err)}`));
+          }
+        }
+        outboxTimer = setInterval(() => void drainOutbox(), OUTBOX_RETRY_INTERVAL_MS);
+        outboxTimer.unref();
+
+        if (hasRetentionLimit(cfg.sessionRetention)) {
+          const intervalMs = Math.min(cfg.sessionRetention.intervalHours * 60 * 60 * 1000, MAX_TIMER_DELAY_MS);
+          sessionGcTimer = setInterval(() => void runSessionGc(), intervalMs);
+          sessionGcTimer.unref();
         }
 
         api.logger.info(
@@ -778,6 +1665,8 @@ const memoryGraphitiPlugin = {
       },
       stop() {
         clearTimeout(grpcGuardTimer);
+        if (outboxTimer) clearInterval(outboxTimer);
+        if (sessionGcTimer) clearInterval(sessionGcTimer);
         process.removeListener("unhandledRejection", grpcRejectionHandler);
         api.logger.info("openclaw-memory-graphiti: stopped");
       },
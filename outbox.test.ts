@@ -0,0 +1,292 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHash } from "node:crypto";
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { FragmentOutbox, defaultOutboxPath, processOutbox } from "./outbox.js";
+import type { GraphitiClient } from "./graphiti.js";
+import type { SpiceDbClient } from "./spicedb.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "outbox-test-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function readEntries(path: string) {
+  return readFileSync(path, "utf-8").split("\n").filter(Boolean).map((l) => JSON.parse(l));
+}
+
+const agent = { type: "agent" as const, id: "pi" };
+
+describe("defaultOutboxPath", () => {
+  test("lives under OPENCLAW_STATE_DIR when set", () => {
+    const prev = process.env.OPENCLAW_STATE_DIR;
+    process.env.OPENCLAW_STATE_DIR = "/var/lib/openclaw";
+    try {
+      expect(defaultOutboxPath()).toBe("/var/lib/openclaw/plugins/openclaw-memory-graphiti/outbox.jsonl");
+    } finally {
+      if (prev === undefined) delete process.env.OPENCLAW_STATE_DIR;
+      else process.env.OPENCLAW_STATE_DIR = prev;
+    }
+  });
+});
+
+describe("FragmentOutbox", () => {
+  test("persists added entries as JSON lines and drops removed ones", async () => {
+    const path = join(dir, "nested", "outbox.jsonl");
+    const outbox = new FragmentOutbox(path);
+
+    await outbox.add({ episodeName: "memory_a", groupId: "family", sharedBy: agent });
+    await outbox.add({ episodeName: "memory_b", groupId: "work", sharedBy: agent, involves: [{ type: "person", id: "mom" }] });
+
+    expect(outbox.size).toBe(2);
+    expect(readEntries(path).map((e) => e.episodeName)).toEqual(["memory_a", "memory_b"]);
+
+    await outbox.remove({ groupId: "family", episodeName: "memory_a" });
+
+    expect(outbox.has("family", "memory_a")).toBe(false);
+    expect(readEntries(path)).toHaveLength(1);
+    expect(readEntries(path)[0]).toMatchObject({ episodeName: "memory_b", involves: [{ type: "person", id: "mom" }] });
+  });
+
+  test("keys entries by group so equal episode names don't collide", async () => {
+    const outbox = new FragmentOutbox(join(dir, "outbox.jsonl"));
+
+    await outbox.add({ episodeName: "MEMORY.md", groupId: "main", sharedBy: agent });
+    await outbox.add({ episodeName: "MEMORY.md", groupId: "work", sharedBy: agent });
+
+    expect(outbox.size).toBe(2);
+    expect(outbox.has("work", "MEMORY.md")).toBe(true);
+  });
+
+  test("keeps same-name episodes with different content apart", async () => {
+    const path = join(dir, "outbox.jsonl");
+    const outbox = new FragmentOutbox(path);
+
+    await outbox.add({ episodeName: "notes.md", groupId: "main", contentHash: "h1", relationships: [] });
+    await outbox.add({ episodeName: "notes.md", groupId: "main", contentHash: "h2", relationships: [] });
+    expect(outbox.size).toBe(2);
+
+    await outbox.markFailed({ groupId: "main", episodeName: "notes.md", contentHash: "h2" }, "timeout");
+    await outbox.remove({ groupId: "main", episodeName: "notes.md", contentHash: "h1" });
+
+    expect(outbox.has("main", "notes.md")).toBe(true);
+    expect(readEntries(path).map((e) => [e.contentHash, e.attempts])).toEqual([["h2", 1]]);
+  });
+
+  test("load skips malformed lines", async () => {
+    const path = join(dir, "outbox.jsonl");
+    writeFileSync(
+      path,
+      [
+        JSON.stringify({ episodeName: "memory_a", groupId: "main", sharedBy: agent, createdAt: "", attempts: 0, nextAttemptAt: "" }),
+        "{not json",
+        JSON.stringify({ groupId: "main" }),
+        "",
+      ].join("\n"),
+    );
+
+    const outbox = new FragmentOutbox(path);
+    await outbox.load();
+
+    expect(outbox.size).toBe(1);
+    expect(outbox.has("main", "memory_a")).toBe(true);
+  });
+
+  test("keeps entries written by another process and doesn't resurrect removed ones", async () => {
+    const path = join(dir, "outbox.jsonl");
+    const gateway = new FragmentOutbox(path);
+    const cli = new FragmentOutbox(path);
+
+    await gateway.add({ episodeName: "memory_a", groupId: "main", sharedBy: agent });
+    await cli.add({ episodeName: "imported.md", groupId: "main", sharedBy: agent });
+    await gateway.remove({ groupId: "main", episodeName: "memory_a" });
+
+    expect(readEntries(path).map((e) => e.episodeName)).toEqual(["imported.md"]);
+    expect(gateway.has("main", "imported.md")).toBe(true);
+  });
+
+  test("keeps an entry another process queued again under a name removed here", async () => {
+    const path = join(dir, "outbox.jsonl");
+    const gateway = new FragmentOutbox(path);
+    const cli = new FragmentOutbox(path);
+
+    await gateway.add({ episodeName: "notes.md", groupId: "main", sharedBy: agent });
+    await gateway.remove({ groupId: "main", episodeName: "notes.md" });
+    await new Promise((r) => setTimeout(r, 2));
+    await cli.add({ episodeName: "notes.md", groupId: "main", sharedBy: agent, involves: [{ type: "person", id: "mom" }] });
+    await gateway.load();
+    expect(gateway.has("main", "notes.md")).toBe(true);
+
+    await gateway.add({ episodeName: "other.md", groupId: "main", sharedBy: agent });
+    expect(readEntries(path).map((e) => [e.episodeName, e.involves?.length])).toEqual([
+      ["notes.md", 1],
+      ["other.md", undefined],
+    ]);
+  });
+
+  test("waits for another process's lock, and takes over a stale one", async () => {
+    const path = join(dir, "outbox.jsonl");
+    const outbox = new FragmentOutbox(path);
+
+    writeFileSync(`${path}.lock`, "");
+    const adding = outbox.add({ episodeName: "memory_a", groupId: "main", sharedBy: agent });
+    await new Promise((r) => setTimeout(r, 50));
+    expect(existsSync(path)).toBe(false);
+    rmSync(`${path}.lock`);
+    await adding;
+    expect(readEntries(path)).toHaveLength(1);
+
+    writeFileSync(`${path}.lock`, "");
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(`${path}.lock`, old, old);
+    await outbox.remove({ groupId: "main", episodeName: "memory_a" });
+    expect(readEntries(path)).toHaveLength(0);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("markFailed backs off exponentially", async () => {
+    const outbox = new FragmentOutbox(join(dir, "outbox.jsonl"));
+    await outbox.add({ episodeName: "memory_a", groupId: "main", sharedBy: agent });
+
+    const before = Date.now();
+    await outbox.markFailed({ groupId: "main", episodeName: "memory_a" }, new Error("timeout"));
+    const first = new Date(outbox.list()[0].nextAttemptAt).getTime() - before;
+    await outbox.markFailed({ groupId: "main", episodeName: "memory_a" }, new Error("timeout"));
+    const second = new Date(outbox.list()[0].nextAttemptAt).getTime() - before;
+
+    expect(outbox.list()[0]).toMatchObject({ attempts: 2, lastError: "timeout" });
+    expect(second).toBeGreaterThanOrEqual(first * 2 - 1000);
+    expect(outbox.due(before)).toHaveLength(0);
+    expect(outbox.due(before + second + 1000)).toHaveLength(1);
+  });
+});
+
+describe("processOutbox", () => {
+  function mockClients(episodes: { uuid: string; name: string }[]) {
+    const getEpisodes = vi.fn().mockResolvedValue(episodes);
+    const writeRelationships = vi.fn().mockResolvedValue("outbox-tok");
+    return {
+      graphiti: { getEpisodes } as unknown as GraphitiClient,
+      spicedb: { writeRelationships } as unknown as SpiceDbClient,
+      getEpisodes,
+      writeRelationships,
+    };
+  }
+
+  test("writes relationships for resolved episodes and removes them", async () => {
+    const outbox = new FragmentOutbox(join(dir, "outbox.jsonl"));
+    await outbox.add({ episodeName: "memory_a", groupId: "main", sharedBy: agent });
+    await outbox.add({ episodeName: "memory_b", groupId: "main", sharedBy: agent });
+    const { graphiti, spicedb, getEpisodes, writeRelationships } = mockClients([{ uuid: "ep-a", name: "memory_a" }]);
+
+    const result = await processOutbox(outbox, graphiti, spicedb, { all: true });
+
+    // One lookup per group, not per entry
+    expect(getEpisodes).toHaveBeenCalledTimes(1);
+    expect(writeRelationships).toHaveBeenCalledTimes(1);
+    expect(writeRelationships.mock.calls[0][0][0]).toMatchObject({ resourceId: "ep-a", relation: "source_group", subjectId: "main" });
+    expect(result).toEqual({ resolved: 1, pending: 1, expired: 0, token: "outbox-tok" });
+    expect(outbox.list()[0]).toMatchObject({ episodeName: "memory_b", attempts: 1 });
+  });
+
+  test("writes a restored episode's archived tuples as they were", async () => {
+    const outbox = new FragmentOutbox(join(dir, "outbox.jsonl"));
+    await outbox.add({
+      episodeName: "memory_a",
+      groupId: "main",
+      relationships: [
+        { relation: "source_group", subjectType: "group", subjectId: "main" },
+        { relation: "viewer", subjectType: "person", subjectId: "mom", expiresAt: "2027-01-01T00:00:00.000Z" },
+      ],
+    });
+    const { graphiti, spicedb, writeRelationships } = mockClients([{ uuid: "ep-a", name: "memory_a" }]);
+
+    await processOutbox(outbox, graphiti, spicedb, { all: true });
+
+    expect(writeRelationships).toHaveBeenCalledWith([
+      { resourceType: "memory_fragment", resourceId: "ep-a", relation: "source_group", subjectType: "group", subjectId: "main" },
+      {
+        resourceType: "memory_fragment",
+        resourceId: "ep-a",
+        relation: "viewer",
+        subjectType: "person",
+        subjectId: "mom",
+        expiresAt: new Date("2027-01-01T00:00:00.000Z"),
+      },
+    ]);
+    expect(outbox.size).toBe(0);
+  });
+
+  test("widens the lookup in busy groups and tells same-name episodes apart by content hash", async () => {
+    const hash = (body: string) => createHash("sha256").update(body).digest("hex");
+    const outbox = new FragmentOutbox(join(dir, "outbox.jsonl"));
+    await outbox.add({ episodeName: "notes.md", groupId: "main", contentHash: hash("new notes"), sharedBy: agent });
+    const busy = Array.from({ length: 60 }, (_, i) => ({ uuid: `u-${i}`, name: `other-${i}`, content: "" }));
+    const getEpisodes = vi.fn().mockImplementation(async (_groupId: string, lastN: number) =>
+      [
+        ...busy,
+        { uuid: "ep-old", name: "notes.md", content: "old notes" },
+        { uuid: "ep-new", name: "notes.md", content: "new notes" },
+      ].slice(0, lastN),
+    );
+    const writeRelationships = vi.fn().mockResolvedValue("outbox-tok");
+
+    const result = await processOutbox(
+      outbox,
+      { getEpisodes } as unknown as GraphitiClient,
+      { writeRelationships } as unknown as SpiceDbClient,
+      { all: true },
+    );
+
+    expect(getEpisodes.mock.calls.map((c) => c[1])).toEqual([50, 100]);
+    expect(writeRelationships.mock.calls[0][0][0]).toMatchObject({ resourceId: "ep-new" });
+    expect(result.resolved).toBe(1);
+  });
+
+  test("only retries due entries unless all is set", async () => {
+    const outbox = new FragmentOutbox(join(dir, "outbox.jsonl"));
+    await outbox.add({ episodeName: "memory_a", groupId: "main", sharedBy: agent });
+    const { graphiti, spicedb, getEpisodes } = mockClients([{ uuid: "ep-a", name: "memory_a" }]);
+
+    const result = await processOutbox(outbox, graphiti, spicedb);
+
+    expect(getEpisodes).not.toHaveBeenCalled();
+    expect(result.pending).toBe(1);
+  });
+
+  test("drops entries older than a week", async () => {
+    const outbox = new FragmentOutbox(join(dir, "outbox.jsonl"));
+    await outbox.add({ episodeName: "memory_a", groupId: "main", sharedBy: agent });
+    const { graphiti, spicedb, getEpisodes } = mockClients([]);
+
+    const result = await processOutbox(outbox, graphiti, spicedb, {
+      now: Date.now() + 8 * 24 * 60 * 60 * 1000,
+    });
+
+    expect(result).toEqual({ resolved: 0, pending: 0, expired: 1 });
+    expect(getEpisodes).not.toHaveBeenCalled();
+  });
+
+  test("reschedules every entry in a group when the lookup fails", async () => {
+    const outbox = new FragmentOutbox(join(dir, "outbox.jsonl"));
+    await outbox.add({ episodeName: "memory_a", groupId: "main", sharedBy: agent });
+    const getEpisodes = vi.fn().mockRejectedValue(new Error("Graphiti down"));
+
+    const result = await processOutbox(
+      outbox,
+      { getEpisodes } as unknown as GraphitiClient,
+      {} as SpiceDbClient,
+      { all: true },
+    );
+
+    expect(result.pending).toBe(1);
+    expect(outbox.list()[0]).toMatchObject({ attempts: 1, lastError: "Graphiti down" });
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Durable Outbox for Deferred SpiceDB Fragment Writes
+ *
+ * Graphiti processes episodes asynchronously, so the SpiceDB relationships
+ * for a stored memory can only be written once the episode's server-side
+ * UUID is known. Until then the pending linkage (episode name → group →
+ * sharer → involved subjects, or a restored episode's archived tuples) is
+ * recorded in a JSON-lines file, so a gateway
+ * restart or a UUID-poll timeout does not orphan the episode.
+ *
+ * Entries are removed once their relationships are written. Failed
+ * resolutions are retried with exponential backoff by processOutbox().
+ * The gateway and the standalone CLI share the file: each merges its own
+ * changes into it under a lock file rather than rewriting it wholesale.
+ */
+
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { lookupEpisodeUuids, type GraphitiClient } from "./graphiti.js";
+import type { RelationshipTuple, SpiceDbClient } from "./spicedb.js";
+import { writeFragmentRelationships, type Subject } from "./authorization.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A fragment tuple without its resource; `expiresAt` is an ISO timestamp. */
+export type PendingFragmentTuple = Omit<RelationshipTuple, "resourceType" | "resourceId" | "expiresAt"> & {
+  expiresAt?: string;
+};
+
+/**
+ * What to write once the UUID is known: source_group, shared_by and
+ * involves for a new memory, or — for restored episodes — the exact
+ * archived tuples, with viewers, expirations and caveats.
+ */
+export type OutboxLinkage =
+  | { sharedBy: Subject; involves?: Subject[]; relationships?: undefined }
+  | { relationships: PendingFragmentTuple[] };
+
+export type OutboxEntry = {
+  /** Episode name passed to addEpisode — not unique: imports and restores reuse names */
+  episodeName: string;
+  groupId: string;
+  /** sha256 of the submitted body, to tell apart episodes that share a name */
+  contentHash?: string;
+  createdAt: string;
+  attempts: number;
+  /** Earliest time (ISO) the background processor may retry this entry */
+  nextAttemptAt: string;
+  lastError?: string;
+} & OutboxLinkage;
+
+/** Identifies an entry: its episode's group, name and content hash. */
+export type OutboxRef = Pick<OutboxEntry, "groupId" | "episodeName" | "contentHash">;
+
+export type OutboxProcessResult = {
+  resolved: number;
+  pending: number;
+  expired: number;
+  /** ZedToken of the last relationship write, if any */
+  token?: string;
+};
+
+/** First retry delay; doubles per failed attempt. */
+const RETRY_BASE_MS = 30_000;
+/** Upper bound on the retry delay. */
+const RETRY_MAX_MS = 60 * 60 * 1000;
+/** Entries older than this are dropped — the episode never appeared. */
+const MAX_ENTRY_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Plugin state directory: $OPENCLAW_STATE_DIR (default ~/.openclaw)/plugins/openclaw-memory-graphiti. */
+export function pluginStateDir(): string {
+  const stateDir = process.env.OPENCLAW_STATE_DIR ?? join(homedir(), ".openclaw");
+  return join(stateDir, "plugins", "openclaw-memory-graphiti");
+}
+
+/**
+ * Default outbox location: <plugin state dir>/outbox.jsonl.
+ * Shared by the gateway plugin and the standalone CLI, so entries queued by
+ * `graphiti-mem import` are resumed when the gateway service starts.
+ */
+export function defaultOutboxPath(): string {
+  return join(pluginStateDir(), "outbox.jsonl");
+}
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+/**
+ * Entries are keyed by group, name and content hash — imported and restored
+ * episodes reuse names, and each needs its own entry.
+ */
+function entryKey(ref: OutboxRef): string {
+  return `${ref.groupId}/${ref.episodeName}${ref.contentHash ? `#${ref.contentHash}` : ""}`;
+}
+
+export class FragmentOutbox {
+  private entries = new Map<string, OutboxEntry>();
+  /** Entries added or updated here and not yet persisted */
+  private changed = new Map<string, OutboxEntry>();
+  /** createdAt of entries removed here and not yet persisted */
+  private removed = new Map<string, string>();
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string = defaultOutboxPath()) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Whether any entry is pending for an episode of this name, whatever its content. */
+  has(groupId: string, episodeName: string): boolean {
+    for (const e of this.entries.values()) {
+      if (e.groupId === groupId && e.episodeName === episodeName) return true;
+    }
+    return false;
+  }
+
+  list(): OutboxEntry[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Load pending entries from disk. Changes made here but not yet persisted
+   * are kept on top, so nothing queued in memory is lost and nothing
+   * removed here comes back. Malformed lines are skipped. Safe to call more
+   * than once.
+   */
+  async load(): Promise<void> {
+    this.entries = this.merge(await this.readFromDisk());
+  }
+
+  async add(params: { episodeName: string; groupId: string; contentHash?: string } & OutboxLinkage): Promise<void> {
+    const now = new Date().toISOString();
+    const key = entryKey(params);
+    this.update(key, {
+      ...params,
+      createdAt: now,
+      attempts: 0,
+      // The inline resolution in the caller gets the first chance
+      nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS).toISOString(),
+    });
+    this.removed.delete(key);
+    await this.persist();
+  }
+
+  async remove(ref: OutboxRef): Promise<void> {
+    const key = entryKey(ref);
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.changed.delete(key);
+    this.removed.set(key, entry.createdAt);
+    await this.persist();
+  }
+
+  /** Record a failed resolution attempt and schedule the next retry. */
+  async markFailed(ref: OutboxRef, error: unknown): Promise<void> {
+    const key = entryKey(ref);
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    const attempts = entry.attempts + 1;
+    const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+    this.update(key, {
+      ...entry,
+      attempts,
+      lastError: error instanceof Error ? error.message : String(error),
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+    });
+    await this.persist();
+  }
+
+  /** Entries whose retry time has passed. */
+  due(now = Date.now()): OutboxEntry[] {
+    return this.list().filter((e) => new Date(e.nextAttemptAt).getTime() <= now);
+  }
+
+  /** Entries are replaced, never mutated, so a persist in flight sees a stable snapshot. */
+  private update(key: string, entry: OutboxEntry): void {
+    this.entries.set(key, entry);
+    this.changed.set(key, entry);
+  }
+
+  private async readFromDisk(): Promise<Map<string, OutboxEntry>> {
+    let raw = "";
+    try {
+      raw = await readFile(this.filePath, "utf-8");
+    } catch {
+      // No outbox yet
+    }
+    const onDisk = new Map<string, OutboxEntry>();
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as OutboxEntry;
+        if (!entry.episodeName || !entry.groupId) continue;
+        onDisk.set(entryKey(entry), entry);
+      } catch {
+        // Skip malformed lines
+      }
+    }
+    return onDisk;
+  }
+
+  /**
+   * Apply this instance's unpersisted changes to the entries on disk. A
+   * removal only drops the entry it removed, and an update never replaces
+   * one queued later (by createdAt) — another process may have queued the
+   * same episode name again since.
+   */
+  private merge(onDisk: Map<string, OutboxEntry>): Map<string, OutboxEntry> {
+    const merged = new Map(onDisk);
+    for (const [key, createdAt] of this.removed) {
+      if (merged.get(key)?.createdAt === createdAt) merged.delete(key);
+    }
+    for (const [key, entry] of this.changed) {
+      const current = merged.get(key);
+      if (!current || current.createdAt <= entry.createdAt) merged.set(key, entry);
+    }
+    return merged;
+  }
+
+  /**
+   * Merge this instance's changes into the file under a lock file, then
+   * replace it atomically via rename. Writes are serialized within the
+   * process, and the lock keeps the gateway and the standalone CLI from
+   * overwriting each other's entries.
+   */
+  private persist(): Promise<void> {
+    // A failed write must not wedge the chain for later mutations
+    this.persisting = this.persisting.catch(() => {}).then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await withFileLock(`${this.filePath}.lock`, async () => {
+        const changed = new Map(this.changed);
+        const removed = new Map(this.removed);
+        const merged = this.merge(await this.readFromDisk());
+        const body = [...merged.values()].map((e) => JSON.stringify(e)).join("\n");
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await writeFile(tmpPath, body ? `${body}\n` : "", "utf-8");
+        await rename(tmpPath, this.filePath);
+
+        // Keep changes made while this write was in flight for the next one
+        for (const [key, entry] of changed) if (this.changed.get(key) === entry) this.changed.delete(key);
+        for (const [key, createdAt] of removed) if (this.removed.get(key) === createdAt) this.removed.delete(key);
+        this.entries = this.merge(merged);
+      });
+    });
+    return this.persisting;
+  }
+}
+
+/** A lock file older than this is taken as left behind by a crashed process. */
+const LOCK_STALE_MS = 30_000;
+/** Wait between attempts to take a held lock. */
+const LOCK_RETRY_MS = 20;
+
+/** Run `fn` holding an exclusive lock file, shared by every process using the outbox. */
+async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  for (;;) {
+    try {
+      await (await open(lockPath, "wx")).close();
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      const age = await stat(lockPath).then(
+        (s) => Date.now() - s.mtimeMs,
+        () => 0,
+      );
+      if (age > LOCK_STALE_MS) {
+        await unlink(lockPath).catch(() => {});
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => {});
+  }
+}
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+/** Attach a pending tuple to the episode's resolved UUID. */
+export function toFragmentTuple(fragmentId: string, t: PendingFragmentTuple): RelationshipTuple {
+  const { expiresAt, ...rest } = t;
+  return {
+    resourceType: "memory_fragment",
+    resourceId: fragmentId,
+    ...rest,
+    ...(expiresAt ? { expiresAt: new Date(expiresAt) } : {}),
+  };
+}
+
+/**
+ * Retry every due outbox entry: look the episode up in its group by name
+ * and content hash — widening the get_episodes window for busy groups, as
+ * the UUID resolver does — write its fragment relationships once found, and reschedule the rest with
+ * backoff. Entries older than MAX_ENTRY_AGE_MS are dropped.
+ *
+ * `all` ignores backoff times — used when resuming after a restart.
+ */
+export async function processOutbox(
+  outbox: FragmentOutbox,
+  graphiti: GraphitiClient,
+  spicedb: SpiceDbClient,
+  options: { now?: number; all?: boolean } = {},
+): Promise<OutboxProcessResult> {
+  const now = options.now ?? Date.now();
+  const result: OutboxProcessResult = { resolved: 0, pending: 0, expired: 0 };
+
+  const byGroup = new Map<string, OutboxEntry[]>();
+  for (const entry of options.all ? outbox.list() : outbox.due(now)) {
+    if (now - new Date(entry.createdAt).getTime() > MAX_ENTRY_AGE_MS) {
+      await outbox.remove(entry);
+      result.expired++;
+      continue;
+    }
+    const list = byGroup.get(entry.groupId) ?? [];
+    list.push(entry);
+    byGroup.set(entry.groupId, list);
+  }
+
+  for (const [groupId, entries] of byGroup) {
+    const lookups = entries.map((entry) => ({ entry, name: entry.episodeName, contentHash: entry.contentHash }));
+    let uuids: Map<(typeof lookups)[number], string>;
+    try {
+      uuids = await lookupEpisodeUuids((id, lastN) => graphiti.getEpisodes(id, lastN), groupId, lookups);
+    } catch (err) {
+      for (const entry of entries) await outbox.markFailed(entry, err);
+      continue;
+    }
+
+    for (const lookup of lookups) {
+      const { entry } = lookup;
+      const uuid = uuids.get(lookup);
+      if (!uuid) {
+        await outbox.markFailed(entry, "episode not yet visible in get_episodes");
+        continue;
+      }
+      try {
+        const token = entry.relationships
+          ? await spicedb.writeRelationships(entry.relationships.map((t) => toFragmentTuple(uuid, t)))
+          : await writeFragmentRelationships(spicedb, {
+              fragmentId: uuid,
+              groupId: entry.groupId,
+              sharedBy: entry.sharedBy,
+              involves: entry.involves,
+            });
+        if (token) result.token = token;
+        await outbox.remove(entry);
+        result.resolved++;
+      } catch (err) {
+        await outbox.markFailed(entry, err);
+      }
+    }
+  }
+
+  result.pending = outbox.size;
+  return result;
+}
@@ -0,0 +1,148 @@
+import { describe, test, expect, vi } from "vitest";
+
+import { formatPromoteOutcomes, promoteMemories, type PromoteDeps } from "./promote.js";
+import { Redactor } from "./redaction.js";
+import type { GraphitiClient, GraphitiFact } from "./graphiti.js";
+import type { SpiceDbClient, RelationshipTuple } from "./spicedb.js";
+
+const agent = { type: "agent" as const, id: "pi" };
+
+const facts: Record<string, Partial<GraphitiFact>> = {
+  "f-session": { uuid: "f-session", fact: "Mark prefers window seats", group_id: "session-abc" },
+  "f-main": { uuid: "f-main", fact: "Mark lives in Lisbon", group_id: "main" },
+  "f-secret": { uuid: "f-secret", fact: "API key is sk-abcdefghijklmnopqrstuvwx", group_id: "session-abc" },
+};
+
+const fragmentTuples: RelationshipTuple[] = [
+  { resourceType: "memory_fragment", resourceId: "ep-1", relation: "source_group", subjectType: "group", subjectId: "session-abc" },
+  { resourceType: "memory_fragment", resourceId: "ep-1", relation: "shared_by", subjectType: "agent", subjectId: "pi" },
+  { resourceType: "memory_fragment", resourceId: "ep-1", relation: "involves", subjectType: "person", subjectId: "mark" },
+];
+
+function setup(options: { denied?: string[] } = {}) {
+  const denied = new Set(options.denied ?? []);
+  const addEpisode = vi.fn().mockImplementation(async (params: { name: string }) => ({
+    episode_uuid: `tmp-${params.name}`,
+    resolvedUuid: Promise.resolve(`real-${params.name}`),
+  }));
+  const graphiti = {
+    getEntityEdge: vi.fn().mockImplementation(async (uuid: string) => {
+      if (!facts[uuid]) throw new Error("not found");
+      return facts[uuid];
+    }),
+    getEpisodes: vi.fn().mockResolvedValue([
+      { uuid: "ep-1", name: "auto_capture_1", content: "User: book me a window seat", source_description: "auto-captured conversation", group_id: "session-abc", created_at: "2026-10-01T00:00:00Z" },
+    ]),
+    addEpisode,
+  } as unknown as GraphitiClient;
+  const spicedb = {
+    checkPermission: vi.fn().mockImplementation(async (req: { resourceId: string; permission: string }) =>
+      !denied.has(`${req.permission}:${req.resourceId}`),
+    ),
+    readRelationships: vi.fn().mockImplementation(async (req: { resourceId?: string }) =>
+      fragmentTuples.filter((t) => t.resourceId === req.resourceId),
+    ),
+  } as unknown as SpiceDbClient;
+  const queueFragmentWrite = vi.fn().mockResolvedValue(undefined);
+  const deps: PromoteDeps = {
+    graphiti,
+    spicedb,
+    redactor: new Redactor({ enabled: true, policy: "mask", detectors: ["api_key"], patterns: {}, groups: { family: "block" } }),
+    queueFragmentWrite,
+  };
+  return { deps, addEpisode, queueFragmentWrite };
+}
+
+describe("promoteMemories", () => {
+  test("copies a session fact into the target group and queues its linkage", async () => {
+    const { deps, addEpisode, queueFragmentWrite } = setup();
+
+    const [outcome] = await promoteMemories(deps, { ids: ["fact:f-session"], targetGroupId: "main", subject: agent });
+
+    expect(outcome).toMatchObject({ id: "fact:f-session", status: "promoted", sourceGroupId: "session-abc" });
+    expect(addEpisode).toHaveBeenCalledWith(
+      expect.objectContaining({
+        episode_body: "Mark prefers window seats",
+        group_id: "main",
+        source_description: "promoted from session-abc (fact:f-session)",
+      }),
+    );
+    const [resolved, pending] = queueFragmentWrite.mock.calls[0];
+    await expect(resolved).resolves.toBe(`real-${outcome.episodeName}`);
+    expect(pending).toEqual({ episodeName: outcome.episodeName, groupId: "main", sharedBy: agent, involves: undefined });
+  });
+
+  test("copies an episode's content and involved subjects", async () => {
+    const { deps, addEpisode, queueFragmentWrite } = setup();
+
+    const [outcome] = await promoteMemories(deps, { ids: ["episode:ep-1"], targetGroupId: "main", subject: agent });
+
+    expect(outcome.status).toBe("promoted");
+    expect(addEpisode.mock.calls[0][0].episode_body).toBe("User: book me a window seat");
+    expect(queueFragmentWrite.mock.calls[0][1].involves).toEqual([{ type: "person", id: "mark" }]);
+  });
+
+  test("reports each ID that can't be promoted without stopping the rest", async () => {
+    const { deps, addEpisode } = setup();
+
+    const outcomes = await promoteMemories(deps, {
+      ids: ["fact:f-main", "fact:missing", "episode:ep-unknown", "bare-uuid", "fact:f-session"],
+      targetGroupId: "main",
+      subject: agent,
+    });
+
+    expect(outcomes.map((o) => o.status)).toEqual(["not_session", "not_found", "not_found", "error", "promoted"]);
+    expect(addEpisode).toHaveBeenCalledTimes(1);
+  });
+
+  test("denies everything without write access to the target", async () => {
+    const { deps, addEpisode } = setup({ denied: ["contribute:work"] });
+
+    const outcomes = await promoteMemories(deps, { ids: ["fact:f-session"], targetGroupId: "work", subject: agent });
+
+    expect(outcomes).toEqual([{ id: "fact:f-session", status: "denied", message: 'cannot write to group "work"' }]);
+    expect(addEpisode).not.toHaveBeenCalled();
+  });
+
+  test("denies sources the subject can't read", async () => {
+    const { deps } = setup({ denied: ["access:session-abc", "view:ep-1"] });
+
+    const outcomes = await promoteMemories(deps, {
+      ids: ["fact:f-session", "episode:ep-1"],
+      targetGroupId: "main",
+      subject: agent,
+    });
+
+    expect(outcomes.map((o) => o.status)).toEqual(["denied", "denied"]);
+  });
+
+  test("rejects session groups as the target", async () => {
+    const { deps } = setup();
+
+    const [outcome] = await promoteMemories(deps, { ids: ["fact:f-session"], targetGroupId: "session-xyz", subject: agent });
+
+    expect(outcome.status).toBe("error");
+  });
+
+  test("redacts content per the target group's policy", async () => {
+    const { deps, addEpisode } = setup();
+
+    const [masked] = await promoteMemories(deps, { ids: ["fact:f-secret"], targetGroupId: "main", subject: agent });
+    const [blocked] = await promoteMemories(deps, { ids: ["fact:f-secret"], targetGroupId: "family", subject: agent });
+
+    expect(masked.status).toBe("promoted");
+    expect(addEpisode.mock.calls[0][0].episode_body).toBe("API key is [REDACTED:api_key]");
+    expect(blocked).toMatchObject({ status: "blocked", message: "contains sensitive data: blocked (found 1 api_key)" });
+  });
+});
+
+describe("formatPromoteOutcomes", () => {
+  test("prints one line per ID", () => {
+    expect(
+      formatPromoteOutcomes([
+        { id: "fact:a", status: "promoted", sourceGroupId: "session-abc" },
+        { id: "fact:b", status: "denied", message: 'cannot write to group "work"' },
+      ]),
+    ).toBe('fact:a → promoted from session-abc\nfact:b → denied: cannot write to group "work"');
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Session → Long-Term Promotion
+ *
+ * Session groups hold what was said in one conversation. Promotion copies
+ * selected facts or episodes from a session group into a long-term group so
+ * they outlive the session: the underlying content is re-ingested as a new
+ * episode in the target group (Graphiti extracts its own entities and facts
+ * there) and gets its own memory_fragment relationships. The session copy is
+ * left untouched.
+ *
+ * Used by the memory_promote tool, automatic promotion at session end and
+ * `graphiti-mem promote`.
+ */
+
+import { randomUUID } from "node:crypto";
+
+import type { GraphitiClient } from "./graphiti.js";
+import type { SpiceDbClient } from "./spicedb.js";
+import {
+  canAccessGroup,
+  canViewFragment,
+  canWriteToGroup,
+  readFragmentRelationships,
+  type Subject,
+  type WriteContext,
+} from "./authorization.js";
+import { describeRedaction, type Redactor } from "./redaction.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PromoteStatus = "promoted" | "not_found" | "denied" | "not_session" | "blocked" | "error";
+
+export type PromoteOutcome = {
+  /** ID as passed in, e.g. "fact:UUID" */
+  id: string;
+  status: PromoteStatus;
+  sourceGroupId?: string;
+  /** Name of the episode created in the target group */
+  episodeName?: string;
+  episodeId?: string;
+  message?: string;
+};
+
+/** Linkage to write once the promoted episode's UUID resolves. */
+export type PendingPromotion = {
+  episodeName: string;
+  groupId: string;
+  contentHash?: string;
+  sharedBy: Subject;
+  involves?: Subject[];
+};
+
+export type PromoteDeps = {
+  graphiti: GraphitiClient;
+  spicedb: SpiceDbClient;
+  redactor: Redactor;
+  customInstructions?: string;
+  /** Record the pending fragment write (outbox) and write it once resolved */
+  queueFragmentWrite: (resolvedUuid: Promise<string>, pending: PendingPromotion) => Promise<void>;
+};
+
+/** How many recent episodes of a session group are searched for an episode ID. */
+const EPISODE_LOOKUP_LIMIT = 500;
+
+function isSessionGroup(groupId: string): boolean {
+  return groupId.startsWith("session-");
+}
+
+// ============================================================================
+// Promotion
+// ============================================================================
+
+type SourceMemory = {
+  sourceGroupId: string;
+  content: string;
+  involves: Subject[];
+};
+
+/**
+ * Resolve a type-prefixed ID to the content to promote, checking that it
+ * comes from a session group the subject can read. Returns an outcome
+ * instead when it can't be promoted.
+ */
+async function loadSource(
+  deps: PromoteDeps,
+  id: string,
+  subject: Subject,
+  zedToken?: string,
+): Promise<SourceMemory | PromoteOutcome> {
+  if (id.startsWith("fact:")) {
+    const uuid = id.slice("fact:".length);
+    let fact: Awaited<ReturnType<GraphitiClient["getEntityEdge"]>>;
+    try {
+      fact = await deps.graphiti.getEntityEdge(uuid);
+    } catch {
+      return { id, status: "not_found", message: `Fact ${uuid} not found.` };
+    }
+    if (!fact.group_id || !isSessionGroup(fact.group_id)) {
+      return { id, status: "not_session", sourceGroupId: fact.group_id, message: `not a session memory (group "${fact.group_id}")` };
+    }
+    if (!(await canAccessGroup(deps.spicedb, subject, fact.group_id, zedToken))) {
+      return { id, status: "denied", sourceGroupId: fact.group_id, message: `cannot read group "${fact.group_id}"` };
+    }
+    return { sourceGroupId: fact.group_id, content: fact.fact, involves: [] };
+  }
+
+  if (id.startsWith("episode:")) {
+    const uuid = id.slice("episode:".length);
+    const linkage = await readFragmentRelationships(deps.spicedb, uuid, zedToken);
+    if (!linkage.groupId) {
+      return { id, status: "not_found", message: `Episode ${uuid} not found.` };
+    }
+    if (!isSessionGroup(linkage.groupId)) {
+      return { id, status: "not_session", sourceGroupId: linkage.groupId, message: `not a session memory (group "${linkage.groupId}")` };
+    }
+    if (!(await canViewFragment(deps.spicedb, subject, uuid, zedToken))) {
+      return { id, status: "denied", sourceGroupId: linkage.groupId, message: `cannot view episode ${uuid}` };
+    }
+    // The MCP server has no get-by-UUID tool for episodes
+    const episodes = await deps.graphiti.getEpisodes(linkage.groupId, EPISODE_LOOKUP_LIMIT);
+    const episode = episodes.find((ep) => ep.uuid === uuid);
+    if (!episode) {
+      return { id, status: "not_found", sourceGroupId: linkage.groupId, message: `Episode ${uuid} not found.` };
+    }
+    return { sourceGroupId: linkage.groupId, content: episode.content, involves: linkage.involves };
+  }
+
+  return { id, status: "error", message: `Unrecognized ID format "${id}" (use 'fact:UUID' or 'episode:UUID')` };
+}
+
+/**
+ * Copy session facts/episodes into a long-term group. IDs are handled one
+ * at a time; a failure on one ID does not stop the others.
+ */
+export async function promoteMemories(
+  deps: PromoteDeps,
+  params: { ids: string[]; targetGroupId: string; subject: Subject; zedToken?: string; writeContext?: WriteContext },
+): Promise<PromoteOutcome[]> {
+  const { ids, targetGroupId, subject, zedToken, writeContext } = params;
+
+  if (isSessionGroup(targetGroupId)) {
+    return ids.map((id) => ({ id, status: "error", message: `target "${targetGroupId}" is a session group` }));
+  }
+  if (!(await canWriteToGroup(deps.spicedb, subject, targetGroupId, zedToken, writeContext))) {
+    return ids.map((id) => ({ id, status: "denied", message: `cannot write to group "${targetGroupId}"` }));
+  }
+
+  const outcomes: PromoteOutcome[] = [];
+  for (const id of ids) {
+    try {
+      const source = await loadSource(deps, id, subject, zedToken);
+      if ("status" in source) {
+        outcomes.push(source);
+        continue;
+      }
+
+      const redaction = deps.redactor.redact(targetGroupId, [source.content]);
+      if (redaction.messages.length === 0) {
+        outcomes.push({
+          id,
+          status: "blocked",
+          sourceGroupId: source.sourceGroupId,
+          message: `contains sensitive data: ${describeRedaction(redaction)}`,
+        });
+        continue;
+      }
+
+      const episodeName = `promoted_${randomUUID()}`;
+      const result = await deps.graphiti.addEpisode({
+        name: episodeName,
+        episode_body: redaction.messages[0],
+        source_description: `promoted from ${source.sourceGroupId} (${id})`,
+        group_id: targetGroupId,
+        custom_extraction_instructions: deps.customInstructions,
+      });
+      await deps.queueFragmentWrite(result.resolvedUuid, {
+        episodeName,
+        groupId: targetGroupId,
+        contentHash: result.contentHash,
+        sharedBy: subject,
+        involves: source.involves.length > 0 ? source.involves : undefined,
+      });
+
+      outcomes.push({
+        id,
+        status: "promoted",
+        sourceGroupId: source.sourceGroupId,
+        episodeName,
+        episodeId: result.episode_uuid,
+      });
+    } catch (err) {
+      outcomes.push({ id, status: "error", message: String(err) });
+    }
+  }
+  return outcomes;
+}
+
+/** One line per ID, e.g. "fact:abc → promoted from session-x" or "fact:def → denied: …". */
+export function formatPromoteOutcomes(outcomes: PromoteOutcome[]): string {
+  return outcomes
+    .map((o) => {
+      if (o.status === "promoted") return `${o.id} → promoted from ${o.sourceGroupId}`;
+      return `${o.id} → ${o.status}: ${o.message ?? "not promoted"}`;
+    })
+    .join("\n");
+}
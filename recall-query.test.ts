@@ -0,0 +1,110 @@
+import { describe, test, expect } from "vitest";
+
+import { buildRecallQueries, extractEntityNames, extractMessageText } from "./recall-query.js";
+
+describe("extractMessageText", () => {
+  test("reads string content and text blocks", () => {
+    expect(extractMessageText({ role: "user", content: "hello there" })).toBe("hello there");
+    expect(
+      extractMessageText({
+        role: "assistant",
+        content: [
+          { type: "text", text: "first" },
+          { type: "tool_use", name: "memory_recall" },
+          { type: "text", text: "second" },
+        ],
+      }),
+    ).toBe("first\nsecond");
+  });
+
+  test("returns empty string for non-messages", () => {
+    expect(extractMessageText(null)).toBe("");
+    expect(extractMessageText({ role: "user", content: 42 })).toBe("");
+  });
+});
+
+describe("extractEntityNames", () => {
+  test("finds capitalized names and drops sentence starters and possessives", () => {
+    expect(extractEntityNames("When is Mark's birthday? Does Anna Schmidt still work at Acme?")).toEqual([
+      "Mark",
+      "Anna Schmidt",
+      "Acme",
+    ]);
+  });
+
+  test("ignores pronouns and question words", () => {
+    expect(extractEntityNames("What about her? I think She said Monday.")).toEqual([]);
+  });
+});
+
+describe("buildRecallQueries", () => {
+  const history = [
+    { role: "user", content: "When is Mark's birthday?" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "text",
+          text: "<relevant-memories>\n1. [fact:f1] Zed likes tea\n</relevant-memories>\nMark's birthday is Dec 17th. His sister Anna is visiting.",
+        },
+      ],
+    },
+  ];
+
+  test("keeps a self-contained prompt as the only query", () => {
+    expect(buildRecallQueries("What does Mark do for work?", history)).toEqual({
+      queries: ["What does Mark do for work?"],
+      expandedWith: [],
+    });
+  });
+
+  test("expands a pronoun follow-up with recently mentioned names", () => {
+    const plan = buildRecallQueries("and what about her?", history);
+
+    expect(plan.queries).toHaveLength(1);
+    expect(plan.queries[0]).toMatch(/^and what about her\? /);
+    expect(plan.expandedWith).toContain("Anna");
+    // Names from injected memory blocks are not used
+    expect(plan.queries[0]).not.toContain("Zed");
+  });
+
+  test("skips the trailing copy of the prompt in the message list", () => {
+    const plan = buildRecallQueries("what about Lisbon?", [
+      { role: "user", content: "Anna is planning a trip." },
+      { role: "user", content: "what about Lisbon?" },
+    ]);
+
+    expect(plan.queries).toEqual(["what about Lisbon?"]);
+  });
+
+  test("splits multi-topic prompts and resolves pronouns against earlier segments", () => {
+    const plan = buildRecallQueries("What does Mark do for work? And where does he live these days?");
+
+    expect(plan.queries).toEqual([
+      "What does Mark do for work?",
+      "And where does he live these days? Mark",
+    ]);
+  });
+
+  test("merges very short segments into the previous topic", () => {
+    const plan = buildRecallQueries("Tell me about the Berlin offsite. Any updates?");
+    expect(plan.queries).toEqual(["Tell me about the Berlin offsite. Any updates?"]);
+  });
+
+  test("caps the number of sub-queries", () => {
+    const plan = buildRecallQueries(
+      "What does Mark do? Where does Anna live? When is the Acme launch? Who runs Globex now?",
+      [],
+      { maxQueries: 2 },
+    );
+
+    expect(plan.queries).toHaveLength(2);
+    expect(plan.queries[1]).toContain("Globex");
+  });
+
+  test("is deterministic", () => {
+    const a = buildRecallQueries("and her?", history);
+    const b = buildRecallQueries("and her?", history);
+    expect(a).toEqual(b);
+  });
+});
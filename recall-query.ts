@@ -0,0 +1,243 @@
+/**
+ * Conversation-Aware Recall Query Synthesis
+ *
+ * Auto-recall prompts are often follow-ups ("and what about her?") that
+ * match nothing on their own. buildRecallQueries() turns the prompt plus the
+ * last few conversation turns into one or more search queries:
+ *
+ * - the prompt is split into sub-queries when it asks about several topics
+ * - a short or pronoun-heavy sub-query is expanded with entity names
+ *   mentioned earlier in the prompt or in recent turns
+ *
+ * Everything is heuristic and local — no LLM call — so the same input always
+ * produces the same queries.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecallQueryOptions = {
+  /** Recent user/assistant messages scanned for entity names */
+  maxTurns?: number;
+  /** Upper bound on sub-queries issued for one prompt */
+  maxQueries?: number;
+  /** Entity names appended to one expanded query */
+  maxExpansionEntities?: number;
+};
+
+export type RecallQueryPlan = {
+  queries: string[];
+  /** Entity names taken from context to expand pronoun-heavy or short queries */
+  expandedWith: string[];
+};
+
+const DEFAULT_MAX_TURNS = 4;
+const DEFAULT_MAX_QUERIES = 3;
+const DEFAULT_MAX_EXPANSION_ENTITIES = 2;
+
+/** Queries with at most this many words are treated as needing context. */
+const SHORT_QUERY_WORDS = 3;
+/** Topic segments with fewer words are merged into their neighbour. */
+const MIN_SEGMENT_WORDS = 3;
+
+const PRONOUNS = new Set([
+  "he", "him", "his", "she", "her", "hers", "they", "them", "their", "theirs",
+  "it", "its", "this", "that", "these", "those", "there",
+]);
+
+/**
+ * Capitalized words that are not entity names — sentence starters,
+ * question words, pronouns and weekdays stay out of expansions.
+ */
+const NON_ENTITY_WORDS = new Set([
+  "i", "i'm", "i've", "i'd", "i'll", "a", "an", "the", "and", "or", "but", "so", "also", "plus",
+  "what", "when", "where", "who", "whom", "whose", "why", "how", "which",
+  "is", "are", "was", "were", "do", "does", "did", "can", "could", "should", "would", "will",
+  "have", "has", "had", "please", "tell", "remind", "remember", "ok", "okay", "yes", "no",
+  "thanks", "thank", "hi", "hello", "hey", "sure", "great", "let", "let's", "my", "our", "your",
+  "you", "we", "me", "us", "if", "then", "now", "today", "tomorrow", "yesterday",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+  ...PRONOUNS,
+]);
+
+// ============================================================================
+// Message Text
+// ============================================================================
+
+/**
+ * Extract the plain text of a chat message (string content or text blocks).
+ * Returns "" for non-message values and non-text content.
+ */
+export function extractMessageText(msg: unknown): string {
+  if (!msg || typeof msg !== "object") return "";
+  const content = (msg as Record<string, unknown>).content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+
+  const textParts: string[] = [];
+  for (const block of content) {
+    if (
+      block &&
+      typeof block === "object" &&
+      (block as Record<string, unknown>).type === "text" &&
+      typeof (block as Record<string, unknown>).text === "string"
+    ) {
+      textParts.push((block as Record<string, unknown>).text as string);
+    }
+  }
+  return textParts.join("\n");
+}
+
+/** Drop context blocks this plugin injected into earlier turns. */
+function stripInjectedContext(text: string): string {
+  return text
+    .replace(/<relevant-memories>[\s\S]*?<\/relevant-memories>/g, " ")
+    .replace(/<memory-tools>[\s\S]*?<\/memory-tools>/g, " ");
+}
+
+/**
+ * Text of the last `maxTurns` user/assistant messages, oldest first.
+ * A trailing user message equal to the prompt is skipped.
+ */
+function recentTurns(messages: unknown[], prompt: string, maxTurns: number): string[] {
+  const turns: string[] = [];
+  let skippedPrompt = false;
+  for (let i = messages.length - 1; i >= 0 && turns.length < maxTurns; i--) {
+    const msg = messages[i];
+    if (!msg || typeof msg !== "object") continue;
+    const role = (msg as Record<string, unknown>).role;
+    if (role !== "user" && role !== "assistant") continue;
+
+    const text = stripInjectedContext(extractMessageText(msg)).trim();
+    if (!text) continue;
+    if (!skippedPrompt && turns.length === 0 && role === "user" && text === prompt.trim()) {
+      skippedPrompt = true;
+      continue;
+    }
+    turns.unshift(text);
+  }
+  return turns;
+}
+
+// ============================================================================
+// Heuristics
+// ============================================================================
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}'’]+/gu) ?? [];
+}
+
+/**
+ * Candidate entity names: runs of capitalized words ("Mark", "Anna Schmidt",
+ * "Acme Corp"), minus common non-entity words. Possessive "'s" is dropped.
+ * Returned in order of appearance, deduplicated case-insensitively.
+ */
+export function extractEntityNames(text: string): string[] {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  const runs = text.match(/\p{Lu}[\p{L}\p{N}'’-]*(?:\s+\p{Lu}[\p{L}\p{N}'’-]*)*/gu) ?? [];
+
+  for (const run of runs) {
+    const parts = run
+      .split(/\s+/)
+      .map((w) => w.replace(/['’]s$/u, ""))
+      .filter((w) => !NON_ENTITY_WORDS.has(w.toLowerCase()));
+    if (parts.length === 0) continue;
+    const name = parts.join(" ");
+    const key = name.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    names.push(name);
+  }
+  return names;
+}
+
+/** A query needs context when it names no one and is very short or leans on pronouns. */
+function needsContext(query: string): boolean {
+  if (extractEntityNames(query).length > 0) return false;
+  const tokens = words(query);
+  return tokens.length <= SHORT_QUERY_WORDS || tokens.some((t) => PRONOUNS.has(t));
+}
+
+/**
+ * Split a prompt into topic segments at sentence boundaries, semicolons and
+ * line breaks. Segments too short to stand alone are merged into the
+ * previous one.
+ */
+function splitTopics(prompt: string): string[] {
+  const raw = prompt
+    .split(/(?<=[?!.;])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const segments: string[] = [];
+  for (const segment of raw) {
+    if (segments.length > 0 && words(segment).length < MIN_SEGMENT_WORDS) {
+      segments[segments.length - 1] = `${segments[segments.length - 1]} ${segment}`;
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments;
+}
+
+// ============================================================================
+// Query Synthesis
+// ============================================================================
+
+/**
+ * Build the recall queries for a prompt, using recent conversation turns
+ * to resolve follow-ups. Returns the prompt unchanged (as a single query)
+ * when it names its own subjects and covers a single topic.
+ */
+export function buildRecallQueries(
+  prompt: string,
+  messages: unknown[] = [],
+  options: RecallQueryOptions = {},
+): RecallQueryPlan {
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+  const maxQueries = options.maxQueries ?? DEFAULT_MAX_QUERIES;
+  const maxExpansion = options.maxExpansionEntities ?? DEFAULT_MAX_EXPANSION_ENTITIES;
+
+  // Most recently mentioned entity first
+  const contextEntities: string[] = [];
+  for (const turn of recentTurns(messages, prompt, maxTurns)) {
+    for (const name of extractEntityNames(turn)) {
+      const existing = contextEntities.findIndex((n) => n.toLowerCase() === name.toLowerCase());
+      if (existing >= 0) contextEntities.splice(existing, 1);
+      contextEntities.unshift(name);
+    }
+  }
+
+  const segments = splitTopics(prompt);
+  const topics = segments.length > maxQueries
+    ? [...segments.slice(0, maxQueries - 1), segments.slice(maxQueries - 1).join(" ")]
+    : segments;
+
+  const queries: string[] = [];
+  const expandedWith: string[] = [];
+  for (const topic of topics) {
+    if (!needsContext(topic)) {
+      queries.push(topic);
+      // Later follow-up segments can refer back to names in this one
+      for (const name of extractEntityNames(topic).reverse()) {
+        if (!contextEntities.some((n) => n.toLowerCase() === name.toLowerCase())) {
+          contextEntities.unshift(name);
+        }
+      }
+      continue;
+    }
+
+    const topicLower = topic.toLowerCase();
+    const additions = contextEntities
+      .filter((name) => !topicLower.includes(name.toLowerCase()))
+      .slice(0, maxExpansion);
+    queries.push(additions.length > 0 ? `${topic} ${additions.join(" ")}` : topic);
+    for (const name of additions) {
+      if (!expandedWith.includes(name)) expandedWith.push(name);
+    }
+  }
+
+  return { queries: queries.length > 0 ? queries : [prompt], expandedWith };
+}
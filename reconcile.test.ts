@@ -0,0 +1,295 @@
+import { describe, test, expect, vi } from "vitest";
+
+import {
+  applyFixes,
+  conflictingFixes,
+  formatReconcileReport,
+  readFragmentTuples,
+  readGroupEpisodes,
+  scanDrift,
+  type ReconcileReport,
+} from "./reconcile.js";
+import type { GraphitiClient, GraphitiEpisode } from "./graphiti.js";
+import type { RelationshipTuple, SpiceDbClient } from "./spicedb.js";
+import type { FragmentOutbox } from "./outbox.js";
+
+function episode(uuid: string, groupId: string): GraphitiEpisode {
+  return { uuid, name: `name-${uuid}`, content: "", source_description: "", group_id: groupId, created_at: "2026-01-01T00:00:00Z" };
+}
+
+function fragment(id: string, relation: string, subjectType: string, subjectId: string): RelationshipTuple {
+  return { resourceType: "memory_fragment", resourceId: id, relation, subjectType, subjectId };
+}
+
+/** Serves `tuples` in pages of the requested size, with numeric cursors. */
+function mockSpiceDb(tuples: RelationshipTuple[]) {
+  const readRelationshipsPage = vi.fn().mockImplementation(async (req: { limit: number; cursor?: string }) => {
+    const start = req.cursor ? parseInt(req.cursor) : 0;
+    const end = start + req.limit;
+    return { tuples: tuples.slice(start, end), ...(end < tuples.length ? { cursor: String(end) } : {}) };
+  });
+  const writeRelationships = vi.fn().mockResolvedValue("tok");
+  const deleteRelationships = vi.fn().mockResolvedValue(undefined);
+  const deleteRelationshipsByFilter = vi.fn().mockResolvedValue("tok");
+  return {
+    spicedb: { readRelationshipsPage, writeRelationships, deleteRelationships, deleteRelationshipsByFilter } as unknown as SpiceDbClient,
+    readRelationshipsPage,
+    writeRelationships,
+    deleteRelationships,
+    deleteRelationshipsByFilter,
+  };
+}
+
+function mockGraphiti(byGroup: Record<string, GraphitiEpisode[]>) {
+  const getEpisodes = vi.fn().mockImplementation(async (groupId: string, lastN: number) => (byGroup[groupId] ?? []).slice(0, lastN));
+  const deleteEpisode = vi.fn().mockResolvedValue(undefined);
+  return { graphiti: { getEpisodes, deleteEpisode } as unknown as GraphitiClient, getEpisodes, deleteEpisode };
+}
+
+function mockOutbox(pending: string[] = []) {
+  return {
+    load: vi.fn(),
+    has: vi.fn((groupId: string, name: string) => pending.includes(`${groupId}/${name}`)),
+  } as unknown as FragmentOutbox;
+}
+
+describe("readGroupEpisodes", () => {
+  test("doubles the window until a page comes back short", async () => {
+    const eps = Array.from({ length: 5 }, (_, i) => episode(`ep-${i}`, "main"));
+    const { graphiti, getEpisodes } = mockGraphiti({ main: eps });
+
+    const result = await readGroupEpisodes(graphiti, "main", { pageSize: 2, maxEpisodesPerGroup: 100 });
+
+    expect(getEpisodes.mock.calls.map((c) => c[1])).toEqual([2, 4, 8]);
+    expect(result).toEqual({ episodes: eps, truncated: false });
+  });
+
+  test("reports truncation at the cap", async () => {
+    const eps = Array.from({ length: 5 }, (_, i) => episode(`ep-${i}`, "main"));
+    const { graphiti, getEpisodes } = mockGraphiti({ main: eps });
+
+    const result = await readGroupEpisodes(graphiti, "main", { pageSize: 2, maxEpisodesPerGroup: 3 });
+
+    expect(getEpisodes.mock.calls.map((c) => c[1])).toEqual([2, 3]);
+    expect(result.truncated).toBe(true);
+  });
+});
+
+describe("readFragmentTuples", () => {
+  test("follows cursors and groups tuples by fragment", async () => {
+    const { spicedb, readRelationshipsPage } = mockSpiceDb([
+      fragment("ep-1", "source_group", "group", "main"),
+      fragment("ep-1", "shared_by", "agent", "pi"),
+      fragment("ep-2", "source_group", "group", "main"),
+    ]);
+
+    const byFragment = await readFragmentTuples(spicedb, 2, "tok-1");
+
+    expect(readRelationshipsPage).toHaveBeenCalledTimes(2);
+    expect(readRelationshipsPage).toHaveBeenLastCalledWith({
+      resourceType: "memory_fragment",
+      limit: 2,
+      cursor: "2",
+      consistency: { mode: "at_least_as_fresh", token: "tok-1" },
+    });
+    expect(byFragment.get("ep-1")).toHaveLength(2);
+    expect(byFragment.get("ep-2")).toHaveLength(1);
+  });
+});
+
+describe("scanDrift", () => {
+  test("finds orphaned episodes, dangling fragments and group mismatches", async () => {
+    const { graphiti } = mockGraphiti({
+      main: [episode("ok", "main"), episode("orphan", "main"), episode("pending", "main"), episode("moved", "main")],
+      family: [episode("half", "family")],
+    });
+    const { spicedb } = mockSpiceDb([
+      fragment("ok", "source_group", "group", "main"),
+      fragment("moved", "source_group", "group", "family"),
+      fragment("half", "shared_by", "person", "mom"),
+      fragment("gone", "source_group", "group", "main"),
+      fragment("gone", "shared_by", "agent", "pi"),
+      fragment("elsewhere", "source_group", "group", "work"),
+      fragment("unplaced", "shared_by", "agent", "pi"),
+    ]);
+
+    const report = await scanDrift({ graphiti, spicedb, outbox: mockOutbox(["main/name-pending"]) }, ["main", "family"], {
+      pageSize: 100,
+      maxEpisodesPerGroup: 1000,
+    });
+
+    expect(report.episodesScanned).toBe(5);
+    expect(report.fragmentsScanned).toBe(6);
+    expect(report.pending).toEqual([{ uuid: "pending", name: "name-pending", groupId: "main" }]);
+    expect(report.orphanedEpisodes).toEqual([
+      { uuid: "orphan", name: "name-orphan", groupId: "main", createdAt: "2026-01-01T00:00:00Z" },
+      { uuid: "half", name: "name-half", groupId: "family", createdAt: "2026-01-01T00:00:00Z", sharedBy: { type: "person", id: "mom" } },
+    ]);
+    // "elsewhere" is in an unscanned group and "unplaced" has no source group
+    expect(report.danglingFragments).toEqual([{ fragmentId: "gone", sourceGroups: ["main"], relationships: 2 }]);
+    expect(report.groupMismatches).toEqual([{ uuid: "moved", name: "name-moved", episodeGroup: "main", tupleGroups: ["family"] }]);
+  });
+
+  test("reads tuples before episodes, so a memory stored mid-scan isn't dangling", async () => {
+    const stored: GraphitiEpisode[] = [];
+    const { graphiti, getEpisodes } = mockGraphiti({ main: stored });
+    const { spicedb, readRelationshipsPage } = mockSpiceDb([fragment("fresh", "source_group", "group", "main")]);
+    // The episode behind the tuple is only listed once the tuples were read
+    readRelationshipsPage.mockImplementationOnce(async () => {
+      stored.push(episode("fresh", "main"));
+      return { tuples: [fragment("fresh", "source_group", "group", "main")] };
+    });
+
+    const report = await scanDrift({ graphiti, spicedb, outbox: mockOutbox() }, ["main"], {
+      pageSize: 100,
+      maxEpisodesPerGroup: 1000,
+    });
+
+    expect(readRelationshipsPage.mock.invocationCallOrder[0]).toBeLessThan(getEpisodes.mock.invocationCallOrder[0]);
+    expect(report.danglingFragments).toEqual([]);
+  });
+
+  test("doesn't call episodes inside the grace period orphaned", async () => {
+    const now = Date.parse("2026-01-01T00:05:00Z");
+    const { graphiti } = mockGraphiti({ main: [episode("young", "main")] });
+    const { spicedb } = mockSpiceDb([]);
+
+    const scan = (graceMs: number) =>
+      scanDrift({ graphiti, spicedb, outbox: mockOutbox() }, ["main"], { pageSize: 100, maxEpisodesPerGroup: 1000, graceMs, now });
+
+    const withinGrace = await scan(10 * 60 * 1000);
+    expect(withinGrace.orphanedEpisodes).toEqual([]);
+    expect(withinGrace.pending).toEqual([{ uuid: "young", name: "name-young", groupId: "main" }]);
+
+    const pastGrace = await scan(60 * 1000);
+    expect(pastGrace.orphanedEpisodes.map((e) => e.uuid)).toEqual(["young"]);
+  });
+
+  test("doesn't call fragments dangling for truncated or unreadable groups", async () => {
+    const { graphiti, getEpisodes } = mockGraphiti({ main: [episode("a", "main"), episode("b", "main")] });
+    getEpisodes.mockImplementation(async (groupId: string, lastN: number) => {
+      if (groupId === "broken") throw new Error("boom");
+      return [episode("a", "main"), episode("b", "main")].slice(0, lastN);
+    });
+    const { spicedb } = mockSpiceDb([
+      fragment("gone-1", "source_group", "group", "main"),
+      fragment("gone-2", "source_group", "group", "broken"),
+    ]);
+
+    const report = await scanDrift({ graphiti, spicedb, outbox: mockOutbox() }, ["main", "broken"], {
+      pageSize: 1,
+      maxEpisodesPerGroup: 1,
+    });
+
+    expect(report.truncated).toEqual(["main"]);
+    expect(report.skipped).toEqual([{ groupId: "broken", error: "Error: boom" }]);
+    expect(report.danglingFragments).toEqual([]);
+  });
+});
+
+describe("applyFixes", () => {
+  function report(): ReconcileReport {
+    return {
+      groups: ["main"],
+      episodesScanned: 3,
+      fragmentsScanned: 2,
+      truncated: [],
+      skipped: [],
+      pending: [],
+      orphanedEpisodes: [
+        { uuid: "orphan", name: "o", groupId: "main", createdAt: "" },
+        { uuid: "half", name: "h", groupId: "main", createdAt: "", sharedBy: { type: "person", id: "mom" } },
+      ],
+      danglingFragments: [{ fragmentId: "gone", sourceGroups: ["main"], relationships: 2 }],
+      groupMismatches: [{ uuid: "moved", name: "m", episodeGroup: "main", tupleGroups: ["family", "main"] }],
+      fixes: [],
+    };
+  }
+
+  test("re-links orphans, keeping a surviving sharer", async () => {
+    const { spicedb, writeRelationships } = mockSpiceDb([]);
+    const { graphiti } = mockGraphiti({});
+
+    const fixes = await applyFixes({ graphiti, spicedb }, report(), ["relink-orphans"], { type: "agent", id: "pi" });
+
+    expect(fixes).toEqual([
+      { action: "relink-orphans", target: "orphan", ok: true },
+      { action: "relink-orphans", target: "half", ok: true },
+    ]);
+    expect(writeRelationships.mock.calls[0][0]).toContainEqual(fragment("orphan", "shared_by", "agent", "pi"));
+    expect(writeRelationships.mock.calls[1][0]).toContainEqual(fragment("half", "shared_by", "person", "mom"));
+    expect(writeRelationships.mock.calls[1][0]).toContainEqual(fragment("half", "source_group", "group", "main"));
+  });
+
+  test("deletes orphans, dangling tuples and wrong source groups", async () => {
+    const { spicedb, writeRelationships, deleteRelationships, deleteRelationshipsByFilter } = mockSpiceDb([]);
+    const { graphiti, deleteEpisode } = mockGraphiti({});
+    deleteEpisode.mockImplementation(async (uuid: string) => {
+      if (uuid === "half") throw new Error("not found");
+    });
+
+    const fixes = await applyFixes(
+      { graphiti, spicedb },
+      report(),
+      ["delete-orphans", "delete-dangling", "relink-mismatched"],
+      { type: "agent", id: "pi" },
+    );
+
+    expect(deleteEpisode).toHaveBeenCalledWith("orphan");
+    expect(fixes).toContainEqual({ action: "delete-orphans", target: "half", ok: false, error: "not found" });
+    expect(deleteRelationshipsByFilter).toHaveBeenCalledWith({ resourceType: "memory_fragment", resourceId: "gone" });
+    expect(writeRelationships).toHaveBeenCalledWith([fragment("moved", "source_group", "group", "main")]);
+    expect(deleteRelationships).toHaveBeenCalledWith([fragment("moved", "source_group", "group", "family")]);
+    expect(fixes.filter((f) => f.ok)).toHaveLength(3);
+  });
+});
+
+describe("conflictingFixes", () => {
+  test("flags two fixes for the same category", () => {
+    expect(conflictingFixes(["relink-orphans", "delete-orphans"])).toBe(true);
+    expect(conflictingFixes(["relink-orphans", "delete-dangling", "relink-orphans"])).toBe(false);
+  });
+});
+
+describe("formatReconcileReport", () => {
+  test("lists each category with its fix", () => {
+    const lines = formatReconcileReport({
+      groups: ["main"],
+      episodesScanned: 2,
+      fragmentsScanned: 1,
+      truncated: [],
+      skipped: [],
+      pending: [],
+      orphanedEpisodes: [{ uuid: "orphan", name: "o", groupId: "main", createdAt: "2026-01-01" }],
+      danglingFragments: [],
+      groupMismatches: [],
+      fixes: [{ action: "delete-orphans", target: "orphan", ok: false, error: "boom" }],
+    });
+
+    expect(lines).toEqual([
+      "Scanned 2 episodes in 1 group(s) and 1 memory fragments.",
+      "",
+      "Orphaned episodes (1) — fix: --fix relink-orphans or delete-orphans",
+      '  orphan "o" in main (created 2026-01-01)',
+      "",
+      "Applied 0 of 1 fixes.",
+      "  Failed delete-orphans orphan: boom",
+    ]);
+  });
+
+  test("says so when there is no drift", () => {
+    const lines = formatReconcileReport({
+      groups: [],
+      episodesScanned: 0,
+      fragmentsScanned: 0,
+      truncated: [],
+      skipped: [],
+      pending: [],
+      orphanedEpisodes: [],
+      danglingFragments: [],
+      groupMismatches: [],
+      fixes: [],
+    });
+    expect(lines).toContain("No drift found.");
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * SpiceDB ↔ Graphiti Reconciliation
+ *
+ * `cleanup` only finds episodes without a source_group tuple, in one group's
+ * most recent N. Reconcile scans every authorized group and every
+ * memory_fragment tuple and reports each kind of drift between the stores:
+ *
+ * - orphaned episodes: in Graphiti, with no source_group tuple, no pending
+ *   outbox entry and older than the grace period — invisible to the group
+ * - dangling fragments: tuples for an episode that no longer exists
+ * - group mismatches: the tuple's source_group differs from the episode's
+ *   group_id, so the wrong group's members can see it
+ *
+ * Each category has its own fix, applied only when asked for.
+ *
+ * The scan runs against live stores, so its reads are ordered: the outbox
+ * first, then the tuples, then the episodes. Tuples are only written once
+ * Graphiti lists the episode, so any episode behind a tuple read earlier is
+ * listed too — a memory stored mid-scan never looks dangling. An episode
+ * stored mid-scan may lack the tuples read before it; its outbox entry, or
+ * failing that the grace period, keeps it from looking orphaned.
+ *
+ * Used by `graphiti-mem reconcile`.
+ */
+
+import type { GraphitiClient, GraphitiEpisode } from "./graphiti.js";
+import type { RelationshipTuple, SpiceDbClient } from "./spicedb.js";
+import type { FragmentOutbox } from "./outbox.js";
+import { deleteFragmentRelationships, writeFragmentRelationships, type Subject } from "./authorization.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DriftCategory = "orphaned_episodes" | "dangling_fragments" | "group_mismatches";
+
+/** Fix actions and the drift category each one repairs. */
+export const FIX_ACTIONS = {
+  /** Write source_group (and shared_by) for the episode's own group */
+  "relink-orphans": "orphaned_episodes",
+  /** Delete the episode from Graphiti, and any leftover tuples */
+  "delete-orphans": "orphaned_episodes",
+  /** Delete every tuple of the missing episode's fragment */
+  "delete-dangling": "dangling_fragments",
+  /** Point source_group at the episode's actual group */
+  "relink-mismatched": "group_mismatches",
+} as const satisfies Record<string, DriftCategory>;
+
+export type FixAction = keyof typeof FIX_ACTIONS;
+
+export type OrphanedEpisode = {
+  uuid: string;
+  name: string;
+  groupId: string;
+  createdAt: string;
+  /** Sharer from leftover tuples, if any survived */
+  sharedBy?: Subject;
+};
+
+export type DanglingFragment = {
+  fragmentId: string;
+  sourceGroups: string[];
+  /** Number of tuples on the fragment */
+  relationships: number;
+};
+
+export type GroupMismatch = {
+  uuid: string;
+  name: string;
+  /** Where the episode actually lives */
+  episodeGroup: string;
+  /** What its source_group tuples say */
+  tupleGroups: string[];
+};
+
+export type FixResult = {
+  action: FixAction;
+  /** Episode / fragment UUID */
+  target: string;
+  ok: boolean;
+  error?: string;
+};
+
+export type ReconcileReport = {
+  groups: string[];
+  episodesScanned: number;
+  fragmentsScanned: number;
+  /** Groups with more episodes than the scan limit — dangling checks skip them */
+  truncated: string[];
+  /** Groups whose episodes couldn't be read — dangling checks skip them */
+  skipped: { groupId: string; error: string }[];
+  /** Episodes without tuples that have a pending outbox entry or are within the grace period */
+  pending: { uuid: string; name: string; groupId: string }[];
+  orphanedEpisodes: OrphanedEpisode[];
+  danglingFragments: DanglingFragment[];
+  groupMismatches: GroupMismatch[];
+  fixes: FixResult[];
+};
+
+export type ReconcileOptions = {
+  /** Relationships per ReadRelationships page, and first get_episodes window */
+  pageSize: number;
+  /** Stop widening a group's get_episodes window here */
+  maxEpisodesPerGroup: number;
+};
+
+/** Episodes created this recently may still be waiting for their tuples. */
+export const DEFAULT_ORPHAN_GRACE_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+/**
+ * All of a group's episodes, up to `maxEpisodesPerGroup`. get_episodes only
+ * returns the most recent N, with no offset, so the window doubles from
+ * `pageSize` until a call returns fewer than asked for.
+ */
+export async function readGroupEpisodes(
+  graphiti: GraphitiClient,
+  groupId: string,
+  options: ReconcileOptions,
+): Promise<{ episodes: GraphitiEpisode[]; truncated: boolean }> {
+  let window = Math.min(options.pageSize, options.maxEpisodesPerGroup);
+  for (;;) {
+    const episodes = await graphiti.getEpisodes(groupId, window);
+    if (episodes.length < window) return { episodes, truncated: false };
+    if (window >= options.maxEpisodesPerGroup) return { episodes, truncated: true };
+    window = Math.min(window * 2, options.maxEpisodesPerGroup);
+  }
+}
+
+/** Every memory_fragment tuple, grouped by fragment, read page by page. */
+export async function readFragmentTuples(
+  spicedb: SpiceDbClient,
+  pageSize: number,
+  zedToken?: string,
+): Promise<Map<string, RelationshipTuple[]>> {
+  const byFragment = new Map<string, RelationshipTuple[]>();
+  let cursor: string | undefined;
+  do {
+    const page = await spicedb.readRelationshipsPage({
+      resourceType: "memory_fragment",
+      limit: pageSize,
+      cursor,
+      consistency: zedToken ? { mode: "at_least_as_fresh", token: zedToken } : undefined,
+    });
+    for (const t of page.tuples) {
+      byFragment.set(t.resourceId, [...(byFragment.get(t.resourceId) ?? []), t]);
+    }
+    cursor = page.cursor;
+  } while (cursor);
+  return byFragment;
+}
+
+function sourceGroupsOf(tuples: RelationshipTuple[]): string[] {
+  return tuples.filter((t) => t.relation === "source_group").map((t) => t.subjectId);
+}
+
+/**
+ * Compare the episodes of `groups` with all memory_fragment tuples. A
+ * fragment is reported dangling only if its source group was scanned in
+ * full; fragments with no source_group at all can't be placed and are only
+ * considered when their episode is found.
+ */
+export async function scanDrift(
+  deps: { graphiti: GraphitiClient; spicedb: SpiceDbClient; outbox: FragmentOutbox },
+  groups: string[],
+  options: ReconcileOptions & { zedToken?: string; graceMs?: number; now?: number },
+): Promise<ReconcileReport> {
+  const { graphiti, spicedb, outbox } = deps;
+  const report: ReconcileReport = {
+    groups,
+    episodesScanned: 0,
+    fragmentsScanned: 0,
+    truncated: [],
+    skipped: [],
+    pending: [],
+    orphanedEpisodes: [],
+    danglingFragments: [],
+    groupMismatches: [],
+    fixes: [],
+  };
+
+  // Outbox, then tuples, then episodes — see the module comment
+  await outbox.load();
+  const fragments = await readFragmentTuples(spicedb, options.pageSize, options.zedToken);
+  report.fragmentsScanned = fragments.size;
+
+  const episodes = new Map<string, GraphitiEpisode & { groupId: string }>();
+  for (const groupId of groups) {
+    try {
+      const result = await readGroupEpisodes(graphiti, groupId, options);
+      if (result.truncated) report.truncated.push(groupId);
+      for (const ep of result.episodes) episodes.set(ep.uuid, { ...ep, groupId: ep.group_id || groupId });
+    } catch (err) {
+      report.skipped.push({ groupId, error: String(err) });
+    }
+  }
+  report.episodesScanned = episodes.size;
+
+  const graceStart = (options.now ?? Date.now()) - (options.graceMs ?? DEFAULT_ORPHAN_GRACE_MS);
+  for (const ep of episodes.values()) {
+    const tuples = fragments.get(ep.uuid) ?? [];
+    const sourceGroups = sourceGroupsOf(tuples);
+    if (sourceGroups.length === 0) {
+      if (outbox.has(ep.groupId, ep.name) || new Date(ep.created_at).getTime() > graceStart) {
+        report.pending.push({ uuid: ep.uuid, name: ep.name, groupId: ep.groupId });
+        continue;
+      }
+      const sharer = tuples.find((t) => t.relation === "shared_by");
+      report.orphanedEpisodes.push({
+        uuid: ep.uuid,
+        name: ep.name,
+        groupId: ep.groupId,
+        createdAt: ep.created_at,
+        ...(sharer ? { sharedBy: { type: sharer.subjectType as Subject["type"], id: sharer.subjectId } } : {}),
+      });
+    } else if (sourceGroups.length > 1 || sourceGroups[0] !== ep.groupId) {
+      report.groupMismatches.push({ uuid: ep.uuid, name: ep.name, episodeGroup: ep.groupId, tupleGroups: sourceGroups });
+    }
+  }
+
+  const fullyScanned = new Set(
+    groups.filter((g) => !report.truncated.includes(g) && !report.skipped.some((s) => s.groupId === g)),
+  );
+  for (const [fragmentId, tuples] of fragments) {
+    if (episodes.has(fragmentId)) continue;
+    const sourceGroups = sourceGroupsOf(tuples);
+    if (sourceGroups.length > 0 && sourceGroups.every((g) => fullyScanned.has(g))) {
+      report.danglingFragments.push({ fragmentId, sourceGroups, relationships: tuples.length });
+    }
+  }
+
+  return report;
+}
+
+// ============================================================================
+// Fixes
+// ============================================================================
+
+/** Whether `actions` contains two fixes for the same category. */
+export function conflictingFixes(actions: FixAction[]): boolean {
+  const categories = actions.map((a) => FIX_ACTIONS[a]);
+  return new Set(categories).size < new Set(actions).size;
+}
+
+/**
+ * Apply the requested fixes to the drift in `report`. Orphans re-linked
+ * without a surviving sharer get `sharer` (the operator's subject), as
+ * `import` does. Each fix is attempted independently.
+ */
+export async function applyFixes(
+  deps: { graphiti: GraphitiClient; spicedb: SpiceDbClient },
+  report: ReconcileReport,
+  actions: FixAction[],
+  sharer: Subject,
+): Promise<FixResult[]> {
+  const { graphiti, spicedb } = deps;
+  const results: FixResult[] = [];
+  const attempt = async (action: FixAction, target: string, fix: () => Promise<unknown>) => {
+    try {
+      await fix();
+      results.push({ action, target, ok: true });
+    } catch (err) {
+      results.push({ action, target, ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  for (const action of new Set(actions)) {
+    switch (action) {
+      case "relink-orphans":
+        for (const ep of report.orphanedEpisodes) {
+          await attempt(action, ep.uuid, () =>
+            writeFragmentRelationships(spicedb, { fragmentId: ep.uuid, groupId: ep.groupId, sharedBy: ep.sharedBy ?? sharer }),
+          );
+        }
+        break;
+      case "delete-orphans":
+        for (const ep of report.orphanedEpisodes) {
+          await attempt(action, ep.uuid, async () => {
+            await graphiti.deleteEpisode(ep.uuid);
+            // Leftover shared_by/involves tuples, if any
+            await deleteFragmentRelationships(spicedb, ep.uuid);
+          });
+        }
+        break;
+      case "delete-dangling":
+        for (const f of report.danglingFragments) {
+          await attempt(action, f.fragmentId, () => deleteFragmentRelationships(spicedb, f.fragmentId));
+        }
+        break;
+      case "relink-mismatched":
+        for (const m of report.groupMismatches) {
+          // Write the right group before removing the wrong ones, so the
+          // episode never loses its source group
+          await attempt(action, m.uuid, async () => {
+            const sourceGroup = (groupId: string): RelationshipTuple => ({
+              resourceType: "memory_fragment",
+              resourceId: m.uuid,
+              relation: "source_group",
+              subjectType: "group",
+              subjectId: groupId,
+            });
+            await spicedb.writeRelationships([sourceGroup(m.episodeGroup)]);
+            const wrong = m.tupleGroups.filter((g) => g !== m.episodeGroup);
+            if (wrong.length > 0) await spicedb.deleteRelationships(wrong.map(sourceGroup));
+          });
+        }
+        break;
+    }
+  }
+  return results;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/** The report as text: scan summary, then one section per non-empty category. */
+export function formatReconcileReport(report: ReconcileReport): string[] {
+  const lines = [
+    `Scanned ${report.episodesScanned} episodes in ${report.groups.length} group(s) and ${report.fragmentsScanned} memory fragments.`,
+  ];
+  for (const groupId of report.truncated) {
+    lines.push(`  Warning: ${groupId} has more episodes than were scanned — raise --max-episodes`);
+  }
+  for (const { groupId, error } of report.skipped) {
+    lines.push(`  Skipped ${groupId}: ${error}`);
+  }
+  if (report.pending.length > 0) {
+    lines.push(`Skipping ${report.pending.length} episodes whose SpiceDB writes may still be pending (outbox or grace period).`);
+  }
+
+  const section = (title: string, fix: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push("", `${title} (${items.length}) — fix: ${fix}`, ...items.map((i) => `  ${i}`));
+  };
+  section(
+    "Orphaned episodes",
+    "--fix relink-orphans or delete-orphans",
+    report.orphanedEpisodes.map((e) => `${e.uuid} "${e.name}" in ${e.groupId} (created ${e.createdAt})`),
+  );
+  section(
+    "Dangling fragments",
+    "--fix delete-dangling",
+    report.danglingFragments.map((f) => `${f.fragmentId} → ${f.sourceGroups.join(", ")} (${f.relationships} tuples, episode missing)`),
+  );
+  section(
+    "Group mismatches",
+    "--fix relink-mismatched",
+    report.groupMismatches.map((m) => `${m.uuid} "${m.name}" lives in ${m.episodeGroup}, tuples say ${m.tupleGroups.join(", ")}`),
+  );
+
+  if (report.orphanedEpisodes.length + report.danglingFragments.length + report.groupMismatches.length === 0) {
+    lines.push("No drift found.");
+  }
+  if (report.fixes.length > 0) {
+    const failed = report.fixes.filter((f) => !f.ok);
+    lines.push("", `Applied ${report.fixes.length - failed.length} of ${report.fixes.length} fixes.`);
+    for (const f of failed) {
+      lines.push(`  Failed ${f.action} ${f.target}: ${f.error}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,227 @@
+/**
+ * PII and Secret Redaction
+ *
+ * Runs in front of every graphiti.addEpisode call (memory_store,
+ * memory_update, auto-capture and `graphiti-mem import`) so secrets pasted
+ * into chat don't become graph facts. Episode content is checked one message
+ * at a time against built-in detectors and config-defined regexes; what
+ * happens on a match depends on the target group's policy:
+ *
+ * - mask:  matches are replaced with "[REDACTED:<detector>]"
+ * - drop:  messages with a match are left out of the episode
+ * - block: the whole episode is not stored
+ *
+ * Further detectors can be plugged in via the Redactor constructor.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RedactionPolicy = "mask" | "drop" | "block";
+
+export type Detector = {
+  name: string;
+  /** Must have the global flag */
+  pattern: RegExp;
+  /** Extra check on a match (e.g. Luhn); unmatched when it returns false */
+  validate?: (match: string) => boolean;
+};
+
+export type RedactionConfig = {
+  enabled: boolean;
+  /** Policy for groups without an entry in `groups` */
+  policy: RedactionPolicy;
+  /** Built-in detectors to run */
+  detectors: BuiltinDetectorName[];
+  /** Custom detectors: name → regular expression source */
+  patterns: Record<string, string>;
+  /** Group ID (or "prefix*") → policy */
+  groups: Record<string, RedactionPolicy>;
+};
+
+export type RedactionOutcome = {
+  policy: RedactionPolicy;
+  /** Messages to store — empty when blocked or everything was dropped */
+  messages: string[];
+  /** Input index of each entry in `messages` */
+  kept: number[];
+  /** Match count per detector */
+  findings: Record<string, number>;
+  droppedMessages: number;
+  blocked: boolean;
+};
+
+// ============================================================================
+// Built-in Detectors
+// ============================================================================
+
+/** Luhn checksum over the digits of a candidate card number. */
+export function luhnValid(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/** Ordered so that more specific detectors claim a match first. */
+export const BUILTIN_DETECTORS = {
+  jwt: {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]+/g,
+  },
+  api_key: {
+    name: "api_key",
+    pattern: new RegExp(
+      [
+        "\\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}", // OpenAI / Anthropic
+        "\\bAKIA[0-9A-Z]{16}\\b", // AWS access key ID
+        "\\bgh[pousr]_[A-Za-z0-9]{36,}\\b", // GitHub tokens
+        "\\bgithub_pat_[A-Za-z0-9_]{22,}", // GitHub fine-grained PAT
+        "\\bglpat-[A-Za-z0-9_-]{20,}", // GitLab PAT
+        "\\bxox[abprs]-[A-Za-z0-9-]{10,}", // Slack
+        "\\bAIza[0-9A-Za-z_-]{35}\\b", // Google API key
+        "\\b(?:sk|rk|pk)_(?:live|test)_[0-9A-Za-z]{16,}", // Stripe
+      ].join("|"),
+      "g",
+    ),
+  },
+  credit_card: {
+    name: "credit_card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhnValid,
+  },
+  email: {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  phone: {
+    name: "phone",
+    // Not part of a longer digit run (e.g. an invalid card number)
+    pattern: /(?<![\w+]|\d[ .-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}[ .-]\d{3,4}[ .-]?\d{2,4}(?![\w-]|[ .-]\d)/g,
+    validate: (match: string) => {
+      const digits = match.replace(/\D/g, "").length;
+      return digits >= 8 && digits <= 15;
+    },
+  },
+} satisfies Record<string, Detector>;
+
+export type BuiltinDetectorName = keyof typeof BUILTIN_DETECTORS;
+
+export const BUILTIN_DETECTOR_NAMES = Object.keys(BUILTIN_DETECTORS) as BuiltinDetectorName[];
+
+/**
+ * Detectors enabled when `redaction.detectors` is not set. Emails and phone
+ * numbers are opt-in: contact details are something users routinely ask the
+ * agent to remember.
+ */
+export const DEFAULT_DETECTORS: BuiltinDetectorName[] = ["jwt", "api_key", "credit_card"];
+
+// ============================================================================
+// Redactor
+// ============================================================================
+
+export class Redactor {
+  private readonly detectors: Detector[];
+
+  constructor(
+    private readonly config: RedactionConfig,
+    extraDetectors: Detector[] = [],
+  ) {
+    this.detectors = [
+      ...config.detectors.map((name) => BUILTIN_DETECTORS[name]),
+      ...Object.entries(config.patterns).map(([name, source]) => ({
+        name,
+        pattern: new RegExp(source, "g"),
+      })),
+      ...extraDetectors,
+    ];
+  }
+
+  /**
+   * Policy for a group: an exact `groups` entry, else the longest matching
+   * "prefix*" entry, else the default policy.
+   */
+  policyFor(groupId: string): RedactionPolicy {
+    const exact = this.config.groups[groupId];
+    if (exact) return exact;
+    let best: { length: number; policy: RedactionPolicy } | undefined;
+    for (const [key, policy] of Object.entries(this.config.groups)) {
+      if (!key.endsWith("*")) continue;
+      const prefix = key.slice(0, -1);
+      if (groupId.startsWith(prefix) && (!best || prefix.length > best.length)) {
+        best = { length: prefix.length, policy };
+      }
+    }
+    return best?.policy ?? this.config.policy;
+  }
+
+  /** Apply the group's policy to episode content split into messages. */
+  redact(groupId: string, messages: string[]): RedactionOutcome {
+    const policy = this.policyFor(groupId);
+    const outcome: RedactionOutcome = {
+      policy,
+      messages: [],
+      kept: [],
+      findings: {},
+      droppedMessages: 0,
+      blocked: false,
+    };
+    if (!this.config.enabled) {
+      outcome.messages = [...messages];
+      outcome.kept = messages.map((_, i) => i);
+      return outcome;
+    }
+
+    messages.forEach((message, index) => {
+      let text = message;
+      let matched = false;
+      for (const detector of this.detectors) {
+        text = text.replace(detector.pattern, (match) => {
+          if (detector.validate && !detector.validate(match)) return match;
+          matched = true;
+          outcome.findings[detector.name] = (outcome.findings[detector.name] ?? 0) + 1;
+          return `[REDACTED:${detector.name}]`;
+        });
+      }
+      if (matched && policy !== "mask") {
+        outcome.droppedMessages++;
+        return;
+      }
+      outcome.messages.push(matched ? text : message);
+      outcome.kept.push(index);
+    });
+
+    if (policy === "block" && outcome.droppedMessages > 0) {
+      outcome.blocked = true;
+      outcome.messages = [];
+      outcome.kept = [];
+    }
+    return outcome;
+  }
+}
+
+/** True if anything was detected. */
+export function hasFindings(outcome: RedactionOutcome): boolean {
+  return Object.keys(outcome.findings).length > 0;
+}
+
+/** Human-readable summary, e.g. "masked 1 api_key, 2 email". */
+export function describeRedaction(outcome: RedactionOutcome): string {
+  const counts = Object.entries(outcome.findings)
+    .map(([name, count]) => `${count} ${name}`)
+    .join(", ");
+  if (outcome.blocked) return `blocked (found ${counts})`;
+  if (outcome.policy === "drop") {
+    return `dropped ${outcome.droppedMessages} message${outcome.droppedMessages === 1 ? "" : "s"} (found ${counts})`;
+  }
+  return `masked ${counts}`;
+}
@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, test, expect, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  EmptySessionGroups,
+  deleteSessionGroup,
+  gcSessionGroups,
+  hasRetentionLimit,
+  listSessionGroups,
+  selectExpiredSessionGroups,
+  type SessionGroupInfo,
+} from "./retention.js";
+import { FragmentOutbox } from "./outbox.js";
+import type { GraphitiClient } from "./graphiti.js";
+import type { SpiceDbClient, RelationshipTuple } from "./spicedb.js";
+
+const now = new Date("2026-10-19T00:00:00Z");
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "retention-test-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const member = (groupId: string, subjectId: string): RelationshipTuple => ({
+  resourceType: "group",
+  resourceId: groupId,
+  relation: "member",
+  subjectType: "agent",
+  subjectId,
+});
+
+function mocks(lastActivity: Record<string, string | undefined>, memberTuples: RelationshipTuple[]) {
+  const graphiti = {
+    getEpisodes: vi.fn().mockImplementation(async (groupId: string) => {
+      if (groupId === "session-broken") throw new Error("Graphiti down");
+      const at = lastActivity[groupId];
+      return at ? [{ uuid: `ep-${groupId}`, created_at: at }] : [];
+    }),
+    clearGraph: vi.fn().mockResolvedValue(undefined),
+  };
+  const spicedb = {
+    readRelationships: vi.fn().mockImplementation(async (req: { resourceType: string; subjectId?: string }) => {
+      if (req.resourceType === "group") return memberTuples;
+      return [
+        { resourceType: "memory_fragment", resourceId: `frag-${req.subjectId}`, relation: "source_group", subjectType: "group", subjectId: req.subjectId },
+      ];
+    }),
+    deleteRelationshipsByFilter: vi.fn().mockResolvedValue("del-tok"),
+  };
+  return {
+    graphiti,
+    spicedb,
+    g: graphiti as unknown as GraphitiClient,
+    s: spicedb as unknown as SpiceDbClient,
+  };
+}
+
+describe("selectExpiredSessionGroups", () => {
+  const groups: SessionGroupInfo[] = [
+    { groupId: "session-new", members: ["agent:pi"], lastActivity: "2026-10-18T00:00:00Z" },
+    { groupId: "session-mid", members: ["agent:pi"], lastActivity: "2026-10-01T00:00:00Z" },
+    { groupId: "session-old", members: ["agent:pi"], lastActivity: "2026-08-01T00:00:00Z" },
+    { groupId: "session-empty", members: ["agent:bot"], emptySince: "2026-10-18T00:00:00Z" },
+  ];
+
+  test("expires groups older than maxAgeDays, including groups long without episodes", () => {
+    const expired = selectExpiredSessionGroups(groups, { maxAgeDays: 30 }, now);
+    expect(expired.map((g) => [g.groupId, g.reason])).toEqual([
+      ["session-old", "max_age"],
+      ["session-empty", "max_age"],
+    ]);
+  });
+
+  test("keeps only each subject's newest maxPerSubject groups", () => {
+    const expired = selectExpiredSessionGroups(groups, { maxPerSubject: 1 }, now);
+    expect(expired.map((g) => [g.groupId, g.reason])).toEqual([
+      ["session-mid", "max_per_subject"],
+      ["session-old", "max_per_subject"],
+    ]);
+  });
+
+  test("keeps a shared group that is among one member's newest", () => {
+    const shared: SessionGroupInfo[] = [
+      { groupId: "session-a", members: ["agent:pi"], lastActivity: "2026-10-18T00:00:00Z" },
+      { groupId: "session-b", members: ["agent:pi", "person:mark"], lastActivity: "2026-10-10T00:00:00Z" },
+    ];
+    expect(selectExpiredSessionGroups(shared, { maxPerSubject: 1 }, now)).toEqual([]);
+  });
+
+  test("keeps a group without episodes during the grace period, as the newest", () => {
+    const fresh: SessionGroupInfo[] = [
+      { groupId: "session-a", members: ["agent:pi"], lastActivity: "2026-10-18T00:00:00Z" },
+      { groupId: "session-new", members: ["agent:pi"], emptySince: "2026-10-18T23:30:00Z" },
+      { groupId: "session-unseen", members: ["agent:bot"] },
+    ];
+    expect(selectExpiredSessionGroups(fresh, { maxAgeDays: 0.5 }, now).map((g) => g.groupId)).toEqual(["session-a"]);
+    expect(selectExpiredSessionGroups(fresh, { maxPerSubject: 1 }, now).map((g) => g.groupId)).toEqual(["session-a"]);
+  });
+
+  test("expires nothing without limits", () => {
+    expect(hasRetentionLimit({})).toBe(false);
+    expect(selectExpiredSessionGroups(groups, {}, now)).toEqual([]);
+  });
+});
+
+describe("listSessionGroups", () => {
+  test("groups member tuples of session groups and reads their latest episode", async () => {
+    const { g, s } = mocks(
+      { "session-a": "2026-10-18T00:00:00Z" },
+      [member("session-a", "pi"), member("session-a", "bot"), member("main", "pi"), member("session-broken", "pi")],
+    );
+
+    const { groups, skipped } = await listSessionGroups(g, s);
+
+    expect(groups).toEqual([
+      { groupId: "session-a", members: ["agent:pi", "agent:bot"], lastActivity: "2026-10-18T00:00:00Z" },
+    ]);
+    expect(skipped).toEqual([{ groupId: "session-broken", error: "Error: Graphiti down" }]);
+  });
+
+  test("remembers when a group was first seen without episodes", async () => {
+    const path = join(dir, "empty-session-groups.json");
+    writeFileSync(path, JSON.stringify({ "session-a": "2026-10-01T00:00:00Z", "session-gone": "2026-10-01T00:00:00Z" }));
+    const emptyGroups = new EmptySessionGroups(path);
+    const { g, s } = mocks({}, [member("session-a", "pi"), member("session-b", "pi")]);
+
+    const { groups } = await listSessionGroups(g, s, { emptyGroups, now });
+
+    expect(groups.map((x) => [x.groupId, x.emptySince])).toEqual([
+      ["session-a", "2026-10-01T00:00:00Z"],
+      ["session-b", now.toISOString()],
+    ]);
+    expect(JSON.parse(readFileSync(path, "utf-8"))).toEqual({
+      "session-a": "2026-10-01T00:00:00Z",
+      "session-b": now.toISOString(),
+    });
+  });
+});
+
+describe("deleteSessionGroup", () => {
+  test("clears the graph, then fragment and group tuples", async () => {
+    const { graphiti, spicedb, g, s } = mocks({}, []);
+
+    await deleteSessionGroup(g, s, "session-a");
+
+    expect(graphiti.clearGraph).toHaveBeenCalledWith(["session-a"]);
+    expect(spicedb.deleteRelationshipsByFilter.mock.calls.map((c) => c[0])).toEqual([
+      { resourceType: "memory_fragment", resourceId: "frag-session-a" },
+      { resourceType: "group", resourceId: "session-a" },
+    ]);
+  });
+
+  test("refuses non-session groups", async () => {
+    const { graphiti, g, s } = mocks({}, []);
+    await expect(deleteSessionGroup(g, s, "main")).rejects.toThrow("non-session group");
+    expect(graphiti.clearGraph).not.toHaveBeenCalled();
+  });
+});
+
+describe("gcSessionGroups", () => {
+  const lastActivity = { "session-old": "2026-01-01T00:00:00Z", "session-live": "2026-01-01T00:00:00Z" };
+  const tuples = [member("session-old", "pi"), member("session-live", "pi")];
+
+  test("reports without deleting on a dry run", async () => {
+    const { graphiti, g, s } = mocks(lastActivity, tuples);
+
+    const report = await gcSessionGroups(g, s, { maxAgeDays: 30 }, { dryRun: true, now });
+
+    expect(report.expired.map((e) => e.groupId)).toEqual(["session-old", "session-live"]);
+    expect(report.deleted).toEqual([]);
+    expect(graphiti.clearGraph).not.toHaveBeenCalled();
+  });
+
+  test("deletes expired groups except excluded ones", async () => {
+    const { graphiti, g, s } = mocks(lastActivity, tuples);
+
+    const report = await gcSessionGroups(g, s, { maxAgeDays: 30 }, { exclude: new Set(["session-live"]), now });
+
+    expect(report).toMatchObject({ scanned: 2, deleted: ["session-old"], failed: [], token: "del-tok" });
+    expect(graphiti.clearGraph).toHaveBeenCalledTimes(1);
+  });
+
+  test("skips groups with pending outbox entries", async () => {
+    const { graphiti, g, s } = mocks(lastActivity, tuples);
+    const outbox = new FragmentOutbox(join(dir, "outbox.jsonl"));
+    await outbox.add({
+      episodeName: "ep",
+      groupId: "session-live",
+      sharedBy: { type: "agent", id: "pi" },
+      involves: [],
+    });
+
+    const report = await gcSessionGroups(g, s, { maxAgeDays: 30 }, { outbox, now });
+
+    expect(report.deleted).toEqual(["session-old"]);
+    expect(graphiti.clearGraph).toHaveBeenCalledWith(["session-old"]);
+  });
+
+  test("leaves a new group without episodes alone until the grace period ends", async () => {
+    const emptyGroups = new EmptySessionGroups(join(dir, "empty-session-groups.json"));
+    const { g, s } = mocks({}, [member("session-new", "pi")]);
+
+    const first = await gcSessionGroups(g, s, { maxAgeDays: 30 }, { dryRun: true, emptyGroups, now });
+    const later = await gcSessionGroups(g, s, { maxAgeDays: 30 }, {
+      dryRun: true,
+      emptyGroups,
+      now: new Date(now.getTime() + 2 * 60 * 60 * 1000),
+    });
+
+    expect(first.expired).toEqual([]);
+    expect(later.expired.map((e) => e.groupId)).toEqual(["session-new"]);
+  });
+});
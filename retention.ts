@@ -0,0 +1,267 @@
+/**
+ * Session Group Retention
+ *
+ * Every session gets its own `session-<key>` group, and nothing removed them,
+ * so lookupAuthorizedGroups — and with it every recall's search fan-out —
+ * kept growing. Garbage collection drops session groups that are older than
+ * `maxAgeDays` (by their latest episode) or beyond the newest
+ * `maxPerSubject` sessions of each member: the group's graph data is cleared
+ * in Graphiti and its group and memory_fragment tuples are removed from
+ * SpiceDB.
+ *
+ * A group without episodes may belong to a session whose first episode
+ * Graphiti hasn't processed yet, so it only expires once it has been seen
+ * empty for EMPTY_GROUP_GRACE_MS — first sightings are kept in
+ * <plugin state dir>/empty-session-groups.json across runs. Groups with a
+ * pending outbox entry are never touched.
+ *
+ * Used by `graphiti-mem gc-sessions` and the service's scheduled run.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+import type { GraphitiClient } from "./graphiti.js";
+import type { SpiceDbClient } from "./spicedb.js";
+import { pluginStateDir, type FragmentOutbox } from "./outbox.js";
+import { GROUP_MEMBERSHIP_RELATIONS, deleteFragmentRelationships } from "./authorization.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RetentionPolicy = {
+  /** Session groups without an episode in this many days expire */
+  maxAgeDays?: number;
+  /** Sessions kept per member subject, newest first */
+  maxPerSubject?: number;
+};
+
+export type SessionGroupInfo = {
+  groupId: string;
+  /** Member subjects as "type:id" */
+  members: string[];
+  /** created_at of the latest episode; undefined if the group has none */
+  lastActivity?: string;
+  /** When the group was first seen without episodes */
+  emptySince?: string;
+};
+
+export type ExpiredSessionGroup = SessionGroupInfo & {
+  reason: "max_age" | "max_per_subject";
+};
+
+export type GcReport = {
+  scanned: number;
+  expired: ExpiredSessionGroup[];
+  /** Groups whose state couldn't be read — left alone */
+  skipped: { groupId: string; error: string }[];
+  deleted: string[];
+  failed: { groupId: string; error: string }[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How long a session group without episodes counts as active. */
+export const EMPTY_GROUP_GRACE_MS = 60 * 60 * 1000;
+
+export function defaultEmptySessionGroupsPath(): string {
+  return join(pluginStateDir(), "empty-session-groups.json");
+}
+
+export function hasRetentionLimit(policy: RetentionPolicy): boolean {
+  return policy.maxAgeDays !== undefined || policy.maxPerSubject !== undefined;
+}
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+/**
+ * When each session group without episodes was first seen that way, kept
+ * on disk so the CLI and the gateway's scheduled runs agree.
+ */
+export class EmptySessionGroups {
+  constructor(readonly filePath: string = defaultEmptySessionGroupsPath()) {}
+
+  /**
+   * Record the groups that are empty now and return when each was first
+   * seen empty. Groups no longer empty (or gone) are forgotten.
+   */
+  async observe(groupIds: string[], now: Date = new Date()): Promise<Map<string, string>> {
+    let known: Record<string, string> = {};
+    try {
+      known = JSON.parse(await readFile(this.filePath, "utf-8")) as Record<string, string>;
+    } catch {
+      // Nothing recorded yet (or unreadable) — start fresh
+    }
+    const since = new Map(groupIds.map((g) => [g, typeof known[g] === "string" ? known[g] : now.toISOString()]));
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, `${JSON.stringify(Object.fromEntries(since), null, 2)}\n`, "utf-8");
+    await rename(tmpPath, this.filePath);
+    return since;
+  }
+}
+
+/**
+ * All session groups with members in SpiceDB, with the time of their latest
+ * episode. Groups Graphiti can't be asked about are returned in `skipped`.
+ * Without `emptyGroups` an empty group counts as first seen `now`.
+ */
+export async function listSessionGroups(
+  graphiti: GraphitiClient,
+  spicedb: SpiceDbClient,
+  options: { emptyGroups?: EmptySessionGroups; now?: Date } = {},
+): Promise<{ groups: SessionGroupInfo[]; skipped: GcReport["skipped"] }> {
+  const tuples = await spicedb.readRelationships({ resourceType: "group" });
+  const members = new Map<string, string[]>();
+  for (const t of tuples) {
+    if (!t.resourceId.startsWith("session-") || !GROUP_MEMBERSHIP_RELATIONS.includes(t.relation)) continue;
+    const list = members.get(t.resourceId) ?? [];
+    const member = `${t.subjectType}:${t.subjectId}`;
+    if (!list.includes(member)) list.push(member);
+    members.set(t.resourceId, list);
+  }
+
+  const groups: SessionGroupInfo[] = [];
+  const skipped: GcReport["skipped"] = [];
+  for (const [groupId, groupMembers] of members) {
+    try {
+      const episodes = await graphiti.getEpisodes(groupId, 1);
+      const lastActivity = episodes
+        .map((ep) => ep.created_at)
+        .filter(Boolean)
+        .sort()
+        .pop();
+      groups.push({ groupId, members: groupMembers, lastActivity });
+    } catch (err) {
+      skipped.push({ groupId, error: String(err) });
+    }
+  }
+
+  const now = options.now ?? new Date();
+  const empty = groups.filter((g) => !g.lastActivity).map((g) => g.groupId);
+  const since = options.emptyGroups ? await options.emptyGroups.observe(empty, now) : new Map<string, string>();
+  for (const g of groups) {
+    if (!g.lastActivity) g.emptySince = since.get(g.groupId) ?? now.toISOString();
+  }
+  return { groups, skipped };
+}
+
+/**
+ * Apply the policy. A group expires if its latest episode is older than
+ * `maxAgeDays`, or if it isn't among the newest `maxPerSubject` session
+ * groups of any of its members. A group without episodes counts as active
+ * for EMPTY_GROUP_GRACE_MS after it was first seen empty, and as old after.
+ */
+export function selectExpiredSessionGroups(
+  groups: SessionGroupInfo[],
+  policy: RetentionPolicy,
+  now: Date = new Date(),
+): ExpiredSessionGroup[] {
+  const activity = (g: SessionGroupInfo) => {
+    if (g.lastActivity) return new Date(g.lastActivity).getTime();
+    const since = g.emptySince ? new Date(g.emptySince).getTime() : now.getTime();
+    return now.getTime() - since < EMPTY_GROUP_GRACE_MS ? now.getTime() : 0;
+  };
+  const expired = new Map<string, ExpiredSessionGroup>();
+
+  if (policy.maxAgeDays !== undefined) {
+    const cutoff = now.getTime() - policy.maxAgeDays * DAY_MS;
+    for (const g of groups) {
+      if (activity(g) < cutoff) expired.set(g.groupId, { ...g, reason: "max_age" });
+    }
+  }
+
+  if (policy.maxPerSubject !== undefined) {
+    const kept = new Set<string>();
+    const bySubject = new Map<string, SessionGroupInfo[]>();
+    for (const g of groups) {
+      for (const member of g.members) {
+        bySubject.set(member, [...(bySubject.get(member) ?? []), g]);
+      }
+    }
+    for (const subjectGroups of bySubject.values()) {
+      subjectGroups
+        .sort((a, b) => activity(b) - activity(a))
+        .slice(0, policy.maxPerSubject)
+        .forEach((g) => kept.add(g.groupId));
+    }
+    for (const g of groups) {
+      if (!kept.has(g.groupId) && !expired.has(g.groupId)) {
+        expired.set(g.groupId, { ...g, reason: "max_per_subject" });
+      }
+    }
+  }
+
+  return [...expired.values()];
+}
+
+// ============================================================================
+// Deletion
+// ============================================================================
+
+/**
+ * Remove one session group: graph data first, then the fragment tuples and
+ * finally the group's own tuples, so a failure part-way leaves at most
+ * tuples that grant access to nothing.
+ */
+export async function deleteSessionGroup(
+  graphiti: GraphitiClient,
+  spicedb: SpiceDbClient,
+  groupId: string,
+): Promise<string | undefined> {
+  if (!groupId.startsWith("session-")) {
+    throw new Error(`refusing to delete non-session group "${groupId}"`);
+  }
+  await graphiti.clearGraph([groupId]);
+
+  const fragments = await spicedb.readRelationships({
+    resourceType: "memory_fragment",
+    relation: "source_group",
+    subjectType: "group",
+    subjectId: groupId,
+  });
+  let token: string | undefined;
+  for (const fragmentId of new Set(fragments.map((f) => f.resourceId))) {
+    token = (await deleteFragmentRelationships(spicedb, fragmentId)) ?? token;
+  }
+  return (await spicedb.deleteRelationshipsByFilter({ resourceType: "group", resourceId: groupId })) ?? token;
+}
+
+/**
+ * Find and (unless `dryRun`) delete expired session groups. Groups in
+ * `exclude` — sessions the gateway is serving right now — and groups with
+ * pending `outbox` entries are never touched.
+ */
+export async function gcSessionGroups(
+  graphiti: GraphitiClient,
+  spicedb: SpiceDbClient,
+  policy: RetentionPolicy,
+  options: {
+    dryRun?: boolean;
+    exclude?: Set<string>;
+    outbox?: FragmentOutbox;
+    emptyGroups?: EmptySessionGroups;
+    now?: Date;
+  } = {},
+): Promise<GcReport & { token?: string }> {
+  const { groups, skipped } = await listSessionGroups(graphiti, spicedb, options);
+  await options.outbox?.load();
+  const pending = new Set(options.outbox?.list().map((e) => e.groupId));
+  const candidates = groups.filter((g) => !options.exclude?.has(g.groupId) && !pending.has(g.groupId));
+  const expired = selectExpiredSessionGroups(candidates, policy, options.now);
+  const report: GcReport & { token?: string } = { scanned: groups.length, expired, skipped, deleted: [], failed: [] };
+  if (options.dryRun) return report;
+
+  for (const g of expired) {
+    try {
+      report.token = (await deleteSessionGroup(graphiti, spicedb, g.groupId)) ?? report.token;
+      report.deleted.push(g.groupId);
+    } catch (err) {
+      report.failed.push({ groupId: g.groupId, error: String(err) });
+    }
+  }
+  return report;
+}
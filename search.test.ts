@@ -3,7 +3,12 @@ import {
   searchAuthorizedMemories,
   formatResultsForContext,
   formatDualResults,
+  packDualResults,
   deduplicateSessionResults,
+  rankResults,
+  filterViewableResults,
+  describeEntity,
+  formatEntityDetails,
   type SearchResult,
 } from "./search.js";
 import type { GraphitiClient } from "./graphiti.js";
@@ -101,6 +106,41 @@ describe("searchAuthorizedMemories", () => {
     expect(results[1].uuid).toBe("old");
   });
 
+  test("applies fragment-level filtering when viewableFragments is given", async () => {
+    const searchNodes = vi.fn().mockResolvedValue([
+      { uuid: "n1", name: "Mark", summary: "Mark", group_id: "g1", created_at: "2026-01-15T00:00:00Z" },
+      { uuid: "n9", name: "Other", summary: "Other", group_id: "g1", created_at: "2026-01-15T00:00:00Z" },
+    ]);
+    const searchFacts = vi.fn().mockResolvedValue([
+      { uuid: "f1", fact: "Mark likes tea", source_node_uuid: "n1", target_node_uuid: "n2", episodes: ["ep-ok"], group_id: "g1", created_at: "2026-01-15T00:00:00Z" },
+      { uuid: "f2", fact: "Hidden fact", source_node_uuid: "n9", target_node_uuid: "n2", episodes: ["ep-hidden"], group_id: "g1", created_at: "2026-01-15T00:00:00Z" },
+    ]);
+    const graphiti = mockGraphiti({ searchNodes, searchFacts });
+
+    const results = await searchAuthorizedMemories(graphiti, {
+      query: "Mark",
+      groupIds: ["g1"],
+      viewableFragments: new Set(["ep-ok"]),
+    });
+
+    expect(results.map((r) => r.uuid).sort()).toEqual(["f1", "n1"]);
+  });
+
+  test("exposes a fused score on each result", async () => {
+    const searchNodes = vi.fn().mockResolvedValue([
+      { uuid: "n1", name: "Mark", summary: "A person", group_id: "g1", created_at: "2026-01-15T00:00:00Z" },
+    ]);
+    const searchFacts = vi.fn().mockResolvedValue([]);
+    const graphiti = mockGraphiti({ searchNodes, searchFacts });
+
+    const results = await searchAuthorizedMemories(graphiti, {
+      query: "Mark",
+      groupIds: ["g1"],
+    });
+
+    expect(results[0].score).toBeTypeOf("number");
+  });
+
   test("respects limit parameter", async () => {
     const nodes = Array.from({ length: 20 }, (_, i) => ({
       uuid: `n${i}`,
@@ -190,6 +230,211 @@ describe("searchAuthorizedMemories", () => {
   });
 });
 
+describe("rankResults", () => {
+  const now = new Date("2026-02-01T00:00:00Z").getTime();
+  const result = (uuid: string, created_at: string): SearchResult => ({
+    type: "fact", uuid, group_id: "g1", summary: uuid, context: "", created_at,
+  });
+
+  test("returns empty array when no lists provided", () => {
+    expect(rankResults([], { now })).toEqual([]);
+  });
+
+  test("prefers Graphiti's top-ranked result over a fresher low-ranked one", () => {
+    const stale = result("stale-exact", "2025-06-01T00:00:00Z");
+    const fillers = Array.from({ length: 8 }, (_, i) => result(`filler-${i}`, "2025-06-01T00:00:00Z"));
+    const fresh = result("fresh-tangential", "2026-01-31T00:00:00Z");
+
+    const ranked = rankResults([[stale, ...fillers, fresh]], { now, rrfK: 1 });
+
+    expect(ranked[0].uuid).toBe("stale-exact");
+    expect(ranked.findIndex((r) => r.uuid === "fresh-tangential")).toBeGreaterThan(0);
+  });
+
+  test("boosts results that appear in several lists", () => {
+    const a = result("a", "2026-01-01T00:00:00Z");
+    const b = result("b", "2026-01-01T00:00:00Z");
+    const c = result("c", "2026-01-01T00:00:00Z");
+
+    // "b" is second in both lists, "a" and "c" each top one list only
+    const ranked = rankResults([[a, b], [c, b]], { now, rrfK: 1 });
+
+    expect(ranked[0].uuid).toBe("b");
+    expect(ranked).toHaveLength(3);
+  });
+
+  test("recencyWeight of 1 ranks purely by recency", () => {
+    const old = result("old", "2025-01-01T00:00:00Z");
+    const recent = result("recent", "2026-01-30T00:00:00Z");
+
+    const ranked = rankResults([[old, recent]], { now, recencyWeight: 1 });
+
+    expect(ranked.map((r) => r.uuid)).toEqual(["recent", "old"]);
+  });
+
+  test("recencyWeight of 0 keeps Graphiti's order", () => {
+    const old = result("old", "2025-01-01T00:00:00Z");
+    const recent = result("recent", "2026-01-30T00:00:00Z");
+
+    const ranked = rankResults([[old, recent]], { now, recencyWeight: 0 });
+
+    expect(ranked.map((r) => r.uuid)).toEqual(["old", "recent"]);
+  });
+
+  test("assigns scores between 0 and 1 in descending order", () => {
+    const ranked = rankResults([
+      [result("a", "2026-01-01T00:00:00Z"), result("b", "not-a-date")],
+    ], { now });
+
+    for (const r of ranked) {
+      expect(r.score).toBeGreaterThanOrEqual(0);
+      expect(r.score).toBeLessThanOrEqual(1);
+    }
+    expect(ranked[0].score).toBeGreaterThanOrEqual(ranked[1].score!);
+  });
+});
+
+describe("filterViewableResults", () => {
+  const fact = (uuid: string, episodes: string[], entities: string[]): SearchResult => ({
+    type: "fact", uuid, group_id: "g1", summary: uuid, context: "", created_at: "2026-01-01",
+    episodes, entity_uuids: entities,
+  });
+  const node = (uuid: string): SearchResult => ({
+    type: "node", uuid, group_id: "g1", summary: uuid, context: uuid, created_at: "2026-01-01",
+  });
+
+  test("keeps facts with at least one viewable source episode", () => {
+    const lists = [[fact("f1", ["ep-1", "ep-2"], []), fact("f2", ["ep-3"], []), fact("f3", [], [])]];
+
+    const filtered = filterViewableResults(lists, new Set(["ep-2"]));
+
+    expect(filtered[0].map((r) => r.uuid)).toEqual(["f1"]);
+  });
+
+  test("keeps entities only when connected to a viewable fact in any list", () => {
+    const lists = [
+      [node("n-mark"), node("n-secret")],
+      [fact("f1", ["ep-1"], ["n-mark", "n-acme"]), fact("f2", ["ep-hidden"], ["n-secret"])],
+    ];
+
+    const filtered = filterViewableResults(lists, new Set(["ep-1"]));
+
+    expect(filtered[0].map((r) => r.uuid)).toEqual(["n-mark"]);
+    expect(filtered[1].map((r) => r.uuid)).toEqual(["f1"]);
+  });
+});
+
+describe("describeEntity", () => {
+  const eric = {
+    uuid: "n-eric",
+    name: "Eric",
+    summary: "Eric is Mark's brother",
+    group_id: "family",
+    labels: ["Entity", "Person"],
+    created_at: "2026-01-10T00:00:00Z",
+    attributes: { birthday: "Dec 17" },
+  };
+  const facts = [
+    { uuid: "f1", fact: "Eric works at Acme", name: "WORKS_AT", source_node_uuid: "n-eric", source_node_name: "Eric", target_node_uuid: "n-acme", target_node_name: "Acme", group_id: "family", created_at: "2026-01-11T00:00:00Z", episodes: ["ep-1"] },
+    { uuid: "f2", fact: "Eric worked at Initech", name: "WORKS_AT", source_node_uuid: "n-eric", source_node_name: "Eric", target_node_uuid: "n-ini", target_node_name: "Initech", group_id: "family", created_at: "2025-06-01T00:00:00Z", episodes: ["ep-2"] },
+    { uuid: "f3", fact: "Mark is Eric's brother", name: "SIBLING_OF", source_node_uuid: "n-mark", source_node_name: "Mark", target_node_uuid: "n-eric", target_node_name: "Eric", group_id: "family", created_at: "2026-01-12T00:00:00Z", episodes: ["ep-3"] },
+    // Returned by the center-node search but not connected to Eric
+    { uuid: "f4", fact: "Mark likes tea", name: "LIKES", source_node_uuid: "n-mark", source_node_name: "Mark", target_node_uuid: "n-tea", target_node_name: "Tea", group_id: "family", created_at: "2026-01-13T00:00:00Z", episodes: ["ep-4"] },
+  ];
+
+  test("returns node details and connected facts grouped by relationship", async () => {
+    const searchFacts = vi.fn().mockResolvedValue(facts);
+    const searchNodes = vi.fn().mockResolvedValue([eric]);
+    const graphiti = mockGraphiti({ searchFacts, searchNodes });
+
+    const entity = await describeEntity(graphiti, { entityUuid: "n-eric", groupIds: ["family"] });
+
+    expect(searchFacts).toHaveBeenCalledWith(expect.objectContaining({ group_id: "family", center_node_uuid: "n-eric" }));
+    // Name learned from the connected facts
+    expect(searchNodes).toHaveBeenCalledWith(expect.objectContaining({ query: "Eric", group_id: "family" }));
+    expect(entity).toMatchObject({
+      uuid: "n-eric",
+      name: "Eric",
+      summary: "Eric is Mark's brother",
+      labels: ["Entity", "Person"],
+      attributes: { birthday: "Dec 17" },
+      group_id: "family",
+      factCount: 3,
+    });
+    expect(entity!.relationships.WORKS_AT.map((f) => f.other)).toEqual(["Acme", "Initech"]);
+    expect(entity!.relationships.SIBLING_OF[0]).toMatchObject({ other: "Mark", direction: "in" });
+    expect(entity!.relationships.LIKES).toBeUndefined();
+  });
+
+  test("searches only the given groups and deduplicates facts across them", async () => {
+    const searchFacts = vi.fn().mockResolvedValue([facts[0]]);
+    const graphiti = mockGraphiti({ searchFacts, searchNodes: vi.fn().mockResolvedValue([eric]) });
+
+    const entity = await describeEntity(graphiti, { entityUuid: "n-eric", name: "Eric", groupIds: ["family", "work"] });
+
+    expect(searchFacts.mock.calls.map((c) => c[0].group_id)).toEqual(["family", "work"]);
+    expect(entity!.factCount).toBe(1);
+  });
+
+  test("applies fragment-level filtering to connected facts", async () => {
+    const graphiti = mockGraphiti({
+      searchFacts: vi.fn().mockResolvedValue(facts),
+      searchNodes: vi.fn().mockResolvedValue([eric]),
+    });
+
+    const entity = await describeEntity(graphiti, {
+      entityUuid: "n-eric",
+      groupIds: ["family"],
+      viewableFragments: new Set(["ep-1"]),
+    });
+    expect(entity!.factCount).toBe(1);
+
+    const hidden = await describeEntity(graphiti, {
+      entityUuid: "n-eric",
+      groupIds: ["family"],
+      viewableFragments: new Set(["ep-unrelated"]),
+    });
+    expect(hidden).toBeNull();
+  });
+
+  test("returns null when neither the node nor any connected fact is found", async () => {
+    const graphiti = mockGraphiti();
+    expect(await describeEntity(graphiti, { entityUuid: "n-ghost", groupIds: ["family"] })).toBeNull();
+    expect(await describeEntity(graphiti, { entityUuid: "n-ghost", groupIds: [] })).toBeNull();
+  });
+});
+
+describe("formatEntityDetails", () => {
+  test("formats labels, summary, attributes and relationships", () => {
+    const text = formatEntityDetails({
+      uuid: "n-eric",
+      name: "Eric",
+      summary: "Eric is Mark's brother",
+      labels: ["Entity", "Person"],
+      attributes: { birthday: "Dec 17", empty: null },
+      group_id: "family",
+      factCount: 2,
+      relationships: {
+        WORKS_AT: [{ uuid: "f1", fact: "Eric works at Acme", other: "Acme", direction: "out", group_id: "family", created_at: "" }],
+        SIBLING_OF: [{ uuid: "f3", fact: "Mark is Eric's brother", other: "Mark", direction: "in", group_id: "family", created_at: "" }],
+      },
+    });
+
+    expect(text).toBe(
+      [
+        "Eric [Person] (entity:n-eric)",
+        "Summary: Eric is Mark's brother",
+        "Attributes:",
+        "  - birthday: Dec 17",
+        "SIBLING_OF:",
+        "  - [fact:f3] Mark is Eric's brother (← Mark)",
+        "WORKS_AT:",
+        "  - [fact:f1] Eric works at Acme (→ Acme)",
+      ].join("\n"),
+    );
+  });
+});
+
 describe("formatResultsForContext", () => {
   test("returns empty string for no results", () => {
     expect(formatResultsForContext([])).toBe("");
@@ -205,6 +450,23 @@ describe("formatResultsForContext", () => {
     expect(formatted).toContain("1. [entity:n1] Mark is a developer (Mark)");
     expect(formatted).toContain("2. [fact:f1] Mark got promoted (Mark \u2192 Promotion)");
   });
+
+  test("appends source episode IDs to fact lines", () => {
+    const fact: SearchResult = {
+      type: "fact",
+      uuid: "f1",
+      group_id: "main",
+      summary: "Mark likes tea",
+      context: "Mark → Tea",
+      created_at: "2026-01-15T00:00:00Z",
+      episodes: ["ep-1", "ep-2", "ep-3", "ep-4", "ep-5"],
+    };
+
+    expect(formatResultsForContext([fact])).toBe(
+      "1. [fact:f1] Mark likes tea (Mark → Tea) [episode:ep-1, episode:ep-2, episode:ep-3, +2 more]",
+    );
+    expect(formatResultsForContext([{ ...fact, episodes: [] }])).toBe("1. [fact:f1] Mark likes tea (Mark → Tea)");
+  });
 });
 
 describe("formatDualResults", () => {
@@ -247,6 +509,76 @@ describe("formatDualResults", () => {
   test("returns empty string when both are empty", () => {
     expect(formatDualResults([], [])).toBe("");
   });
+
+  test("tags each line with its group when showGroups is set", () => {
+    const longTerm: SearchResult[] = [
+      { type: "fact", uuid: "f1", group_id: "company", summary: "Offices close Friday", context: "Office → Friday", created_at: "2026-01-16", episodes: ["ep-1"] },
+    ];
+
+    expect(formatDualResults(longTerm, [], undefined, { showGroups: true })).toBe(
+      "1. [fact:f1] Offices close Friday (Office → Friday) [group:company] [episode:ep-1]",
+    );
+  });
+});
+
+describe("packDualResults", () => {
+  const fact = (uuid: string, summary: string, context = "X → Y"): SearchResult => ({
+    type: "fact", uuid, group_id: "main", summary, context, created_at: "2026-01-15",
+  });
+
+  test("includes everything when no budget is given", () => {
+    const packed = packDualResults([fact("f1", "Mark got promoted")], [fact("f2", "Deadline tomorrow")]);
+    expect(packed).toMatchObject({ included: 2, omitted: 0 });
+    expect(packed.text).not.toContain("omitted");
+  });
+
+  test("omits results past the budget and reports how many", () => {
+    const first = "1. [fact:f1] Mark got promoted (X → Y)";
+    const packed = packDualResults(
+      [fact("f1", "Mark got promoted"), fact("f2", "Mark moved to Berlin")],
+      [],
+      { unit: "chars", total: first.length + 1 },
+    );
+
+    expect(packed).toMatchObject({ included: 1, omitted: 1 });
+    expect(packed.text).toBe(
+      `${first}\n(1 more memory omitted to fit the context budget — use memory_recall to see them)`,
+    );
+  });
+
+  test("truncates a long summary at a word boundary", () => {
+    const packed = packDualResults(
+      [fact("f1", "Mark prefers dark roast coffee from the small roaster downtown every morning")],
+      [],
+      { unit: "chars", total: 70 },
+    );
+
+    expect(packed).toMatchObject({ included: 1, omitted: 0 });
+    expect(packed.text).toBe("1. [fact:f1] Mark prefers dark roast coffee from the small… (X → Y)");
+  });
+
+  test("skips a result that cannot fit but keeps trying later ones", () => {
+    const packed = packDualResults(
+      [fact("f1", "Mark got promoted", "a very long context string that eats the budget"), fact("f2", "Short")],
+      [],
+      { unit: "chars", total: 30 },
+    );
+
+    expect(packed).toMatchObject({ included: 1, omitted: 1 });
+    expect(packed.text).toContain("1. [fact:f2] Short");
+  });
+
+  test("applies per-scope caps in estimated tokens", () => {
+    const packed = packDualResults(
+      [fact("f1", "Mark got promoted")],
+      [fact("f2", "Deadline tomorrow")],
+      { unit: "tokens", total: 100, session: 10 },
+    );
+
+    // 10 tokens ≈ 40 chars: not enough for the session header plus a line
+    expect(packed).toMatchObject({ included: 1, omitted: 1 });
+    expect(packed.text).not.toContain("Session memories:");
+  });
 });
 
 describe("deduplicateSessionResults", () => {
@@ -19,6 +19,23 @@ export type SearchResult = {
   /** Additional context: entity names for facts, node name for nodes */
   context: string;
   created_at: string;
+  /** Fused relevance score (0-1) assigned by searchAuthorizedMemories */
+  score?: number;
+  /** Source episode UUIDs (facts only) */
+  episodes?: string[];
+  /** Endpoint entity UUIDs (facts only) — used for filtering, never formatted */
+  entity_uuids?: string[];
+};
+
+export type RankingOptions = {
+  /** Weight of the recency signal in the final score (0 = pure relevance, 1 = pure recency) */
+  recencyWeight?: number;
+  /** Age in days at which the recency signal has decayed to half */
+  recencyHalfLifeDays?: number;
+  /** Reciprocal rank fusion smoothing constant */
+  rrfK?: number;
+  /** Reference time for recency decay (defaults to now) */
+  now?: number;
 };
 
 export type SearchOptions = {
@@ -29,15 +46,53 @@ export type SearchOptions = {
   searchFacts?: boolean;
   entityTypes?: string[];
   centerNodeUuid?: string;
+  ranking?: RankingOptions;
+  /**
+   * Fragment-level enforcement: when set, only facts extracted from at least
+   * one of these episode (memory_fragment) IDs are kept, and entities only
+   * when they are an endpoint of such a fact.
+   */
+  viewableFragments?: Set<string>;
+};
+
+/** A fact connected to an entity, as seen from that entity. */
+export type EntityFact = {
+  uuid: string;
+  fact: string;
+  /** Name of the entity at the other end of the edge */
+  other: string;
+  /** "out" when the entity is the edge's source, "in" when it is the target */
+  direction: "out" | "in";
+  group_id: string;
+  created_at: string;
 };
 
+export type EntityDetails = {
+  uuid: string;
+  name: string;
+  summary: string | null;
+  labels: string[];
+  attributes: Record<string, unknown>;
+  /** null when the node itself wasn't found, only facts referencing it */
+  group_id: string | null;
+  /** Connected facts grouped by relationship name (fact.name) */
+  relationships: Record<string, EntityFact[]>;
+  factCount: number;
+};
+
+export const DEFAULT_RECENCY_WEIGHT = 0.2;
+export const DEFAULT_RECENCY_HALF_LIFE_DAYS = 30;
+export const DEFAULT_RRF_K = 60;
+
 // ============================================================================
 // Search
 // ============================================================================
 
 /**
  * Search across multiple authorized group_ids in parallel.
- * Merges and deduplicates results, returning up to `limit` items.
+ * Each per-group node/fact list keeps Graphiti's own ordering; the lists are
+ * fused with reciprocal rank fusion, blended with a recency decay, and the
+ * top `limit` items are returned with their `score`.
  */
 export async function searchAuthorizedMemories(
   graphiti: GraphitiClient,
@@ -51,6 +106,8 @@ export async function searchAuthorizedMemories(
     searchFacts = true,
     entityTypes,
     centerNodeUuid,
+    ranking,
+    viewableFragments,
   } = options;
 
   if (groupIds.length === 0) {
@@ -71,33 +128,117 @@ export async function searchAuthorizedMemories(
 
   const resultSets = await Promise.allSettled(promises);
 
-  // Collect all successful results
-  const allResults: SearchResult[] = [];
+  // Collect all successful result lists, preserving per-list rank order
+  const rankedLists: SearchResult[][] = [];
   for (const result of resultSets) {
     if (result.status === "fulfilled") {
-      allResults.push(...result.value);
+      rankedLists.push(result.value);
     }
     // Silently skip failed group searches — partial results are better than none
   }
 
-  // Deduplicate by UUID
-  const seen = new Set<string>();
-  const deduped = allResults.filter((r) => {
-    if (seen.has(r.uuid)) {
-      return false;
+  const visibleLists = viewableFragments
+    ? filterViewableResults(rankedLists, viewableFragments)
+    : rankedLists;
+
+  return rankResults(visibleLists, ranking).slice(0, limit);
+}
+
+/**
+ * Drop results the subject cannot view at the fragment level.
+ * Facts are traced to their source episodes; entities carry no episode
+ * linkage in Graphiti's search results, so they are kept only when a
+ * viewable fact in the same result set connects to them. Rank order within
+ * each list is preserved.
+ */
+export function filterViewableResults(
+  lists: SearchResult[][],
+  viewableFragments: Set<string>,
+): SearchResult[][] {
+  const isViewableFact = (r: SearchResult) =>
+    r.type === "fact" && (r.episodes ?? []).some((ep) => viewableFragments.has(ep));
+
+  const visibleEntities = new Set<string>();
+  for (const list of lists) {
+    for (const r of list) {
+      if (isViewableFact(r)) {
+        for (const uuid of r.entity_uuids ?? []) visibleEntities.add(uuid);
+      }
     }
-    seen.add(r.uuid);
-    return true;
+  }
+
+  return lists.map((list) =>
+    list.filter((r) => (r.type === "fact" ? isViewableFact(r) : visibleEntities.has(r.uuid))),
+  );
+}
+
+// ============================================================================
+// Merge / Re-rank
+// ============================================================================
+
+/**
+ * Fuse several independently ranked result lists into one ranking.
+ *
+ * Relevance is reciprocal rank fusion: each list a result appears in
+ * contributes 1 / (k + rank), so an item Graphiti ranked highly in any group
+ * beats one that only appears far down a list. The fused relevance is
+ * normalized to 0-1 and blended with an exponential recency decay.
+ * Results are deduplicated by UUID (first occurrence wins).
+ */
+export function rankResults(lists: SearchResult[][], options: RankingOptions = {}): SearchResult[] {
+  const {
+    recencyWeight = DEFAULT_RECENCY_WEIGHT,
+    recencyHalfLifeDays = DEFAULT_RECENCY_HALF_LIFE_DAYS,
+    rrfK = DEFAULT_RRF_K,
+    now = Date.now(),
+  } = options;
+
+  const fused = new Map<string, { result: SearchResult; rrf: number }>();
+  for (const list of lists) {
+    list.forEach((result, rank) => {
+      const contribution = 1 / (rrfK + rank + 1);
+      const entry = fused.get(result.uuid);
+      if (entry) {
+        entry.rrf += contribution;
+      } else {
+        fused.set(result.uuid, { result, rrf: contribution });
+      }
+    });
+  }
+
+  if (fused.size === 0) {
+    return [];
+  }
+
+  const maxRrf = Math.max(...[...fused.values()].map((e) => e.rrf));
+  const weight = Math.min(Math.max(recencyWeight, 0), 1);
+  const halfLifeMs = recencyHalfLifeDays * 24 * 60 * 60 * 1000;
+
+  const scored = [...fused.values()].map(({ result, rrf }) => {
+    const relevance = rrf / maxRrf;
+    const recency = recencyScore(result.created_at, now, halfLifeMs);
+    return { ...result, score: (1 - weight) * relevance + weight * recency };
   });
 
-  // Sort by recency (most recent first) and trim to limit
-  deduped.sort((a, b) => {
-    const dateA = new Date(a.created_at).getTime();
-    const dateB = new Date(b.created_at).getTime();
-    return dateB - dateA;
+  // Highest score first; ties broken by recency
+  scored.sort((a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    return timestamp(b.created_at) - timestamp(a.created_at);
   });
 
-  return deduped.slice(0, limit);
+  return scored;
+}
+
+function recencyScore(createdAt: string, now: number, halfLifeMs: number): number {
+  const created = timestamp(createdAt);
+  if (!created || halfLifeMs <= 0) return 0;
+  const age = Math.max(now - created, 0);
+  return Math.pow(0.5, age / halfLifeMs);
+}
+
+function timestamp(value: string): number {
+  const t = new Date(value).getTime();
+  return Number.isNaN(t) ? 0 : t;
 }
 
 // ============================================================================
@@ -150,9 +291,165 @@ function factToResult(fact: GraphitiFact): SearchResult {
     summary: fact.fact,
     context,
     created_at: fact.created_at,
+    episodes: fact.episodes ?? [],
+    entity_uuids: [fact.source_node_uuid, fact.target_node_uuid].filter(
+      (uuid): uuid is string => typeof uuid === "string",
+    ),
   };
 }
 
+// ============================================================================
+// Entity Neighbourhood
+// ============================================================================
+
+/** Relationship name used for facts Graphiti returns without one. */
+const UNNAMED_RELATIONSHIP = "RELATED_TO";
+
+/**
+ * Look up an entity and the facts connected to it across authorized groups.
+ *
+ * The Graphiti MCP server has no "get node" tool, so the entity is located
+ * with a center-node fact search (facts are kept only when the entity is an
+ * endpoint) and a node search for its name — either supplied by the caller
+ * or taken from a connected fact. Returns null when nothing is found.
+ *
+ * With `viewableFragments`, facts are filtered as in filterViewableResults
+ * and the entity is only returned when at least one viewable fact remains.
+ */
+export async function describeEntity(
+  graphiti: GraphitiClient,
+  options: {
+    entityUuid: string;
+    name?: string;
+    groupIds: string[];
+    /** Max facts fetched per group (default 50) */
+    factLimit?: number;
+    viewableFragments?: Set<string>;
+  },
+): Promise<EntityDetails | null> {
+  const { entityUuid, groupIds, factLimit = 50, viewableFragments } = options;
+  if (groupIds.length === 0) {
+    return null;
+  }
+
+  // 1. Facts around the entity, one search per group
+  const factSets = await Promise.allSettled(
+    groupIds.map((groupId) =>
+      graphiti.searchFacts({
+        query: options.name ?? entityUuid,
+        group_id: groupId,
+        limit: factLimit,
+        center_node_uuid: entityUuid,
+      }),
+    ),
+  );
+  const facts = new Map<string, GraphitiFact>();
+  for (const result of factSets) {
+    if (result.status !== "fulfilled") continue;
+    for (const fact of result.value) {
+      const connected = fact.source_node_uuid === entityUuid || fact.target_node_uuid === entityUuid;
+      const viewable =
+        !viewableFragments || (fact.episodes ?? []).some((ep) => viewableFragments.has(ep));
+      if (connected && viewable && !facts.has(fact.uuid)) {
+        facts.set(fact.uuid, fact);
+      }
+    }
+  }
+  if (viewableFragments && facts.size === 0) {
+    return null;
+  }
+
+  // 2. The node itself, searched by name
+  const name =
+    options.name ??
+    [...facts.values()]
+      .map((f) => (f.source_node_uuid === entityUuid ? f.source_node_name : f.target_node_name))
+      .find((n): n is string => typeof n === "string" && n.length > 0);
+
+  let node: GraphitiNode | undefined;
+  if (name) {
+    const nodeSets = await Promise.allSettled(
+      groupIds.map((groupId) => graphiti.searchNodes({ query: name, group_id: groupId, limit: 10 })),
+    );
+    for (const result of nodeSets) {
+      if (result.status !== "fulfilled") continue;
+      node = result.value.find((n) => n.uuid === entityUuid);
+      if (node) break;
+    }
+  }
+
+  if (!node && facts.size === 0) {
+    return null;
+  }
+
+  // 3. Group connected facts by relationship name
+  const relationships: Record<string, EntityFact[]> = {};
+  for (const fact of facts.values()) {
+    const outgoing = fact.source_node_uuid === entityUuid;
+    const relation = fact.name || UNNAMED_RELATIONSHIP;
+    (relationships[relation] ??= []).push({
+      uuid: fact.uuid,
+      fact: fact.fact,
+      other: (outgoing ? fact.target_node_name : fact.source_node_name) ?? "?",
+      direction: outgoing ? "out" : "in",
+      group_id: fact.group_id,
+      created_at: fact.created_at,
+    });
+  }
+
+  return {
+    uuid: entityUuid,
+    name: node?.name ?? name ?? entityUuid,
+    summary: node?.summary ?? null,
+    labels: node?.labels ?? [],
+    attributes: node?.attributes ?? {},
+    group_id: node?.group_id ?? null,
+    relationships,
+    factCount: facts.size,
+  };
+}
+
+/**
+ * Format entity details for the agent, e.g.
+ *   Eric [Person]
+ *   Summary: ...
+ *   WORKS_AT:
+ *     - [fact:...] Eric works at Acme (→ Acme)
+ */
+export function formatEntityDetails(entity: EntityDetails): string {
+  // Graphiti labels every node "Entity"; only the specific types are useful
+  const labels = entity.labels.filter((l) => l !== "Entity");
+  const lines = [`${entity.name}${labels.length > 0 ? ` [${labels.join(", ")}]` : ""} (entity:${entity.uuid})`];
+
+  if (entity.summary) {
+    lines.push(`Summary: ${entity.summary}`);
+  }
+
+  const attributes = Object.entries(entity.attributes).filter(
+    ([, value]) => value !== null && value !== undefined && value !== "",
+  );
+  if (attributes.length > 0) {
+    lines.push("Attributes:");
+    for (const [key, value] of attributes) {
+      lines.push(`  - ${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`);
+    }
+  }
+
+  const relations = Object.keys(entity.relationships).sort();
+  if (relations.length === 0) {
+    lines.push("No connected facts.");
+  }
+  for (const relation of relations) {
+    lines.push(`${relation}:`);
+    for (const f of entity.relationships[relation]) {
+      const arrow = f.direction === "out" ? `→ ${f.other}` : `← ${f.other}`;
+      lines.push(`  - [fact:${f.uuid}] ${f.fact} (${arrow})`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
 // ============================================================================
 // Format for agent context
 // ============================================================================
@@ -168,6 +465,35 @@ export function formatResultsForContext(results: SearchResult[]): string {
   return results.map((r, i) => formatResultLine(r, i + 1)).join("\n");
 }
 
+/**
+ * Size budget for injected memories. Long-term and session caps are applied
+ * within `total`; tokens are estimated at CHARS_PER_TOKEN characters each.
+ */
+export type RecallBudget = {
+  unit: "chars" | "tokens";
+  total: number;
+  longTerm?: number;
+  session?: number;
+};
+
+export type FormatOptions = {
+  /** Tag each line with the group it came from (e.g. a parent group reached through nesting) */
+  showGroups?: boolean;
+};
+
+export type PackedResults = {
+  text: string;
+  included: number;
+  omitted: number;
+};
+
+/** Rough token estimate — no tokenizer dependency. */
+const CHARS_PER_TOKEN = 4;
+/** A truncated summary shorter than this is dropped rather than shown. */
+const MIN_TRUNCATED_SUMMARY_CHARS = 20;
+
+const SESSION_HEADER = "Session memories:";
+
 /**
  * Format results with session and long-term sections separated.
  * Session group_ids start with "session/".
@@ -175,34 +501,125 @@ export function formatResultsForContext(results: SearchResult[]): string {
 export function formatDualResults(
   longTermResults: SearchResult[],
   sessionResults: SearchResult[],
+  budget?: RecallBudget,
+  options: FormatOptions = {},
 ): string {
+  return packDualResults(longTermResults, sessionResults, budget, options).text;
+}
+
+/**
+ * Pack long-term and session results into a budgeted text block.
+ *
+ * Results are taken in ranked order (long-term first). A result that no
+ * longer fits has its summary cut at a word boundary; if too little of the
+ * summary would survive it is skipped, and later (shorter) results are still
+ * tried. Omitted results are counted in a trailing note, which is not
+ * charged against the budget. Without a budget every result is included.
+ */
+export function packDualResults(
+  longTermResults: SearchResult[],
+  sessionResults: SearchResult[],
+  budget?: RecallBudget,
+  options: FormatOptions = {},
+): PackedResults {
+  const toChars = (n: number | undefined) =>
+    n === undefined ? Infinity : budget?.unit === "tokens" ? n * CHARS_PER_TOKEN : n;
+  let remaining = budget ? toChars(budget.total) : Infinity;
+
   const parts: string[] = [];
   let idx = 1;
 
-  if (longTermResults.length > 0) {
-    for (const r of longTermResults) {
-      parts.push(formatResultLine(r, idx++));
+  const packScope = (results: SearchResult[], cap: number, header?: string) => {
+    let scopeRemaining = Math.min(cap, remaining);
+    let headerCost = header ? header.length + 1 : 0;
+    for (const r of results) {
+      // Each line is charged one extra character for its newline separator
+      const room = scopeRemaining - headerCost - 1;
+      let line: string | null = formatResultLine(r, idx, r.summary, options);
+      if (line.length > room) {
+        line = truncateResultLine(r, idx, room, options);
+        if (!line) continue;
+      }
+      if (header && headerCost > 0) {
+        parts.push(header);
+      }
+      parts.push(line);
+      idx++;
+      const used = headerCost + line.length + 1;
+      headerCost = 0;
+      scopeRemaining -= used;
+      remaining -= used;
     }
-  }
+  };
 
-  if (sessionResults.length > 0) {
-    parts.push("Session memories:");
-    for (const r of sessionResults) {
-      parts.push(formatResultLine(r, idx++));
-    }
+  packScope(longTermResults, toChars(budget?.longTerm));
+  packScope(sessionResults, toChars(budget?.session), SESSION_HEADER);
+
+  const included = idx - 1;
+  const omitted = longTermResults.length + sessionResults.length - included;
+  if (omitted > 0) {
+    parts.push(
+      `(${omitted} more ${omitted === 1 ? "memory" : "memories"} omitted to fit the context budget — use memory_recall to see them)`,
+    );
   }
 
-  return parts.join("\n");
+  return { text: parts.join("\n"), included, omitted };
+}
+
+/**
+ * Shorten a result's summary so the formatted line fits in maxChars.
+ * Returns null if fewer than MIN_TRUNCATED_SUMMARY_CHARS would remain.
+ */
+function truncateResultLine(
+  r: SearchResult,
+  idx: number,
+  maxChars: number,
+  options: FormatOptions,
+): string | null {
+  const overhead = formatResultLine(r, idx, r.summary, options).length - r.summary.length;
+  // Reserve one character for the ellipsis
+  const room = maxChars - overhead - 1;
+  if (room < MIN_TRUNCATED_SUMMARY_CHARS) {
+    return null;
+  }
+  let cut = r.summary.slice(0, room);
+  const lastSpace = cut.lastIndexOf(" ");
+  if (lastSpace >= MIN_TRUNCATED_SUMMARY_CHARS) {
+    cut = cut.slice(0, lastSpace);
+  }
+  return formatResultLine(r, idx, `${cut.trimEnd()}…`, options);
 }
 
+/** Source episodes listed per fact line; the rest are summarized as "+N". */
+const MAX_EPISODES_PER_LINE = 3;
+
 /**
  * Format a single search result line with type-prefixed UUID.
- * e.g. "[fact:da8650cb-...] Eric's birthday is Dec 17th (Eric -[HAS_BIRTHDAY]→ Dec 17th)"
- * The type prefix tells the LLM which deletion method to use.
+ * e.g. "[fact:da8650cb-...] Eric's birthday is Dec 17th (Eric -[HAS_BIRTHDAY]→ Dec 17th) [episode:5f2c...]"
+ * The type prefix tells the LLM which deletion method to use; source episode
+ * IDs let it retract the whole memory a fact came from. With `showGroups`
+ * a "[group:ID]" tag follows the context.
  */
-function formatResultLine(r: SearchResult, idx: number): string {
+function formatResultLine(
+  r: SearchResult,
+  idx: number,
+  summary = r.summary,
+  options: FormatOptions = {},
+): string {
   const typeLabel = r.type === "node" ? "entity" : "fact";
-  return `${idx}. [${typeLabel}:${r.uuid}] ${r.summary} (${r.context})`;
+  let line = `${idx}. [${typeLabel}:${r.uuid}] ${summary} (${r.context})`;
+  if (options.showGroups) {
+    line += ` [group:${r.group_id}]`;
+  }
+  const episodes = r.episodes ?? [];
+  if (episodes.length === 0) {
+    return line;
+  }
+  const shown = episodes.slice(0, MAX_EPISODES_PER_LINE).map((ep) => `episode:${ep}`);
+  if (episodes.length > MAX_EPISODES_PER_LINE) {
+    shown.push(`+${episodes.length - MAX_EPISODES_PER_LINE} more`);
+  }
+  return `${line} [${shown.join(", ")}]`;
 }
 
 /**
@@ -0,0 +1,136 @@
+import { describe, test, expect, vi } from "vitest";
+
+import { parseShareSubjects, readFragmentAudiences, shareMemory, unshareMemory } from "./share.js";
+import type { SpiceDbClient, RelationshipTuple } from "./spicedb.js";
+
+const agent = { type: "agent" as const, id: "pi" };
+const mark = { type: "person" as const, id: "mark" };
+
+const fragmentTuples: RelationshipTuple[] = [
+  { resourceType: "memory_fragment", resourceId: "ep-1", relation: "source_group", subjectType: "group", subjectId: "main" },
+  { resourceType: "memory_fragment", resourceId: "ep-1", relation: "shared_by", subjectType: "agent", subjectId: "pi" },
+  { resourceType: "memory_fragment", resourceId: "ep-1", relation: "involves", subjectType: "person", subjectId: "mark" },
+  { resourceType: "memory_fragment", resourceId: "ep-1", relation: "viewer", subjectType: "person", subjectId: "alice" },
+  { resourceType: "memory_fragment", resourceId: "ep-2", relation: "source_group", subjectType: "group", subjectId: "main" },
+];
+
+function createSpiceDb(options: { canShare?: boolean } = {}) {
+  return {
+    checkPermission: vi.fn().mockResolvedValue(options.canShare ?? true),
+    writeRelationships: vi.fn().mockResolvedValue("token-share"),
+    deleteRelationships: vi.fn().mockResolvedValue("token-unshare"),
+    readRelationships: vi.fn().mockImplementation(async (req: { resourceId?: string; relation?: string }) =>
+      fragmentTuples.filter(
+        (t) => (!req.resourceId || t.resourceId === req.resourceId) && (!req.relation || t.relation === req.relation),
+      ),
+    ),
+  };
+}
+
+describe("parseShareSubjects", () => {
+  test("treats bare IDs as persons and accepts type prefixes", () => {
+    expect(parseShareSubjects(["mark", "agent:pi", "person:alice", "mark"])).toEqual([
+      mark,
+      agent,
+      { type: "person", id: "alice" },
+    ]);
+  });
+
+  test("rejects unknown subject types", () => {
+    expect(parseShareSubjects(["group:main"])).toMatch(/Unrecognized subject "group:main"/);
+  });
+});
+
+describe("shareMemory", () => {
+  test("writes viewer tuples for the subjects", async () => {
+    const spicedb = createSpiceDb();
+    const expiresAt = new Date("2026-11-02T00:00:00Z");
+
+    const outcome = await shareMemory(spicedb as unknown as SpiceDbClient, {
+      id: "episode:ep-1",
+      subjects: [mark],
+      subject: agent,
+      expiresAt,
+    });
+
+    expect(outcome).toEqual({ action: "shared", fragmentId: "ep-1", subjects: [mark], token: "token-share" });
+    expect(spicedb.checkPermission).toHaveBeenCalledWith(
+      expect.objectContaining({ resourceId: "ep-1", permission: "share", subjectType: "agent", subjectId: "pi" }),
+    );
+    expect(spicedb.writeRelationships).toHaveBeenCalledWith([
+      {
+        resourceType: "memory_fragment",
+        resourceId: "ep-1",
+        relation: "viewer",
+        subjectType: "person",
+        subjectId: "mark",
+        expiresAt,
+      },
+    ]);
+  });
+
+  test("is denied for anyone but the subject who stored the memory", async () => {
+    const spicedb = createSpiceDb({ canShare: false });
+
+    const outcome = await shareMemory(spicedb as unknown as SpiceDbClient, {
+      id: "episode:ep-1",
+      subjects: [mark],
+      subject: agent,
+    });
+
+    expect(outcome.action).toBe("denied");
+    expect(spicedb.writeRelationships).not.toHaveBeenCalled();
+  });
+
+  test("points facts at their source episodes", async () => {
+    const spicedb = createSpiceDb();
+
+    const outcome = await shareMemory(spicedb as unknown as SpiceDbClient, {
+      id: "fact:f-1",
+      subjects: [mark],
+      subject: agent,
+    });
+
+    expect(outcome.action).toBe("error");
+    expect(outcome.message).toContain("share the episode it came from");
+    expect(spicedb.checkPermission).not.toHaveBeenCalled();
+  });
+});
+
+describe("unshareMemory", () => {
+  test("removes both viewer and involves tuples", async () => {
+    const spicedb = createSpiceDb();
+
+    const outcome = await unshareMemory(spicedb as unknown as SpiceDbClient, {
+      id: "episode:ep-1",
+      subjects: [mark],
+      subject: agent,
+    });
+
+    expect(outcome).toMatchObject({ action: "unshared", token: "token-unshare" });
+    expect(spicedb.deleteRelationships).toHaveBeenCalledWith([
+      { resourceType: "memory_fragment", resourceId: "ep-1", relation: "viewer", subjectType: "person", subjectId: "mark" },
+      { resourceType: "memory_fragment", resourceId: "ep-1", relation: "involves", subjectType: "person", subjectId: "mark" },
+    ]);
+  });
+});
+
+describe("readFragmentAudiences", () => {
+  test("collects viewers and involved subjects, omitting group-only fragments", async () => {
+    const spicedb = createSpiceDb();
+
+    const audiences = await readFragmentAudiences(spicedb as unknown as SpiceDbClient, ["ep-1", "ep-2", "ep-1"]);
+
+    expect([...audiences]).toEqual([["ep-1", ["person:alice", "person:mark"]]]);
+    // One read per relation, not per fragment
+    expect(spicedb.readRelationships.mock.calls.map((c) => c[0].relation)).toEqual(["viewer", "involves"]);
+  });
+
+  test("leaves out fragments that weren't asked for", async () => {
+    const spicedb = createSpiceDb();
+
+    const audiences = await readFragmentAudiences(spicedb as unknown as SpiceDbClient, ["ep-2"]);
+
+    expect(audiences.size).toBe(0);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Sharing Single Memories
+ *
+ * A stored memory (an episode, tracked as a memory_fragment) is visible to
+ * its source group, the subject who stored it and the subjects it involves.
+ * Sharing adds `memory_fragment#viewer` tuples for further persons or agents
+ * after the fact; unsharing removes a subject's viewer and involves tuples.
+ * Both require `memory_fragment#share`, which only the storing subject has.
+ *
+ * Used by the memory_share / memory_unshare tools, `graphiti-mem share` /
+ * `unshare`, and memory_recall's `sharedWith` details.
+ */
+
+import type { SpiceDbClient } from "./spicedb.js";
+import {
+  FRAGMENT_VIEWER_RELATION,
+  canShareFragment,
+  readFragmentRelations,
+  shareFragment,
+  unshareFragment,
+  type Subject,
+} from "./authorization.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShareOutcome = {
+  action: "shared" | "unshared" | "denied" | "error";
+  /** Episode UUID the ID resolved to */
+  fragmentId?: string;
+  subjects: Subject[];
+  message?: string;
+  token?: string;
+};
+
+export type ShareRequest = {
+  /** "episode:UUID" as shown by memory_recall */
+  id: string;
+  /** Subjects to share with / unshare from */
+  subjects: Subject[];
+  /** Who is sharing — must be the subject who stored the memory */
+  subject: Subject;
+  zedToken?: string;
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Turn "person:mark", "agent:pi" or a bare "mark" (a person) into subjects.
+ * Returns an error message for anything else.
+ */
+export function parseShareSubjects(ids: string[]): Subject[] | string {
+  const subjects: Subject[] = [];
+  for (const raw of ids) {
+    const value = raw.trim();
+    const colonIdx = value.indexOf(":");
+    const type = colonIdx > 0 ? value.slice(0, colonIdx) : "person";
+    const id = colonIdx > 0 ? value.slice(colonIdx + 1) : value;
+    if ((type !== "person" && type !== "agent") || !id) {
+      return `Unrecognized subject "${raw}" (use a person ID, "person:ID" or "agent:ID")`;
+    }
+    if (!subjects.some((s) => s.type === type && s.id === id)) {
+      subjects.push({ type, id });
+    }
+  }
+  return subjects;
+}
+
+/** Episode UUID from an "episode:UUID" ID, or an error message. */
+function parseEpisodeId(id: string): { uuid: string } | { message: string } {
+  if (id.startsWith("episode:") && id.length > "episode:".length) {
+    return { uuid: id.slice("episode:".length) };
+  }
+  if (id.startsWith("fact:")) {
+    return { message: `"${id}" is a fact — share the episode it came from (the [episode:UUID] IDs on its memory_recall line)` };
+  }
+  return { message: `Unrecognized ID format "${id}" (use 'episode:UUID')` };
+}
+
+export function formatSubject(subject: Subject): string {
+  return `${subject.type}:${subject.id}`;
+}
+
+// ============================================================================
+// Share / Unshare
+// ============================================================================
+
+async function checkShare(
+  spicedb: SpiceDbClient,
+  request: ShareRequest,
+): Promise<{ uuid: string } | ShareOutcome> {
+  const parsed = parseEpisodeId(request.id);
+  if ("message" in parsed) {
+    return { action: "error", subjects: request.subjects, message: parsed.message };
+  }
+  if (request.subjects.length === 0) {
+    return { action: "error", fragmentId: parsed.uuid, subjects: [], message: "no subjects given" };
+  }
+  if (!(await canShareFragment(spicedb, request.subject, parsed.uuid, request.zedToken))) {
+    return {
+      action: "denied",
+      fragmentId: parsed.uuid,
+      subjects: request.subjects,
+      message: `only the subject who stored episode ${parsed.uuid} can share it`,
+    };
+  }
+  return parsed;
+}
+
+/** Let further subjects view one stored memory, optionally until `expiresAt`. */
+export async function shareMemory(
+  spicedb: SpiceDbClient,
+  request: ShareRequest & { expiresAt?: Date },
+): Promise<ShareOutcome> {
+  const checked = await checkShare(spicedb, request);
+  if ("action" in checked) return checked;
+
+  const token = await shareFragment(spicedb, checked.uuid, request.subjects, { expiresAt: request.expiresAt });
+  return { action: "shared", fragmentId: checked.uuid, subjects: request.subjects, token };
+}
+
+/** Revoke subjects' individual view of one stored memory. */
+export async function unshareMemory(spicedb: SpiceDbClient, request: ShareRequest): Promise<ShareOutcome> {
+  const checked = await checkShare(spicedb, request);
+  if ("action" in checked) return checked;
+
+  const token = await unshareFragment(spicedb, checked.uuid, request.subjects);
+  return { action: "unshared", fragmentId: checked.uuid, subjects: request.subjects, token };
+}
+
+// ============================================================================
+// Audience
+// ============================================================================
+
+/**
+ * Subjects each fragment is individually visible to (viewers and involved
+ * subjects), as "type:id". Fragments without any are omitted. Callers pass
+ * only fragments the reader may view — an audience is as private as the
+ * memory itself.
+ */
+export async function readFragmentAudiences(
+  spicedb: SpiceDbClient,
+  fragmentIds: string[],
+  zedToken?: string,
+): Promise<Map<string, string[]>> {
+  const tuples = await readFragmentRelations(spicedb, fragmentIds, [FRAGMENT_VIEWER_RELATION, "involves"], zedToken);
+  const audiences = new Map<string, string[]>();
+  for (const t of tuples) {
+    const audience = audiences.get(t.resourceId) ?? [];
+    const subject = formatSubject({ type: t.subjectType as Subject["type"], id: t.subjectId });
+    if (!audience.includes(subject)) audience.push(subject);
+    audiences.set(t.resourceId, audience);
+  }
+  return audiences;
+}
@@ -3,7 +3,9 @@
  *
  * Wraps @authzed/authzed-node for authorization operations:
  * WriteSchema, WriteRelationships, DeleteRelationships, BulkImportRelationships,
- * LookupResources, CheckPermission.
+ * LookupResources, LookupSubjects, CheckPermission (optionally with debug
+ * tracing). Relationships may carry a caveat and an expiration time; checks
+ * and lookups take the caveat context.
  */
 
 import { v1 } from "@authzed/authzed-node";
@@ -18,12 +20,36 @@ export type SpiceDbConfig = {
   insecure: boolean;
 };
 
+/** Caveat parameters — write-time values on a relationship, or check-time context. */
+export type CaveatContext = Record<string, string | number | boolean | string[]>;
+
 export type RelationshipTuple = {
   resourceType: string;
   resourceId: string;
   relation: string;
   subjectType: string;
   subjectId: string;
+  /** Caveat (defined in the schema) the relationship is conditional on */
+  caveat?: { name: string; context?: CaveatContext };
+  /** After this time the relationship no longer exists (relation must allow `with expiration`) */
+  expiresAt?: Date;
+};
+
+export type PermissionResult = "has_permission" | "no_permission" | "conditional_permission";
+
+/** One step of a SpiceDB check debug trace: a permission or relation on a resource. */
+export type CheckTrace = {
+  /** For batched steps the ID is a comma-separated list */
+  resourceType: string;
+  resourceId: string;
+  permission: string;
+  isRelation: boolean;
+  result: PermissionResult | "unspecified";
+  /** Caveat evaluated at this step */
+  caveat?: { name: string; result: "true" | "false" | "missing_context" | "unevaluated" };
+  /** Answered from SpiceDB's cache, so there are no sub-steps */
+  cached: boolean;
+  children: CheckTrace[];
 };
 
 export type ConsistencyMode =
@@ -31,6 +57,59 @@ export type ConsistencyMode =
   | { mode: "at_least_as_fresh"; token: string }
   | { mode: "minimize_latency" };
 
+type CheckParams = {
+  resourceType: string;
+  resourceId: string;
+  permission: string;
+  subjectType: string;
+  subjectId: string;
+  consistency?: ConsistencyMode;
+  context?: CaveatContext;
+};
+
+type RelationshipFilterParams = {
+  resourceType: string;
+  resourceId?: string;
+  relation?: string;
+  subjectType?: string;
+  subjectId?: string;
+  consistency?: ConsistencyMode;
+};
+
+type DebugCheck = NonNullable<NonNullable<v1.CheckPermissionResponse["debugTrace"]>["check"]>;
+
+// CheckPermissionResponse and CheckDebugTrace share these numeric values;
+// the debug enums aren't exported from the v1 namespace
+const PERMISSIONSHIP_RESULTS: Record<number, PermissionResult> = {
+  1: "no_permission",
+  2: "has_permission",
+  3: "conditional_permission",
+};
+const TRACE_PERMISSION_TYPE_RELATION = 1;
+const CAVEAT_RESULTS: Record<number, NonNullable<CheckTrace["caveat"]>["result"]> = {
+  1: "unevaluated",
+  2: "false",
+  3: "true",
+  4: "missing_context",
+};
+
+function toCheckTrace(check: DebugCheck): CheckTrace {
+  const caveat = check.caveatEvaluationInfo;
+  return {
+    resourceType: check.resource?.objectType ?? "",
+    resourceId: check.resource?.objectId ?? "",
+    permission: check.permission,
+    isRelation: check.permissionType === TRACE_PERMISSION_TYPE_RELATION,
+    result: PERMISSIONSHIP_RESULTS[check.result] ?? "unspecified",
+    ...(caveat?.caveatName
+      ? { caveat: { name: caveat.caveatName, result: CAVEAT_RESULTS[caveat.result] ?? "unevaluated" } }
+      : {}),
+    cached: check.resolution.oneofKind === "wasCachedResult" && check.resolution.wasCachedResult,
+    children:
+      check.resolution.oneofKind === "subProblems" ? check.resolution.subProblems.traces.map(toCheckTrace) : [],
+  };
+}
+
 // ============================================================================
 // Client
 // ============================================================================
@@ -71,23 +150,15 @@ export class SpiceDbClient {
   // Relationships
   // --------------------------------------------------------------------------
 
+  /**
+   * TOUCH relationships. Touching an existing relationship replaces its caveat
+   * and expiration, so rewriting a plain tuple makes a conditional grant permanent.
+   */
   async writeRelationships(tuples: RelationshipTuple[]): Promise<string | undefined> {
     const updates = tuples.map((t) =>
       v1.RelationshipUpdate.create({
         operation: v1.RelationshipUpdate_Operation.TOUCH,
-        relationship: v1.Relationship.create({
-          resource: v1.ObjectReference.create({
-            objectType: t.resourceType,
-            objectId: t.resourceId,
-          }),
-          relation: t.relation,
-          subject: v1.SubjectReference.create({
-            object: v1.ObjectReference.create({
-              objectType: t.subjectType,
-              objectId: t.subjectId,
-            }),
-          }),
-        }),
+        relationship: this.toRelationship(t),
       }),
     );
 
@@ -96,7 +167,7 @@ export class SpiceDbClient {
     return response.writtenAt?.token;
   }
 
-  async deleteRelationships(tuples: RelationshipTuple[]): Promise<void> {
+  async deleteRelationships(tuples: RelationshipTuple[]): Promise<string | undefined> {
     const updates = tuples.map((t) =>
       v1.RelationshipUpdate.create({
         operation: v1.RelationshipUpdate_Operation.DELETE,
@@ -117,7 +188,8 @@ export class SpiceDbClient {
     );
 
     const request = v1.WriteRelationshipsRequest.create({ updates });
-    await this.promises.writeRelationships(request);
+    const response = await this.promises.writeRelationships(request);
+    return response.writtenAt?.token;
   }
 
   async deleteRelationshipsByFilter(params: {
@@ -137,10 +209,6 @@ export class SpiceDbClient {
     return response.deletedAt?.token;
   }
 
-  // --------------------------------------------------------------------------
-  // Bulk Import
-  // --------------------------------------------------------------------------
-
   private toRelationship(t: RelationshipTuple) {
     return v1.Relationship.create({
       resource: v1.ObjectReference.create({
@@ -154,9 +222,24 @@ export class SpiceDbClient {
           objectId: t.subjectId,
         }),
       }),
+      ...(t.caveat
+        ? {
+            optionalCaveat: v1.ContextualizedCaveat.create({
+              caveatName: t.caveat.name,
+              ...(t.caveat.context ? { context: v1.createStructFromObject(t.caveat.context) } : {}),
+            }),
+          }
+        : {}),
+      ...(t.expiresAt
+        ? { optionalExpiresAt: { seconds: String(Math.floor(t.expiresAt.getTime() / 1000)), nanos: 0 } }
+        : {}),
     });
   }
 
+  // --------------------------------------------------------------------------
+  // Bulk Import
+  // --------------------------------------------------------------------------
+
   /**
    * Bulk import relationships using the streaming ImportBulkRelationships RPC.
    * More efficient than individual writeRelationships calls for large batches.
@@ -174,7 +257,7 @@ export class SpiceDbClient {
     }
 
     // Fallback: batched writeRelationships
-    return this.bulkImportViaWrite(tuples, batchSize);
+    return this.touchRelationships(tuples, batchSize);
   }
 
   private bulkImportViaStream(
@@ -206,9 +289,15 @@ export class SpiceDbClient {
     });
   }
 
-  private async bulkImportViaWrite(
+  /**
+   * Write relationships in batches of `batchSize` with TOUCH semantics.
+   * Unlike the streaming import, which only creates tuples and fails the
+   * whole stream if any already exists, existing tuples are overwritten —
+   * for loading data into a SpiceDB that may already hold some of it.
+   */
+  async touchRelationships(
     tuples: RelationshipTuple[],
-    batchSize: number,
+    batchSize = 1000,
   ): Promise<number> {
     let total = 0;
     for (let i = 0; i < tuples.length; i += batchSize) {
@@ -229,14 +318,25 @@ export class SpiceDbClient {
    * optional subject filter. Used by the cleanup command to find which
    * Graphiti episodes have SpiceDB authorization relationships.
    */
-  async readRelationships(params: {
-    resourceType: string;
-    resourceId?: string;
-    relation?: string;
-    subjectType?: string;
-    subjectId?: string;
-    consistency?: ConsistencyMode;
-  }): Promise<RelationshipTuple[]> {
+  async readRelationships(params: RelationshipFilterParams): Promise<RelationshipTuple[]> {
+    const results = await this.promises.readRelationships(this.buildReadRequest(params));
+    return this.toTuples(results);
+  }
+
+  /**
+   * Read one page of relationships matching a filter. `cursor` is set while
+   * more may follow; pass it back to read the next page. Used by reconcile
+   * to scan every memory_fragment tuple without one unbounded read.
+   */
+  async readRelationshipsPage(
+    params: RelationshipFilterParams & { limit: number; cursor?: string },
+  ): Promise<{ tuples: RelationshipTuple[]; cursor?: string }> {
+    const results = await this.promises.readRelationships(this.buildReadRequest(params, params.limit, params.cursor));
+    const last = results.length >= params.limit ? results[results.length - 1]?.afterResultCursor?.token : undefined;
+    return { tuples: this.toTuples(results), ...(last ? { cursor: last } : {}) };
+  }
+
+  private buildReadRequest(params: RelationshipFilterParams, limit?: number, cursor?: string) {
     const filterFields: Record<string, unknown> = {
       resourceType: params.resourceType,
     };
@@ -256,12 +356,15 @@ export class SpiceDbClient {
       filterFields.optionalSubjectFilter = v1.SubjectFilter.create(subjectFilter);
     }
 
-    const request = v1.ReadRelationshipsRequest.create({
+    return v1.ReadRelationshipsRequest.create({
       relationshipFilter: v1.RelationshipFilter.create(filterFields),
       consistency: this.buildConsistency(params.consistency),
+      ...(limit ? { optionalLimit: limit } : {}),
+      ...(cursor ? { optionalCursor: { token: cursor } } : {}),
     });
+  }
 
-    const results = await this.promises.readRelationships(request);
+  private toTuples(results: v1.ReadRelationshipsResponse[]): RelationshipTuple[] {
     const tuples: RelationshipTuple[] = [];
     for (const r of results) {
       const rel = r.relationship;
@@ -272,6 +375,19 @@ export class SpiceDbClient {
         relation: rel.relation,
         subjectType: rel.subject.object.objectType,
         subjectId: rel.subject.object.objectId,
+        ...(rel.optionalCaveat
+          ? {
+              caveat: {
+                name: rel.optionalCaveat.caveatName,
+                ...(rel.optionalCaveat.context
+                  ? { context: v1.PbStruct.toJson(rel.optionalCaveat.context) as CaveatContext }
+                  : {}),
+              },
+            }
+          : {}),
+        ...(rel.optionalExpiresAt
+          ? { expiresAt: new Date(Number(rel.optionalExpiresAt.seconds) * 1000) }
+          : {}),
       });
     }
     return tuples;
@@ -300,15 +416,8 @@ export class SpiceDbClient {
     });
   }
 
-  async checkPermission(params: {
-    resourceType: string;
-    resourceId: string;
-    permission: string;
-    subjectType: string;
-    subjectId: string;
-    consistency?: ConsistencyMode;
-  }): Promise<boolean> {
-    const request = v1.CheckPermissionRequest.create({
+  private buildCheckRequest(params: CheckParams, withTracing = false) {
+    return v1.CheckPermissionRequest.create({
       resource: v1.ObjectReference.create({
         objectType: params.resourceType,
         objectId: params.resourceId,
@@ -321,21 +430,45 @@ export class SpiceDbClient {
         }),
       }),
       consistency: this.buildConsistency(params.consistency),
+      ...(params.context ? { context: v1.createStructFromObject(params.context) } : {}),
+      ...(withTracing ? { withTracing: true } : {}),
     });
+  }
 
-    const response = await this.promises.checkPermission(request);
+  /**
+   * True only for HAS_PERMISSION: a result that depends on caveat context
+   * the caller didn't supply (CONDITIONAL_PERMISSION) counts as denied.
+   */
+  async checkPermission(params: CheckParams): Promise<boolean> {
+    const response = await this.promises.checkPermission(this.buildCheckRequest(params));
     return (
       response.permissionship ===
       v1.CheckPermissionResponse_Permissionship.HAS_PERMISSION
     );
   }
 
+  /**
+   * Check with SpiceDB debug tracing: returns the full result and the tree
+   * of permissions and relations SpiceDB walked to reach it. `trace` is
+   * undefined if the server sent no debug information.
+   */
+  async checkPermissionWithTrace(params: CheckParams): Promise<{ result: PermissionResult; trace?: CheckTrace }> {
+    const response = await this.promises.checkPermission(this.buildCheckRequest(params, true));
+    const check = response.debugTrace?.check;
+    return {
+      result: PERMISSIONSHIP_RESULTS[response.permissionship] ?? "no_permission",
+      trace: check ? toCheckTrace(check) : undefined,
+    };
+  }
+
+  /** Resources the subject has the permission on; conditional results are dropped. */
   async lookupResources(params: {
     resourceType: string;
     permission: string;
     subjectType: string;
     subjectId: string;
     consistency?: ConsistencyMode;
+    context?: CaveatContext;
   }): Promise<string[]> {
     const request = v1.LookupResourcesRequest.create({
       resourceObjectType: params.resourceType,
@@ -347,9 +480,46 @@ export class SpiceDbClient {
         }),
       }),
       consistency: this.buildConsistency(params.consistency),
+      ...(params.context ? { context: v1.createStructFromObject(params.context) } : {}),
     });
 
     const results = await this.promises.lookupResources(request);
-    return results.map((r: { resourceObjectId: string }) => r.resourceObjectId);
+    return results
+      .filter((r) => r.permissionship !== v1.LookupPermissionship.CONDITIONAL_PERMISSION)
+      .map((r) => r.resourceObjectId);
+  }
+
+  /**
+   * Subjects of `subjectType` that have the permission on a resource,
+   * expanded through every relation and arrow. Unlike lookupResources,
+   * results that depend on missing caveat context are kept and flagged
+   * `conditional`, since "who could see this" should include them.
+   */
+  async lookupSubjects(params: {
+    resourceType: string;
+    resourceId: string;
+    permission: string;
+    subjectType: string;
+    consistency?: ConsistencyMode;
+    context?: CaveatContext;
+  }): Promise<{ subjectId: string; conditional: boolean }[]> {
+    const request = v1.LookupSubjectsRequest.create({
+      resource: v1.ObjectReference.create({
+        objectType: params.resourceType,
+        objectId: params.resourceId,
+      }),
+      permission: params.permission,
+      subjectObjectType: params.subjectType,
+      consistency: this.buildConsistency(params.consistency),
+      ...(params.context ? { context: v1.createStructFromObject(params.context) } : {}),
+    });
+
+    const results = await this.promises.lookupSubjects(request);
+    return results
+      .filter((r) => r.subject)
+      .map((r) => ({
+        subjectId: r.subject!.subjectObjectId,
+        conditional: r.subject!.permissionship === v1.LookupPermissionship.CONDITIONAL_PERMISSION,
+      }));
   }
 }
@@ -0,0 +1,87 @@
+import { describe, test, expect } from "vitest";
+import {
+  resolveSubject,
+  subjectContextFrom,
+  renderSubjectTemplate,
+  sanitizeSubjectId,
+} from "./subject.js";
+import { graphitiMemoryConfigSchema } from "./config.js";
+
+function config(subjects?: Record<string, unknown>) {
+  return graphitiMemoryConfigSchema.parse({
+    spicedb: { token: "tok" },
+    subjectType: "agent",
+    subjectId: "static-agent",
+    subjects,
+  });
+}
+
+describe("subjectContextFrom", () => {
+  test("reads agentId, channel and sender from a tool context", () => {
+    expect(subjectContextFrom({ agentId: "main", messageChannel: "telegram", requesterSenderId: "42" })).toEqual({
+      agentId: "main",
+      channel: "telegram",
+      senderId: "42",
+    });
+  });
+
+  test("reads the channel from a hook context's messageProvider", () => {
+    expect(subjectContextFrom({ agentId: "main", messageProvider: "slack" }).channel).toBe("slack");
+  });
+
+  test("returns empty context for missing input", () => {
+    expect(subjectContextFrom(undefined)).toEqual({});
+  });
+});
+
+describe("renderSubjectTemplate", () => {
+  test("substitutes placeholders and sanitizes the result", () => {
+    expect(renderSubjectTemplate("{channel}:{senderId}", { channel: "telegram", senderId: "u@x.com" }))
+      .toBe("telegram-u-x-com");
+  });
+
+  test("returns undefined when a placeholder has no value", () => {
+    expect(renderSubjectTemplate("{channel}-{senderId}", { channel: "telegram" })).toBeUndefined();
+  });
+});
+
+describe("sanitizeSubjectId", () => {
+  test("keeps SpiceDB-safe characters", () => {
+    expect(sanitizeSubjectId("agent_1/a|b-c=d+e")).toBe("agent_1/a|b-c=d+e");
+  });
+});
+
+describe("resolveSubject", () => {
+  test("falls back to the static subject without mapping config", () => {
+    expect(resolveSubject(config(), { agentId: "main", senderId: "42" })).toEqual({
+      type: "agent",
+      id: "static-agent",
+    });
+  });
+
+  test("maps agent IDs explicitly before applying the template", () => {
+    const cfg = config({ agents: { main: "pi" }, agentTemplate: "oc-{agentId}" });
+    expect(resolveSubject(cfg, { agentId: "main" })).toEqual({ type: "agent", id: "pi" });
+    expect(resolveSubject(cfg, { agentId: "work" })).toEqual({ type: "agent", id: "oc-work" });
+  });
+
+  test("resolves the channel user to a person when person resolution is configured", () => {
+    const cfg = config({
+      agentTemplate: "{agentId}",
+      persons: { "telegram:42": "mark", "99": "mom" },
+      personTemplate: "{channel}-{senderId}",
+    });
+    expect(resolveSubject(cfg, { agentId: "main", channel: "telegram", senderId: "42" }))
+      .toEqual({ type: "person", id: "mark" });
+    expect(resolveSubject(cfg, { agentId: "main", channel: "slack", senderId: "99" }))
+      .toEqual({ type: "person", id: "mom" });
+    expect(resolveSubject(cfg, { agentId: "main", channel: "slack", senderId: "7" }))
+      .toEqual({ type: "person", id: "slack-7" });
+  });
+
+  test("ignores the sender when no person resolution is configured", () => {
+    const cfg = config({ agentTemplate: "{agentId}" });
+    expect(resolveSubject(cfg, { agentId: "main", channel: "telegram", senderId: "42" }))
+      .toEqual({ type: "agent", id: "main" });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Subject Resolution
+ *
+ * Derives the SpiceDB subject (agent or person) a hook or tool call should
+ * authorize as, from the OpenClaw hook/tool context:
+ * - The human user from the channel, when person resolution is configured
+ * - The agent running the turn, via an explicit mapping or an ID template
+ * - Otherwise the static `subjectType`/`subjectId` from config
+ */
+
+import type { Subject } from "./authorization.js";
+import type { GraphitiMemoryConfig } from "./config.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The parts of an OpenClaw hook or tool context used to pick a subject. */
+export type SubjectContext = {
+  agentId?: string;
+  channel?: string;
+  senderId?: string;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read the subject-relevant fields from a hook or tool context.
+ * Hook contexts name the channel `messageProvider`, tool contexts
+ * `messageChannel`; the sender is only present on channel-originated runs.
+ */
+export function subjectContextFrom(ctx: unknown): SubjectContext {
+  if (!ctx || typeof ctx !== "object") return {};
+  const c = ctx as Record<string, unknown>;
+  const str = (...keys: string[]) => {
+    for (const key of keys) {
+      if (typeof c[key] === "string" && c[key]) return c[key] as string;
+    }
+    return undefined;
+  };
+  return {
+    agentId: str("agentId"),
+    channel: str("messageChannel", "messageProvider", "channel"),
+    senderId: str("requesterSenderId", "senderId"),
+  };
+}
+
+/**
+ * Render a subject ID template. Supports `{agentId}`, `{channel}` and
+ * `{senderId}` placeholders. Returns undefined when a placeholder has no value.
+ */
+export function renderSubjectTemplate(template: string, ctx: SubjectContext): string | undefined {
+  let missing = false;
+  const rendered = template.replace(/\{(agentId|channel|senderId)\}/g, (_, key: keyof SubjectContext) => {
+    const value = ctx[key];
+    if (!value) missing = true;
+    return value ?? "";
+  });
+  return missing ? undefined : sanitizeSubjectId(rendered);
+}
+
+/**
+ * SpiceDB ObjectIds only allow alphanumerics and /_|-=+ — channel sender IDs
+ * often contain colons, @ or dots, so replace anything else with "-".
+ */
+export function sanitizeSubjectId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9/_|\-=+]/g, "-");
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Resolve the subject for a hook or tool context.
+ *
+ * Order: channel person (mapping, then template) > agent (mapping, then
+ * template) > static config subject.
+ */
+export function resolveSubject(cfg: GraphitiMemoryConfig, ctx: SubjectContext): Subject {
+  const { persons, personTemplate, agents, agentTemplate } = cfg.subjects;
+
+  if (ctx.senderId) {
+    const mapped = ctx.channel ? persons[`${ctx.channel}:${ctx.senderId}`] : undefined;
+    const id = mapped ?? persons[ctx.senderId] ?? (personTemplate && renderSubjectTemplate(personTemplate, ctx));
+    if (id) return { type: "person", id };
+  }
+
+  if (ctx.agentId) {
+    const id = agents[ctx.agentId] ?? (agentTemplate && renderSubjectTemplate(agentTemplate, ctx));
+    if (id) return { type: "agent", id };
+  }
+
+  return { type: cfg.subjectType, id: cfg.subjectId };
+}